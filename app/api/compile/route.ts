@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { detectEngine, parseEngine, type EngineChoice } from '@/lib/compiler';
+import { compileLatex } from '@/lib/latex';
+import { lintTex } from '@/lib/lint';
+import { REQUEST_ID_HEADER, requestLogger } from '@/lib/logger';
+
+// Compiles TeX edited in the browser through the same sandboxed compiler as generation
+// (engine detection, pass loop, limits, queue), without model repair. Nothing is saved;
+// the page keeps the edited TeX and shows the new PDF. The static checks are reported but
+// not applied, so what compiles is exactly what the user typed.
+
+// Generated exams are a few dozen KB; anything near this is not an edit of one
+const MAX_TEX_BYTES = 1024 * 1024;
+
+export async function POST(req: NextRequest) {
+    const log = requestLogger('compile', req.headers);
+    const headers = { [REQUEST_ID_HEADER]: log.requestId };
+
+    let tex: string;
+    let engine: EngineChoice;
+    try {
+        const body = await req.json();
+        if (typeof body.tex !== 'string' || !body.tex.trim()) {
+            return NextResponse.json({ error: 'tex must be a non-empty string' }, { status: 400, headers });
+        }
+        tex = body.tex;
+        engine = parseEngine(typeof body.engine === 'string' ? body.engine : null);
+    } catch (error) {
+        return NextResponse.json({ error: (error as Error).message }, { status: 400, headers });
+    }
+    if (Buffer.byteLength(tex) > MAX_TEX_BYTES) {
+        return NextResponse.json({ error: 'TeX is larger than 1 MB' }, { status: 413, headers });
+    }
+
+    try {
+        const { diagnostics } = lintTex(tex, engine === 'auto' ? detectEngine(tex) : engine, false);
+        const compiled = await compileLatex(tex, 'edited', log, engine);
+        // The kept log is a server path, of no use to the browser
+        const result = { ...compiled, logPath: null, diagnostics };
+        if (result.failure === 'queue-full') {
+            return NextResponse.json(result, { status: 503, headers: { ...headers, 'Retry-After': '5' } });
+        }
+        return NextResponse.json(result, { headers });
+    } catch (error) {
+        log.error('Compilation failed', { error });
+        return NextResponse.json({ error: (error as Error).message }, { status: 500, headers });
+    }
+}
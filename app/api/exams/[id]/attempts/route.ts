@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { examFamily, getExam, readAttempts, saveAttempt } from '@/lib/library';
+import { loadExamDocument } from '@/lib/build';
+import { PRACTICE_MODES, scoreAttempt, type PracticeMode } from '@/lib/practice';
+
+// Practice attempts. Scores are recomputed from the answer key here, the client's own
+// score is only a preview. Listing covers the whole regeneration family of the exam.
+
+type Params = { params: Promise<{ id: string }> };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export async function GET(_req: NextRequest, { params }: Params) {
+    try {
+        const { id } = await params;
+        const family = await examFamily(id);
+        if (family.length === 0) {
+            return NextResponse.json({ error: 'Exam not found' }, { status: 404 });
+        }
+
+        const attempts = (await Promise.all(family.map(async (exam) =>
+            (await readAttempts(exam.id)).map((attempt) => ({ ...attempt, examName: exam.name, examCreatedAt: exam.createdAt }))
+        ))).flat().sort((a, b) => b.submittedAt.localeCompare(a.submittedAt));
+        return NextResponse.json({ attempts });
+    } catch (error) {
+        return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+    }
+}
+
+export async function POST(req: NextRequest, { params }: Params) {
+    try {
+        const { id } = await params;
+        const record = await getExam(id);
+        const doc = record ? await loadExamDocument(id) : null;
+        if (!record || !doc) {
+            return NextResponse.json({ error: 'Exam not found' }, { status: 404 });
+        }
+
+        const body = await req.json();
+        if (!isRecord(body.responses) || !Object.values(body.responses).every((value) => typeof value === 'string')) {
+            return NextResponse.json({ error: 'responses must map item keys to strings' }, { status: 400 });
+        }
+        const selfMarks = body.selfMarks ?? {};
+        if (!isRecord(selfMarks) || !Object.values(selfMarks).every((value) => typeof value === 'number')) {
+            return NextResponse.json({ error: 'selfMarks must map item keys to numbers' }, { status: 400 });
+        }
+        if (!PRACTICE_MODES.includes(body.mode)) {
+            return NextResponse.json({ error: `mode must be one of: ${PRACTICE_MODES.join(', ')}` }, { status: 400 });
+        }
+        const startedAt = new Date(body.startedAt);
+        if (typeof body.startedAt !== 'string' || isNaN(startedAt.getTime())) {
+            return NextResponse.json({ error: 'startedAt must be an ISO date' }, { status: 400 });
+        }
+
+        const responses = body.responses as Record<string, string>;
+        const marks = selfMarks as Record<string, number>;
+        const durationSeconds = typeof body.durationSeconds === 'number' && body.durationSeconds >= 0
+            ? Math.round(body.durationSeconds)
+            : Math.max(0, Math.round((Date.now() - startedAt.getTime()) / 1000));
+
+        const attempt = await saveAttempt({
+            examId: id,
+            mode: body.mode as PracticeMode,
+            startedAt: startedAt.toISOString(),
+            submittedAt: new Date().toISOString(),
+            durationSeconds,
+            timeLimitMinutes: doc.timeLimitMinutes ?? null,
+            responses,
+            selfMarks: marks,
+            ...scoreAttempt(doc, responses, marks),
+        });
+        if (!attempt) {
+            return NextResponse.json({ error: 'Exam not found' }, { status: 404 });
+        }
+        return NextResponse.json({ attempt });
+    } catch (error) {
+        return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+    }
+}
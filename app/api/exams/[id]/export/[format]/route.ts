@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { batchExams, getExam, readExamFile, type ExamFile, type ExamRecord } from '@/lib/library';
+import { loadExamDocument } from '@/lib/build';
+import { LMS_FORMATS, buildMoodleXml, buildQtiPackage, type LmsFormat } from '@/lib/lms';
+import { DOCUMENT_FORMATS, convertTex, type DocumentFormat } from '@/lib/convert';
+import { requestLogger, type Logger } from '@/lib/logger';
+import { createZip, type ZipEntry } from '@/lib/zip';
+
+type Params = { params: Promise<{ id: string; format: string }> };
+
+// Safe download name derived from the exam name
+const fileStem = (name: string) => name.replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '') || 'exam';
+
+// HTML or Markdown converted from exam.tex (?file=solutions for the key). Clients accepting
+// JSON get { filename, content, warnings }; everyone else a download, with the number of
+// conversion warnings in X-Conversion-Warnings.
+async function documentExport(req: NextRequest, id: string, name: string, format: DocumentFormat, log: Logger) {
+    const which = req.nextUrl.searchParams.get('file') === 'solutions' ? 'solutions' : 'exam';
+    const tex = await readExamFile(id, `${which}.tex`);
+    if (!tex) {
+        return NextResponse.json({ error: `No ${which}.tex for this exam` }, { status: 404 });
+    }
+
+    const { content, warnings } = convertTex(tex.toString('utf8'), format, which === 'solutions' ? `${name} (solutions)` : name);
+    const filename = `${fileStem(name)}${which === 'solutions' ? '_solutions' : ''}.${format === 'html' ? 'html' : 'md'}`;
+    log.info('Converted exam', { examId: id, file: which, format, warnings: warnings.length });
+
+    if (req.headers.get('accept')?.includes('application/json')) {
+        return NextResponse.json({ filename, content, warnings });
+    }
+    return new Response(content, {
+        headers: {
+            'Content-Type': format === 'html' ? 'text/html; charset=utf-8' : 'text/markdown; charset=utf-8',
+            'Content-Disposition': `attachment; filename="${filename}"`,
+            'X-Conversion-Warnings': String(warnings.length),
+        },
+    });
+}
+
+// Files of every version in the exam's batch, one folder per version
+const VERSION_FILES: ExamFile[] = ['exam.pdf', 'exam.tex', 'solutions.pdf', 'solutions.tex'];
+
+async function versionsExport(record: ExamRecord, log: Logger) {
+    if (!record.batch) {
+        return NextResponse.json({ error: 'This exam was not generated as one of several versions' }, { status: 404 });
+    }
+    const entries: ZipEntry[] = [];
+    const versions = await batchExams(record.batch.id);
+    for (const exam of versions) {
+        for (const file of VERSION_FILES) {
+            const content = await readExamFile(exam.id, file);
+            if (content) entries.push({ name: `Version ${exam.batch!.version}/${file}`, content });
+        }
+    }
+    log.info('Exporting versions', { examId: record.id, batchId: record.batch.id, versions: versions.length, files: entries.length });
+
+    return new Response(new Uint8Array(createZip(entries)), {
+        headers: {
+            'Content-Type': 'application/zip',
+            'Content-Disposition': `attachment; filename="${fileStem(record.name)}_versions.zip"`,
+        },
+    });
+}
+
+// Quiz and document exports:
+//   /moodle    Moodle XML
+//   /qti       IMS QTI 2.1 package (zip)
+//   /html      standalone HTML with KaTeX-rendered math
+//   /markdown  Markdown with $...$ math
+//   /versions  PDF, TeX and answer key of every parallel version (zip)
+export async function GET(req: NextRequest, { params }: Params) {
+    const log = requestLogger('export', req.headers);
+    try {
+        const { id, format } = await params;
+        if (format !== 'versions' && !LMS_FORMATS.includes(format as LmsFormat) && !DOCUMENT_FORMATS.includes(format as DocumentFormat)) {
+            return NextResponse.json({ error: `Unknown export format "${format}"` }, { status: 404 });
+        }
+
+        const record = await getExam(id);
+        if (!record) {
+            return NextResponse.json({ error: 'Exam not found' }, { status: 404 });
+        }
+        if (format === 'versions') {
+            return await versionsExport(record, log);
+        }
+        if (DOCUMENT_FORMATS.includes(format as DocumentFormat)) {
+            return await documentExport(req, id, record.name, format as DocumentFormat, log);
+        }
+
+        const doc = await loadExamDocument(id);
+        if (!doc) {
+            return NextResponse.json({ error: 'Exam not found' }, { status: 404 });
+        }
+
+        log.info('Exporting exam', { examId: id, format, questions: doc.questions.length });
+        const stem = fileStem(record.name);
+        if (format === 'moodle') {
+            return new Response(buildMoodleXml(doc, record.name), {
+                headers: {
+                    'Content-Type': 'application/xml; charset=utf-8',
+                    'Content-Disposition': `attachment; filename="${stem}_moodle.xml"`,
+                },
+            });
+        }
+        return new Response(new Uint8Array(buildQtiPackage(doc, record.name, record.id)), {
+            headers: {
+                'Content-Type': 'application/zip',
+                'Content-Disposition': `attachment; filename="${stem}_qti.zip"`,
+            },
+        });
+    } catch (error) {
+        return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+    }
+}
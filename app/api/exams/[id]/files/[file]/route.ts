@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EXAM_FILES, readExamFile, type ExamFile } from '@/lib/library';
+
+type Params = { params: Promise<{ id: string; file: string }> };
+
+export async function GET(req: NextRequest, { params }: Params) {
+    try {
+        const { id, file } = await params;
+        if (!EXAM_FILES.includes(file as ExamFile)) {
+            return NextResponse.json({ error: `Unknown file "${file}"` }, { status: 404 });
+        }
+
+        const content = await readExamFile(id, file as ExamFile);
+        if (!content) {
+            return NextResponse.json({ error: 'File not found' }, { status: 404 });
+        }
+
+        // ?download=1 forces a save dialog, otherwise PDFs render inline for the preview
+        const disposition = req.nextUrl.searchParams.get('download') ? 'attachment' : 'inline';
+        return new Response(new Uint8Array(content), {
+            headers: {
+                'Content-Type': file.endsWith('.pdf') ? 'application/pdf'
+                    : file.endsWith('.json') ? 'application/json'
+                        : 'text/plain; charset=utf-8',
+                'Content-Disposition': `${disposition}; filename="${file.replace('exam', 'generated_exam').replace('solutions', 'generated_solutions')}"`,
+            },
+        });
+    } catch (error) {
+        return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+    }
+}
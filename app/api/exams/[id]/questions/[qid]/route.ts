@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getExam, writeExamFile, type ExamRecord } from '@/lib/library';
+import { createProvider } from '@/lib/providers';
+import { QUESTION_SCHEMA, parseQuestion, type ExamDocument } from '@/lib/exam';
+import { getRepairAttempts } from '@/lib/latex';
+import { buildQuestionPrompt, withSourceTexts } from '@/lib/prompts';
+import { loadProfile } from '@/lib/profiles';
+import { createRepairer, loadExamDocument, rebuildExam } from '@/lib/build';
+import { getCachedAnalysis, type SourceAnalysis } from '@/lib/analysis';
+import { loadSourceFiles, loadSourceMaterial } from '@/lib/sources';
+import { assessNovelty, familyReferences, sourceReferences } from '@/lib/novelty';
+import { createTracker, type ProgressTracker } from '@/lib/progress';
+import { createMeter, recordUsage, type UsageMeter } from '@/lib/usage';
+import { REQUEST_ID_HEADER, requestLogger } from '@/lib/logger';
+
+// Per-question edits of a saved exam. Delete and regenerate rebuild the exam in place
+// (same library record) and answer with the same payload as /api/process-pdf.
+
+type Params = { params: Promise<{ id: string; qid: string }> };
+
+type Target = { record: ExamRecord; doc: ExamDocument; index: number };
+
+async function loadTarget(params: Params['params']): Promise<Target | NextResponse> {
+    const { id, qid } = await params;
+    const record = await getExam(id);
+    const doc = record ? await loadExamDocument(id) : null;
+    if (!record || !doc) {
+        return NextResponse.json({ error: 'Exam not found' }, { status: 404 });
+    }
+    const index = doc.questions.findIndex((q) => q.id === qid);
+    if (index === -1) {
+        return NextResponse.json({ error: `Question "${qid}" not found` }, { status: 404 });
+    }
+    return { record, doc, index };
+}
+
+// Edits only report novelty; rewriting here would override what the user asked for
+async function rebuild(record: ExamRecord, doc: ExamDocument, meter: UsageMeter, tracker: ProgressTracker, analysis: SourceAnalysis | null) {
+    const references = [
+        ...sourceReferences(await loadSourceFiles(record.sources), analysis),
+        ...await familyReferences(record.id, record.id),
+    ];
+    return rebuildExam(record, doc, {
+        repairAttempts: getRepairAttempts(null),
+        repair: createRepairer(record.settings, () => loadProfile(record.options.profile), null, meter),
+        tracker,
+        meter,
+        novelty: assessNovelty(doc, references),
+    });
+}
+
+// Lock or unlock: locked questions are kept when the whole exam is regenerated
+export async function PATCH(req: NextRequest, { params }: Params) {
+    try {
+        const target = await loadTarget(params);
+        if (target instanceof NextResponse) return target;
+        const body = await req.json();
+        if (typeof body.locked !== 'boolean') {
+            return NextResponse.json({ error: 'locked must be a boolean' }, { status: 400 });
+        }
+
+        const { record, doc, index } = target;
+        doc.questions[index] = { ...doc.questions[index], locked: body.locked };
+        await writeExamFile(record.id, 'exam.json', JSON.stringify(doc, null, 2));
+        return NextResponse.json({ question: doc.questions[index] });
+    } catch (error) {
+        return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+    }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+    const log = requestLogger('delete-question', req.headers);
+    const headers = { [REQUEST_ID_HEADER]: log.requestId };
+    let target: Target | NextResponse;
+    try {
+        target = await loadTarget(params);
+    } catch (error) {
+        return NextResponse.json({ error: (error as Error).message }, { status: 400, headers });
+    }
+    if (target instanceof NextResponse) return target;
+
+    const { record, doc, index } = target;
+    if (doc.questions.length === 1) {
+        return NextResponse.json({ error: 'An exam needs at least one question' }, { status: 400, headers });
+    }
+    if (doc.questions[index].locked) {
+        return NextResponse.json({ error: 'Unlock the question before deleting it' }, { status: 409, headers });
+    }
+
+    log.info('Deleting question', { examId: record.id, questionId: doc.questions[index].id });
+    let meter: UsageMeter | null = null;
+    try {
+        meter = createMeter(log);
+        const updated = { ...doc, questions: doc.questions.filter((_, i) => i !== index) };
+        const analysis = await getCachedAnalysis(record.sources);
+        return NextResponse.json(await rebuild(record, updated, meter, createTracker(() => {}, log), analysis), { headers });
+    } catch (error) {
+        log.error('Delete failed', { examId: record.id, error });
+        return NextResponse.json({ error: (error as Error).message }, { status: 500, headers });
+    } finally {
+        // Only repairs call the model here, so most deletes record nothing
+        if (meter) await recordUsage('delete-question', record.id, meter, log);
+    }
+}
+
+// Regenerate just this question, optionally steered by { instruction }
+export async function POST(req: NextRequest, { params }: Params) {
+    const log = requestLogger('regenerate-question', req.headers);
+    const headers = { [REQUEST_ID_HEADER]: log.requestId };
+    let target: Target | NextResponse;
+    let instruction: string | null = null;
+    try {
+        target = await loadTarget(params);
+        const body = await req.json().catch(() => ({}));
+        if (typeof body.instruction === 'string' && body.instruction.trim()) instruction = body.instruction.trim();
+    } catch (error) {
+        return NextResponse.json({ error: (error as Error).message }, { status: 400, headers });
+    }
+    if (target instanceof NextResponse) return target;
+
+    const { record, doc, index } = target;
+    const current = doc.questions[index];
+    if (current.locked) {
+        return NextResponse.json({ error: 'Unlock the question before regenerating it' }, { status: 409, headers });
+    }
+
+    const startedAt = Date.now();
+    log.info('Request received', { examId: record.id, questionId: current.id, instruction: instruction ?? undefined });
+
+    let meter: UsageMeter | null = null;
+    try {
+        meter = createMeter(log);
+        const tracker = createTracker(() => {}, log);
+        const provider = meter.wrap(createProvider(record.settings.provider));
+        // The cached source analysis keeps the variant in the style of the original material;
+        // without one, the source files themselves are sent
+        const analysis = await getCachedAnalysis(record.sources);
+        const { files, texts } = analysis ? { files: [], texts: [] } : await loadSourceMaterial(record.sources);
+        // Same subject profile as the generation, in its current version
+        const profile = await loadProfile(record.options.profile);
+
+        tracker.start('model', 'Regenerating question', record.settings.model);
+        const result = await provider.generate({
+            task: 'question',
+            prompt: withSourceTexts(buildQuestionPrompt(doc, current, instruction, record.options, analysis, profile), texts),
+            files,
+            model: record.settings.model,
+            temperature: record.settings.temperature,
+            thinkingLevel: record.settings.thinkingLevel,
+            responseSchema: QUESTION_SCHEMA,
+        });
+        tracker.finish('model');
+        tracker.start('parse', 'Validating question');
+        const question = parseQuestion(result.text);
+        tracker.finish('parse', `${question.topic} (${question.marks} marks)`);
+
+        const updated = {
+            ...doc,
+            questions: doc.questions.map((q, i) => (i === index ? { ...question, id: current.id, locked: false } : q)),
+        };
+        const data = await rebuild(record, updated, meter, tracker, analysis);
+        log.info('Request finished', { durationMs: Date.now() - startedAt });
+        return NextResponse.json(data, { headers });
+    } catch (error) {
+        log.error('Question regeneration failed', { durationMs: Date.now() - startedAt, error });
+        return NextResponse.json({ error: (error as Error).message }, { status: 500, headers });
+    } finally {
+        if (meter) await recordUsage('regenerate-question', record.id, meter, log);
+    }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteExam, getExam, readExamFile, renameExam } from '@/lib/library';
+import { loadExamDocument } from '@/lib/build';
+
+type Params = { params: Promise<{ id: string }> };
+
+// Record plus its TeX and question list, so the client can restore regeneration context
+export async function GET(_req: NextRequest, { params }: Params) {
+    try {
+        const { id } = await params;
+        const exam = await getExam(id);
+        if (!exam) {
+            return NextResponse.json({ error: 'Exam not found' }, { status: 404 });
+        }
+        const tex = await readExamFile(id, 'exam.tex');
+        const document = await loadExamDocument(id);
+        return NextResponse.json({ exam, tex: tex?.toString('utf8') ?? null, document });
+    } catch (error) {
+        return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+    }
+}
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+    try {
+        const { id } = await params;
+        const body = await req.json();
+        const name = typeof body.name === 'string' ? body.name.trim() : '';
+        if (!name) {
+            return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+        }
+        const exam = await renameExam(id, name);
+        if (!exam) {
+            return NextResponse.json({ error: 'Exam not found' }, { status: 404 });
+        }
+        return NextResponse.json({ exam });
+    } catch (error) {
+        return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+    }
+}
+
+export async function DELETE(_req: NextRequest, { params }: Params) {
+    try {
+        const { id } = await params;
+        if (!(await deleteExam(id))) {
+            return NextResponse.json({ error: 'Exam not found' }, { status: 404 });
+        }
+        return NextResponse.json({ deleted: id });
+    } catch (error) {
+        return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+    }
+}
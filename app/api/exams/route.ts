@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { listExams } from '@/lib/library';
+
+export async function GET() {
+    try {
+        return NextResponse.json({ exams: await listExams() });
+    } catch (error) {
+        return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+    }
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob, getJobResult } from '@/lib/jobs';
+
+type Params = { params: Promise<{ id: string }> };
+
+// The same result /api/process-pdf returns, once the job succeeded
+export async function GET(_req: NextRequest, { params }: Params) {
+    const { id } = await params;
+    const job = getJob(id);
+    if (!job) {
+        return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+    const result = getJobResult(id);
+    if (!result) {
+        return NextResponse.json({ error: `Job ${job.status}, no result` }, { status: 409 });
+    }
+    return NextResponse.json({ result });
+}
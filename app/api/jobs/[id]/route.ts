@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelJob, getJob } from '@/lib/jobs';
+
+type Params = { params: Promise<{ id: string }> };
+
+// Status, current stage and progress; the result of a succeeded job is at /api/jobs/:id/result
+export async function GET(_req: NextRequest, { params }: Params) {
+    const { id } = await params;
+    const job = getJob(id);
+    if (!job) {
+        return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+    return NextResponse.json({ job });
+}
+
+// Cancels a queued or running job; its model call and compile are stopped
+export async function DELETE(_req: NextRequest, { params }: Params) {
+    const { id } = await params;
+    const job = getJob(id);
+    if (!job) {
+        return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+    if (job.finishedAt) {
+        return NextResponse.json({ error: `Job already ${job.status}` }, { status: 409 });
+    }
+    return NextResponse.json({ job: cancelJob(id) });
+}
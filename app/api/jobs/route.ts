@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkContentLength, prepareGeneration } from '@/lib/generate';
+import { enqueueJob } from '@/lib/jobs';
+import { REQUEST_ID_HEADER, requestLogger } from '@/lib/logger';
+
+// Background generation: takes the same form as /api/process-pdf, checks it, queues the run
+// and answers 202 with the job ID. Progress and the result come from GET /api/jobs/:id.
+
+export async function POST(req: NextRequest) {
+    const log = requestLogger('jobs', req.headers);
+    const headers = { [REQUEST_ID_HEADER]: log.requestId };
+
+    const tooLarge = checkContentLength(Number(req.headers.get('content-length')), log);
+    if (tooLarge) return NextResponse.json(tooLarge.body, { status: tooLarge.status, headers });
+
+    let formData: FormData;
+    try {
+        formData = await req.formData();
+    } catch (error) {
+        log.warn('Unreadable form', { error });
+        return NextResponse.json({ error: 'Expected a multipart form with the source files' }, { status: 400, headers });
+    }
+
+    const prepared = await prepareGeneration(formData, log);
+    if (!prepared.ok) return NextResponse.json(prepared.body, { status: prepared.status, headers });
+
+    const job = enqueueJob(prepared.run, log);
+    if (!job) {
+        log.warn('Job queue full');
+        return NextResponse.json({ error: 'Too many exams are being generated, try again shortly' }, { status: 503, headers });
+    }
+    return NextResponse.json({ job }, { status: 202, headers });
+}
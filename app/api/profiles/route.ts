@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { getDefaultProfileId, listProfiles } from '@/lib/profiles';
+
+// Prompt profiles for the subject picker. New profiles are directories under prompts/
+// (PROMPTS_DIR) and show up here without a restart.
+
+export async function GET() {
+    try {
+        return NextResponse.json({ profiles: await listProfiles(), defaultProfile: getDefaultProfileId() });
+    } catch (error) {
+        return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+    }
+}
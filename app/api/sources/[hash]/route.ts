@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readSource } from '@/lib/library';
+
+type Params = { params: Promise<{ hash: string }> };
+
+// Stored source file, used by the library to restore an exam's uploads for regeneration
+export async function GET(_req: NextRequest, { params }: Params) {
+    try {
+        const { hash } = await params;
+        const source = await readSource(hash);
+        if (!source) {
+            return NextResponse.json({ error: 'Source not found' }, { status: 404 });
+        }
+        return new Response(new Uint8Array(source.content), {
+            headers: { 'Content-Type': source.mimeType },
+        });
+    } catch (error) {
+        return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+    }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { readUsage } from '@/lib/library';
+import { summarizeUsage } from '@/lib/usage';
+
+// Usage and estimated cost by day and by model, from the usage ledger.
+// Open when ADMIN_TOKEN is unset (local use), otherwise it needs "Authorization: Bearer <token>".
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function authorized(req: NextRequest) {
+    const token = process.env.ADMIN_TOKEN;
+    if (!token) return true;
+    const given = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+    // Compared as hashes, so the check takes the same time whatever the length
+    const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+    return crypto.timingSafeEqual(digest(given), digest(token));
+}
+
+export async function GET(req: NextRequest) {
+    if (!authorized(req)) {
+        return NextResponse.json({ error: 'Admin token required' }, { status: 401 });
+    }
+
+    const from = req.nextUrl.searchParams.get('from');
+    const to = req.nextUrl.searchParams.get('to');
+    for (const [name, value] of [['from', from], ['to', to]]) {
+        if (value !== null && !DAY_PATTERN.test(value)) {
+            return NextResponse.json({ error: `${name} must be a day as YYYY-MM-DD` }, { status: 400 });
+        }
+    }
+
+    try {
+        return NextResponse.json(summarizeUsage(await readUsage(), from, to));
+    } catch (error) {
+        return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+    }
+}
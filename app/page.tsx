@@ -1,14 +1,25 @@
 'use client';
 
-import { useState, useRef, useEffect } from 'react';
-import { Upload, FileText, Loader2, AlertCircle, Download, CheckCircle, File, X, Sparkles, RefreshCw } from 'lucide-react';
+import { useState, useRef, useEffect, useEffectEvent } from 'react';
+import { Upload, FileText, Loader2, AlertCircle, Download, CheckCircle, File, X, Sparkles, RefreshCw, Library, SlidersHorizontal, GraduationCap, Package, FileCode, Timer, Image as ImageIcon, FileType, FilePenLine, Layers, Ban } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { clsx, type ClassValue } from 'clsx';
-import { twMerge } from 'tailwind-merge';
-
-function cn(...inputs: ClassValue[]) {
-  return twMerge(clsx(inputs));
-}
+import ExamLibrary from '@/components/ExamLibrary';
+import ExamOptionsForm from '@/components/ExamOptionsForm';
+import PracticeMode from '@/components/PracticeMode';
+import QuestionPanel from '@/components/QuestionPanel';
+import TexEditor from '@/components/TexEditor';
+import type { EngineChoice } from '@/lib/compiler';
+import type { ExamDocument } from '@/lib/exam';
+import type { JobView } from '@/lib/jobs';
+import type { CompileResult } from '@/lib/latex';
+import type { LintDiagnostic } from '@/lib/lint';
+import type { NoveltyReport } from '@/lib/novelty';
+import type { ProfileSummary } from '@/lib/profiles';
+import type { ExamRecord } from '@/lib/library';
+import { DEFAULT_EXAM_OPTIONS, type ExamOptions } from '@/lib/options';
+import type { ExamResult, ProgressEvent } from '@/lib/progress';
+import { SOURCE_ACCEPT, SOURCE_LABELS, UPLOAD_LIMITS, describeProblems, formatBytes, screenFiles, sourceKind, type FileProblem, type SourceKind } from '@/lib/upload';
+import { cn, documentBody } from '@/lib/utils';
 
 // Animated Background Component
 const AnimatedBackground = () => (
@@ -19,62 +30,159 @@ const AnimatedBackground = () => (
   </div>
 );
 
+type Step = Extract<ProgressEvent, { type: 'step' }>;
+
+// Icon and badge colour per detected source type in the file list
+const SOURCE_STYLES: Record<SourceKind, { icon: typeof FileText; className: string }> = {
+  pdf: { icon: FileText, className: 'bg-red-100 text-red-600 dark:bg-red-900/20 dark:text-red-400' },
+  image: { icon: ImageIcon, className: 'bg-amber-100 text-amber-600 dark:bg-amber-900/20 dark:text-amber-400' },
+  tex: { icon: FileCode, className: 'bg-emerald-100 text-emerald-600 dark:bg-emerald-900/20 dark:text-emerald-400' },
+  docx: { icon: FileType, className: 'bg-sky-100 text-sky-600 dark:bg-sky-900/20 dark:text-sky-400' },
+};
+
+// Generation job this page follows; kept in the URL (?job=) and localStorage so a reload resumes it
+const JOB_STORAGE_KEY = 'exam-generator-job';
+const JOB_POLL_INTERVAL_MS = 1000;
+
+type Downloads = {
+  tex: string | null;
+  pdf: string | null;
+  solutions: { url: string; filename: string } | null;
+};
+
+const emptyDownloads: Downloads = { tex: null, pdf: null, solutions: null };
+
+// Everything a (re)generation request needs; defaults to the current page state
+type GenerationContext = {
+  files: File[];
+  tex: string;
+  questions: string[];
+  parentId: string | null;
+  withSolutions: boolean;
+  options: ExamOptions;
+};
+
+// "Solutions, line 12: \SI needs \usepackage{siunitx} (fixed)"
+const describeDiagnostic = (document: string, diagnostic: LintDiagnostic) =>
+  `${document}${diagnostic.line !== null ? `, line ${diagnostic.line}` : ''}: ${diagnostic.message}${diagnostic.fixed ? ' (fixed)' : ''}`;
+
+// Stores the job ID, or clears it once the job has settled
+function rememberJob(id: string | null) {
+  const url = new URL(window.location.href);
+  if (id) {
+    localStorage.setItem(JOB_STORAGE_KEY, id);
+    url.searchParams.set('job', id);
+  } else {
+    localStorage.removeItem(JOB_STORAGE_KEY);
+    url.searchParams.delete('job');
+  }
+  window.history.replaceState(null, '', url);
+}
+
+// Library sources as files again, so Regenerate can upload them
+async function loadSourceFiles(exam: ExamRecord) {
+  return Promise.all(exam.sources.map(async source => {
+    const sourceRes = await fetch(`/api/sources/${source.hash}`);
+    if (!sourceRes.ok) throw new Error(`Source "${source.name}" is missing from the library.`);
+    const blob = await sourceRes.blob();
+    return new window.File([blob], source.name, { type: blob.type || 'application/pdf' });
+  }));
+}
+
+// Base64 PDF payload -> object URL
+async function pdfObjectUrl(base64: string) {
+  const pdfBlob = await (await fetch(`data:application/pdf;base64,${base64}`)).blob();
+  return window.URL.createObjectURL(pdfBlob);
+}
+
 export default function Home() {
   const [files, setFiles] = useState<File[]>([]);
-  const [status, setStatus] = useState<'idle' | 'uploading' | 'processing' | 'success' | 'error'>('idle');
+  const [status, setStatus] = useState<'idle' | 'uploading' | 'processing' | 'success' | 'error' | 'library' | 'practice'>('idle');
   const [message, setMessage] = useState('');
-  const [downloads, setDownloads] = useState<{ tex: string | null; pdf: string | null }>({ tex: null, pdf: null });
+  // X-Request-Id of the last generation, shown with errors so users can report them
+  const [requestId, setRequestId] = useState<string | null>(null);
+  const [downloads, setDownloads] = useState<Downloads>(emptyDownloads);
   const [dragActive, setDragActive] = useState(false);
   const uploadInputRef = useRef<HTMLInputElement>(null);
   const addMoreInputRef = useRef<HTMLInputElement>(null);
 
   const [currentTex, setCurrentTex] = useState('');
+  // Full document for the editor; edits also replace currentTex, the next regeneration's context
+  const [fullTex, setFullTex] = useState('');
+  const [texEngine, setTexEngine] = useState<EngineChoice>('auto');
+  const [editing, setEditing] = useState(false);
   const [sourceQuestions, setSourceQuestions] = useState<string[]>([]);
+  const [includeSolutions, setIncludeSolutions] = useState(false);
+  const [compileLog, setCompileLog] = useState<string | null>(null);
+  const [currentExamId, setCurrentExamId] = useState<string | null>(null);
+  const [examDocument, setExamDocument] = useState<ExamDocument | null>(null);
+  const [examOptions, setExamOptions] = useState<ExamOptions>(DEFAULT_EXAM_OPTIONS);
+  const [showOptions, setShowOptions] = useState(false);
+  const [conversionWarnings, setConversionWarnings] = useState<string[]>([]);
+  // Balance problems and duplicates left over from a parallel-version run
+  const [versionIssues, setVersionIssues] = useState<string[]>([]);
+  const [novelty, setNovelty] = useState<NoveltyReport | null>(null);
+  // Findings of the pre-compile LaTeX checks, fixed ones included
+  const [latexChecks, setLatexChecks] = useState<string[]>([]);
+  const [profiles, setProfiles] = useState<ProfileSummary[]>([]);
+  const [defaultProfile, setDefaultProfile] = useState('math');
+  // Files refused when picked or dropped, one message each
+  const [uploadProblems, setUploadProblems] = useState<FileProblem[]>([]);
+
+  // Live progress of the running job, polled from the server
+  const [jobId, setJobId] = useState<string | null>(null);
+  // Job the polling loop follows; the loop stops once it no longer matches
+  const followingRef = useRef<string | null>(null);
+  const [steps, setSteps] = useState<Step[]>([]);
+  const [thought, setThought] = useState('');
+  const [partialOutput, setPartialOutput] = useState('');
+  const partialOutputRef = useRef<HTMLPreElement>(null);
+
+  // Subject profiles for the options form; without them the server default is used
+  useEffect(() => {
+    fetch('/api/profiles')
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (!data) return;
+        setProfiles(data.profiles);
+        setDefaultProfile(data.defaultProfile);
+      })
+      .catch(() => {});
+  }, []);
 
-  // Loading text cycler
-  const [loadingText, setLoadingText] = useState('Initializing AI...');
+  // Keep the streamed output scrolled to the newest line
   useEffect(() => {
-    if (status !== 'processing') return;
-    const texts = [
-      'Analyzing PDF structure...',
-      'Extracting questions...',
-      'Generating new problems...',
-      'Formatting LaTeX code...',
-      'Compiling PDF document...',
-      'Polishing final output...'
-    ];
-    let i = 0;
-    const interval = setInterval(() => {
-      setLoadingText(texts[i % texts.length]);
-      i++;
-    }, 2500);
-    return () => clearInterval(interval);
-  }, [status]);
+    partialOutputRef.current?.scrollTo({ top: partialOutputRef.current.scrollHeight });
+  }, [partialOutput]);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      handleFileSelect(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+      handleFileSelect(Array.from(e.target.files));
     }
     // Reset value to allow selecting the same file again
     e.target.value = '';
   };
 
-  const handleFileSelect = (selectedFile: File) => {
-    if (selectedFile.type === 'application/pdf') {
-      setFiles(prev => [...prev, selectedFile]);
-      setStatus('idle');
-      setMessage('');
-      setDownloads({ tex: null, pdf: null });
-      setCurrentTex('');
-      setSourceQuestions([]);
-    } else {
-      setMessage('Please upload a PDF file.');
-      setStatus('error');
-    }
+  // Same checks as the server (size, PDF structure, duplicates); rejected files are listed, the rest added
+  const handleFileSelect = async (selected: File[]) => {
+    const { accepted, problems } = await screenFiles(files, selected);
+    setUploadProblems(problems);
+    if (accepted.length === 0) return;
+    setFiles(prev => [...prev, ...accepted]);
+    setStatus('idle');
+    setMessage('');
+    setDownloads(emptyDownloads);
+    setCurrentTex('');
+    setFullTex('');
+    setEditing(false);
+    setSourceQuestions([]);
+    setCurrentExamId(null);
+    setExamDocument(null);
   };
 
   const removeFile = (index: number) => {
     setFiles(prev => prev.filter((_, i) => i !== index));
+    setUploadProblems([]);
   };
 
   const handleDrag = (e: React.DragEvent) => {
@@ -91,99 +199,367 @@ export default function Home() {
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFileSelect(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      handleFileSelect(Array.from(e.dataTransfer.files));
+    }
+  };
+
+  // Show a finished build: downloads, preview and the question list
+  const applyResult = async (data: ExamResult, ctx: Pick<GenerationContext, 'files' | 'withSolutions'>) => {
+    // TeX download
+    const texBlob = new Blob([data.tex], { type: 'text/plain' });
+    const texUrl = window.URL.createObjectURL(texBlob);
+
+    // OPTIMIZATON: Strip preamble and boilerplate to save tokens for next regeneration
+    setCurrentTex(documentBody(data.tex));
+    setFullTex(data.tex);
+    setTexEngine(data.engine);
+    setCurrentExamId(data.examId);
+
+    // Update source questions if returned (usually from first run)
+    if (data.questions && data.questions.length > 0) {
+      setSourceQuestions(data.questions);
+    }
+    setExamDocument(data.exam);
+    setExamOptions(data.options);
+
+    // PDF download
+    let pdfUrl = null;
+    if (data.pdfBase64) {
+      pdfUrl = await pdfObjectUrl(data.pdfBase64);
+    }
+
+    // Solutions download (PDF when it compiled, TeX otherwise)
+    let solutions: Downloads['solutions'] = null;
+    if (data.solutionsPdfBase64) {
+      solutions = { url: await pdfObjectUrl(data.solutionsPdfBase64), filename: 'generated_solutions.pdf' };
+    } else if (data.solutionsTex) {
+      const solutionsBlob = new Blob([data.solutionsTex], { type: 'text/plain' });
+      solutions = { url: window.URL.createObjectURL(solutionsBlob), filename: 'generated_solutions.tex' };
+    }
+
+    setDownloads({ tex: texUrl, pdf: pdfUrl, solutions });
+    setCompileLog(data.log || null);
+    setConversionWarnings([]);
+    setVersionIssues(data.batch?.issues ?? []);
+    setNovelty(data.novelty);
+    setLatexChecks([
+      ...data.diagnostics.map(diagnostic => describeDiagnostic('Exam', diagnostic)),
+      ...data.solutionsDiagnostics.map(diagnostic => describeDiagnostic('Solutions', diagnostic)),
+    ]);
+    setFiles(ctx.files);
+    setIncludeSolutions(ctx.withSolutions);
+
+    if (pdfUrl) {
+      setStatus('success');
+      setMessage('Exam generated successfully!');
+    } else {
+      setStatus('success'); // Treat as success for UI flow, but show warning
+      const errorMsg = data.error;
+      if (data.log) {
+        const rounds = data.repairRounds === 1 ? '1 repair attempt' : `${data.repairRounds} repair attempts`;
+        setMessage(`PDF compilation failed after ${rounds}, but TeX is ready.`);
+      } else if (errorMsg) {
+        setMessage(`Note: PDF generation failed (${errorMsg}), but TeX is ready.`);
+      } else {
+        setMessage('Exam generated successfully (TeX format)!');
+      }
+    }
+  };
+
+  // Polls a job until it settles. Without a context (resumed after a reload) the sources
+  // come back from the library, like opening the exam there.
+  const followJob = async (id: string, ctx?: Pick<GenerationContext, 'files' | 'withSolutions'>) => {
+    followingRef.current = id;
+    setJobId(id);
+    try {
+      while (followingRef.current === id) {
+        const res = await fetch(`/api/jobs/${id}`);
+        const data = await res.json().catch(() => null);
+        if (res.status === 404) {
+          throw new Error('This generation is no longer available. Exams that finished are in the library.');
+        }
+        if (!res.ok) throw new Error(data?.error ?? `Server returned ${res.status} ${res.statusText}`);
+
+        const job: JobView = data.job;
+        setRequestId(job.requestId);
+        setSteps(job.steps);
+        setThought(job.thought ?? '');
+        setPartialOutput(job.output);
+
+        if (job.status === 'succeeded') {
+          const resultRes = await fetch(`/api/jobs/${id}/result`);
+          const resultData = await resultRes.json().catch(() => null);
+          if (!resultRes.ok) throw new Error(resultData?.error ?? `Server returned ${resultRes.status} ${resultRes.statusText}`);
+          const result: ExamResult = resultData.result;
+
+          let resultCtx = ctx;
+          if (!resultCtx) {
+            const examRes = await fetch(`/api/exams/${result.examId}`);
+            const { exam } = await examRes.json() as { exam: ExamRecord };
+            resultCtx = { files: await loadSourceFiles(exam), withSolutions: exam.withSolutions };
+          }
+          await applyResult(result, resultCtx);
+          return;
+        }
+        if (job.status === 'failed') throw new Error(job.error ?? 'Generation failed.');
+        if (job.status === 'cancelled') {
+          setStatus('idle');
+          setMessage('');
+          return;
+        }
+        await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+      }
+    } finally {
+      if (followingRef.current === id) {
+        followingRef.current = null;
+        setJobId(null);
+        rememberJob(null);
+      }
     }
   };
 
-  const handleProcess = async (isRegenerate: boolean = false) => {
-    if (files.length === 0) return;
+  // The poll picks up the cancelled status; a job that finished meanwhile is shown as usual
+  const cancelJob = async () => {
+    if (jobId) await fetch(`/api/jobs/${jobId}`, { method: 'DELETE' }).catch(() => {});
+  };
+
+  const resumeJob = useEffectEvent(async (id: string) => {
+    setStatus('processing');
+    try {
+      await followJob(id);
+    } catch (error) {
+      console.error(error);
+      setStatus('error');
+      setMessage(error instanceof Error ? error.message : 'Could not resume the generation.');
+    }
+  });
+
+  // A job from before a reload, or from a link with ?job=, is picked up where it is
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get('job') ?? localStorage.getItem(JOB_STORAGE_KEY);
+    if (id) resumeJob(id);
+  }, []);
+
+  const handleProcess = async (isRegenerate: boolean = false, context?: GenerationContext) => {
+    const ctx = context ?? {
+      files,
+      tex: currentTex,
+      questions: sourceQuestions,
+      parentId: currentExamId,
+      withSolutions: includeSolutions,
+      options: examOptions,
+    };
+    if (ctx.files.length === 0) return;
 
     setStatus(isRegenerate ? 'processing' : 'uploading');
     if (!isRegenerate) {
-      setMessage('Uploading PDFs...');
+      setMessage('Uploading sources...');
     }
 
     const formData = new FormData();
-    files.forEach(f => formData.append('file', f));
+    ctx.files.forEach(f => formData.append('file', f));
+    if (ctx.withSolutions) {
+      formData.append('solutions', 'true');
+    }
+    // Weights only make sense for the topics this exam was built from
+    const topicWeights = Object.fromEntries(
+      Object.entries(ctx.options.topicWeights).filter(([topic]) => ctx.questions.includes(topic))
+    );
+    formData.append('options', JSON.stringify({ ...ctx.options, topicWeights }));
     if (isRegenerate) {
       formData.append('regenerate', 'true');
-      if (currentTex) {
-        formData.append('previousContext', currentTex);
+      if (ctx.tex) {
+        formData.append('previousContext', ctx.tex);
       }
-      if (sourceQuestions.length > 0) {
-        formData.append('questions', JSON.stringify(sourceQuestions));
+      if (ctx.questions.length > 0) {
+        formData.append('questions', JSON.stringify(ctx.questions));
+      }
+      if (ctx.parentId) {
+        formData.append('parentId', ctx.parentId);
       }
     }
 
     try {
+      setSteps([]);
+      setThought('');
+      setPartialOutput('');
+      setRequestId(null);
       setStatus('processing');
-      // setMessage is handled by the effect now
 
-      const response = await fetch('/api/process-pdf', {
-        method: 'POST',
-        body: formData,
-      });
+      const response = await fetch('/api/jobs', { method: 'POST', body: formData });
+      setRequestId(response.headers.get('X-Request-Id'));
 
       if (!response.ok) {
-        throw new Error(`Server returned ${response.status} ${response.statusText}`);
+        // Rejected uploads come back as { error, files: [{ name, code, error }] }
+        const rejection = await response.json().catch(() => null);
+        if (rejection?.files) throw new Error(describeProblems(rejection.files));
+        throw new Error(rejection?.error ?? `Server returned ${response.status} ${response.statusText}`);
       }
 
-      const data = await response.json();
+      const { job } = await response.json() as { job: JobView };
+      rememberJob(job.id);
+      await followJob(job.id, ctx);
+    } catch (error: any) {
+      console.error(error);
+      setStatus('error');
+      setMessage(error.message || 'Something went wrong.');
+    }
+  };
 
-      // TeX download
-      const texBlob = new Blob([data.tex], { type: 'text/plain' });
-      const texUrl = window.URL.createObjectURL(texBlob);
+  // HTML / Markdown export; the converter lists what it could not carry over
+  const exportDocument = async (format: 'html' | 'markdown') => {
+    if (!currentExamId) return;
+    try {
+      const res = await fetch(`/api/exams/${currentExamId}/export/${format}`, { headers: { Accept: 'application/json' } });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
 
-      // OPTIMIZATON: Strip preamble and boilerplate to save tokens for next regeneration
-      const fullTex = data.tex as string;
-      const bodyMatch = fullTex.match(/\\begin\{document\}([\s\S]*?)\\end\{document\}/i);
-      const cleanTex = bodyMatch ? bodyMatch[1].trim() : fullTex;
-      setCurrentTex(cleanTex);
+      const url = window.URL.createObjectURL(new Blob([data.content], { type: format === 'html' ? 'text/html' : 'text/markdown' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = data.filename;
+      link.click();
+      window.URL.revokeObjectURL(url);
+      setConversionWarnings(data.warnings);
+    } catch (error) {
+      setConversionWarnings([`Export failed: ${(error as Error).message}`]);
+    }
+  };
 
-      // Update source questions if returned (usually from first run)
-      if (data.questions && data.questions.length > 0) {
-        setSourceQuestions(data.questions);
-      } else if (!isRegenerate && data.questions) {
-        setSourceQuestions(data.questions);
-      }
+  const reset = () => {
+    setFiles([]);
+    setUploadProblems([]);
+    setStatus('idle');
+    setMessage('');
+    setRequestId(null);
+    setDownloads(emptyDownloads);
+    setFullTex('');
+    setEditing(false);
+    setCompileLog(null);
+    setConversionWarnings([]);
+    setVersionIssues([]);
+    setNovelty(null);
+    setLatexChecks([]);
+    setCurrentExamId(null);
+    setExamDocument(null);
+    setExamOptions(DEFAULT_EXAM_OPTIONS);
+    setShowOptions(false);
+  };
 
-      // PDF download
-      let pdfUrl = null;
-      if (data.pdfBase64) {
-        const pdfBlob = await (await fetch(`data:application/pdf;base64,${data.pdfBase64}`)).blob();
-        pdfUrl = window.URL.createObjectURL(pdfBlob);
-      }
+  // Restore a saved exam (and its sources, so Regenerate keeps working) from the library
+  const openExam = async (exam: ExamRecord, regenerate: boolean) => {
+    try {
+      const res = await fetch(`/api/exams/${exam.id}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
 
-      setDownloads({ tex: texUrl, pdf: pdfUrl });
+      const ctx: GenerationContext = {
+        files: await loadSourceFiles(exam),
+        tex: data.tex ? documentBody(data.tex) : '',
+        questions: exam.questions,
+        parentId: exam.id,
+        withSolutions: exam.withSolutions,
+        options: exam.options,
+      };
 
-      if (pdfUrl) {
-        setStatus('success');
-        setMessage('Exam generated successfully!');
-      } else {
-        setStatus('success'); // Treat as success for UI flow, but show warning
-        const errorMsg = data.error;
-        if (errorMsg) {
-          setMessage(`Note: PDF generation failed (${errorMsg}), but TeX is ready.`);
-        } else {
-          setMessage('Exam generated successfully (TeX format)!');
-        }
+      if (regenerate) {
+        await handleProcess(true, ctx);
+        return;
       }
 
-    } catch (error: any) {
+      const fileUrl = (file: string) => `/api/exams/${exam.id}/files/${file}`;
+      let solutions: Downloads['solutions'] = null;
+      if (exam.files.includes('solutions.pdf')) {
+        solutions = { url: fileUrl('solutions.pdf'), filename: 'generated_solutions.pdf' };
+      } else if (exam.files.includes('solutions.tex')) {
+        solutions = { url: fileUrl('solutions.tex'), filename: 'generated_solutions.tex' };
+      }
+
+      setFiles(ctx.files);
+      setCurrentTex(ctx.tex);
+      setFullTex(data.tex ?? '');
+      setTexEngine(exam.engine);
+      setEditing(false);
+      setSourceQuestions(ctx.questions);
+      setIncludeSolutions(ctx.withSolutions);
+      setCurrentExamId(exam.id);
+      setExamDocument(data.document);
+      setExamOptions(ctx.options);
+      setCompileLog(null);
+      setConversionWarnings([]);
+      setVersionIssues([]);
+      setNovelty(null);
+      setLatexChecks([]);
+      setDownloads({
+        tex: exam.files.includes('exam.tex') ? fileUrl('exam.tex') : null,
+        pdf: exam.files.includes('exam.pdf') ? fileUrl('exam.pdf') : null,
+        solutions,
+      });
+      setMessage(exam.files.includes('exam.pdf') ? 'Exam generated successfully!' : 'PDF compilation failed for this exam, but TeX is ready.');
+      setStatus('success');
+    } catch (error) {
       console.error(error);
+      setRequestId(null);
       setStatus('error');
-      setMessage(error.message || 'Something went wrong.');
+      setMessage(error instanceof Error ? error.message : 'Could not open exam.');
     }
   };
 
-  const reset = () => {
-    setFiles([]);
-    setStatus('idle');
-    setMessage('');
-    setDownloads({ tex: null, pdf: null });
+  const uploadProblemList = uploadProblems.length > 0 && (
+    <ul
+      onClick={e => e.stopPropagation()}
+      className="mt-3 w-full max-w-md mx-auto space-y-1 rounded-xl bg-red-50 dark:bg-red-950/30 p-3 text-left text-xs text-red-700 dark:text-red-300 ring-1 ring-red-200 dark:ring-red-900 cursor-default"
+    >
+      {uploadProblems.map((problem, idx) => (
+        <li key={idx} className="flex items-start gap-2">
+          <AlertCircle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+          {problem.error}
+        </li>
+      ))}
+    </ul>
+  );
+
+  // A successful compile replaces the preview and downloads; a failed one keeps the last PDF
+  const applyCompiled = async (result: CompileResult, tex: string) => {
+    const texUrl = window.URL.createObjectURL(new Blob([tex], { type: 'text/plain' }));
+    const pdfUrl = result.pdfBase64 ? await pdfObjectUrl(result.pdfBase64) : null;
+    setDownloads(prev => ({ ...prev, tex: texUrl, pdf: pdfUrl ?? prev.pdf }));
+    setCompileLog(result.log);
+    if (pdfUrl) setMessage('Exam recompiled from your edits.');
   };
 
+  const editorPane = editing && (
+    <section className="w-1/2 shrink-0 min-w-0 border-r border-zinc-200 dark:border-zinc-800">
+      <TexEditor
+        tex={fullTex}
+        engine={texEngine}
+        onChange={tex => {
+          setFullTex(tex);
+          setCurrentTex(documentBody(tex));
+        }}
+        onCompiled={applyCompiled}
+        onClose={() => setEditing(false)}
+      />
+    </section>
+  );
+
+  // Question list beside the preview, for per-question edits of the saved exam
+  const questionPanel = !editing && examDocument && currentExamId && (
+    <aside className="hidden md:block w-72 shrink-0 border-l border-zinc-200 dark:border-zinc-800">
+      <QuestionPanel
+        examId={currentExamId}
+        questions={examDocument.questions}
+        novelty={novelty}
+        onRebuilt={data => applyResult(data, { files, withSolutions: includeSolutions })}
+        onQuestionChange={question => setExamDocument(prev => prev && {
+          ...prev,
+          questions: prev.questions.map(q => (q.id === question.id ? question : q)),
+        })}
+      />
+    </aside>
+  );
+
   return (
     <div className="relative flex min-h-screen flex-col items-center justify-center px-4 font-sans text-zinc-900 dark:text-zinc-100 overflow-y-scroll">
       <AnimatedBackground />
@@ -192,7 +568,7 @@ export default function Home() {
         className="w-full relative z-10 flex flex-col"
         initial={false}
         animate={{
-          maxWidth: status === 'success' ? 768 : 576
+          maxWidth: status === 'success' ? (examDocument || editing ? 1152 : 768) : status === 'practice' ? 896 : 576
         }}
         transition={{ duration: 0.7, ease: [0.16, 1, 0.3, 1] }}
       >
@@ -203,7 +579,7 @@ export default function Home() {
           transition={{ duration: 0.8, ease: "easeOut" }}
         >
           <AnimatePresence initial={false}>
-            {status !== 'success' && (
+            {status !== 'success' && status !== 'practice' && (
               <motion.div
                 key="header"
                 initial={{ opacity: 0, y: -10, height: 0, marginBottom: 0 }}
@@ -231,7 +607,7 @@ export default function Home() {
           {/* Main Card (Form or Preview) */}
           <motion.div
             initial={false}
-            animate={{ height: status === 'success' ? '75vh' : 500 }}
+            animate={{ height: status === 'success' || status === 'practice' ? '75vh' : 500 }}
             transition={{ duration: 0.7, ease: [0.16, 1, 0.3, 1] }}
             className="w-full overflow-hidden rounded-3xl bg-white/80 dark:bg-zinc-900/80 backdrop-blur-xl shadow-2xl ring-1 ring-zinc-900/5 dark:ring-zinc-100/10"
           >
@@ -266,7 +642,8 @@ export default function Home() {
                       <input
                         ref={uploadInputRef}
                         type="file"
-                        accept=".pdf"
+                        accept={SOURCE_ACCEPT}
+                        multiple
                         className="hidden"
                         onChange={handleFileChange}
                       />
@@ -277,8 +654,9 @@ export default function Home() {
                         Click to upload or drag and drop
                       </h3>
                       <p className="mt-2 text-xs md:text-sm text-zinc-500 dark:text-zinc-400">
-                        PDF file (max 10MB)
+                        PDFs, PNG/JPEG scans, .tex or .docx files (max {formatBytes(UPLOAD_LIMITS.maxFileBytes)} each, {formatBytes(UPLOAD_LIMITS.maxTotalBytes)} in total, {UPLOAD_LIMITS.maxPages} pages per PDF)
                       </p>
+                      {uploadProblemList}
                     </div>
                   </motion.div>
                 )}
@@ -301,8 +679,15 @@ export default function Home() {
                       <p className="text-zinc-500">Review your selection below</p>
                     </div>
 
+                    {/* Exam Options (replace the file list while open) */}
+                    {showOptions && (
+                      <div className="flex-1 overflow-y-auto w-full max-w-md mx-auto px-2 mb-4">
+                        <ExamOptionsForm value={examOptions} onChange={setExamOptions} topics={sourceQuestions} profiles={profiles} defaultProfile={defaultProfile} />
+                      </div>
+                    )}
+
                     {/* Scrollable File List Container */}
-                    <div className="flex-1 flex flex-col items-center overflow-hidden w-full">
+                    <div className={cn("flex-1 flex flex-col items-center overflow-hidden w-full", showOptions && "hidden")}>
                       <div className="w-full max-w-md space-y-3 mb-6">
                         <div className="relative px-2">
                           <div
@@ -312,24 +697,28 @@ export default function Home() {
                               WebkitMaskImage: 'linear-gradient(to bottom, transparent, black 24px, black calc(100% - 24px), transparent)'
                             }}
                           >
-                            {files.map((f, idx) => (
-                              <div key={idx} className="relative flex items-center gap-3 rounded-xl bg-zinc-50 dark:bg-zinc-800/50 p-3 ring-1 ring-zinc-200 dark:ring-zinc-700 shadow-sm transition-all hover:ring-indigo-500/30">
-                                <div className="rounded-lg bg-red-100 p-2 dark:bg-red-900/20">
-                                  <FileText className="h-5 w-5 text-red-600 dark:text-red-400" />
+                            {files.map((f, idx) => {
+                              const kind = sourceKind(f.type);
+                              const { icon: Icon, className } = SOURCE_STYLES[kind];
+                              return (
+                                <div key={idx} className="relative flex items-center gap-3 rounded-xl bg-zinc-50 dark:bg-zinc-800/50 p-3 ring-1 ring-zinc-200 dark:ring-zinc-700 shadow-sm transition-all hover:ring-indigo-500/30">
+                                  <div className={cn("rounded-lg p-2", className)}>
+                                    <Icon className="h-5 w-5" />
+                                  </div>
+                                  <div className="flex-1 min-w-0 text-left">
+                                    <p className="font-medium text-sm text-zinc-900 dark:text-zinc-100 truncate">{f.name}</p>
+                                    <p className="text-xs text-zinc-500">{SOURCE_LABELS[kind]} · {(f.size / 1024 / 1024).toFixed(2)} MB</p>
+                                  </div>
+                                  <button
+                                    onClick={() => removeFile(idx)}
+                                    className="p-1.5 rounded-full hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors"
+                                    title="Remove file"
+                                  >
+                                    <X className="h-4 w-4 text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-200" />
+                                  </button>
                                 </div>
-                                <div className="flex-1 min-w-0 text-left">
-                                  <p className="font-medium text-sm text-zinc-900 dark:text-zinc-100 truncate">{f.name}</p>
-                                  <p className="text-xs text-zinc-500">{(f.size / 1024 / 1024).toFixed(2)} MB</p>
-                                </div>
-                                <button
-                                  onClick={() => removeFile(idx)}
-                                  className="p-1.5 rounded-full hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors"
-                                  title="Remove file"
-                                >
-                                  <X className="h-4 w-4 text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-200" />
-                                </button>
-                              </div>
-                            ))}
+                              );
+                            })}
                           </div>
                         </div>
 
@@ -338,16 +727,39 @@ export default function Home() {
                           className="w-full flex items-center justify-center gap-2 rounded-xl border-2 border-dashed border-zinc-300 dark:border-zinc-700 p-3 text-sm font-medium text-zinc-600 dark:text-zinc-400 hover:border-indigo-500 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors"
                         >
                           <Upload className="h-4 w-4" />
-                          Add Another File
+                          Add More Files
                         </button>
+                        {uploadProblemList}
                         <input
                           ref={addMoreInputRef}
                           type="file"
-                          accept=".pdf"
+                          accept={SOURCE_ACCEPT}
+                          multiple
                           className="hidden"
                           onChange={handleFileChange}
                         />
                       </div>
+                    </div>
+
+                    <div className="flex flex-col items-center w-full">
+                      {/* Answer Key Toggle */}
+                      <label className="flex items-center justify-between w-full max-w-md mb-2 px-2 text-sm font-medium text-zinc-700 dark:text-zinc-300 cursor-pointer select-none">
+                        Include worked solutions
+                        <input
+                          type="checkbox"
+                          checked={includeSolutions}
+                          onChange={(e) => setIncludeSolutions(e.target.checked)}
+                          className="h-4 w-4 accent-indigo-600"
+                        />
+                      </label>
+
+                      <button
+                        onClick={() => setShowOptions(prev => !prev)}
+                        className="flex items-center justify-between w-full max-w-md mb-4 px-2 text-sm font-medium text-zinc-700 dark:text-zinc-300"
+                      >
+                        {showOptions ? 'Back to files' : 'Exam options'}
+                        <SlidersHorizontal className={cn("h-4 w-4", showOptions ? "text-indigo-600" : "text-zinc-400")} />
+                      </button>
 
                       {/* Fixed Action Buttons */}
                       <div className="flex gap-3 md:gap-4 w-full max-w-md text-sm md:text-base">
@@ -376,22 +788,58 @@ export default function Home() {
                     animate={{ opacity: 1 }}
                     exit={{ opacity: 0 }}
                     transition={{ duration: 0.3, ease: "easeInOut" }}
-                    className="flex flex-col items-center justify-center space-y-8 w-full"
+                    className="flex flex-col h-full w-full space-y-4"
                   >
-                    <div className="relative">
-                      <div className="absolute inset-0 rounded-full blur-2xl bg-indigo-500/20 animate-pulse" />
-                      <div className="relative p-6 rounded-full bg-indigo-50 dark:bg-indigo-900/10 ring-1 ring-indigo-100 dark:ring-indigo-800">
-                        <Loader2 className="h-12 w-12 animate-spin text-indigo-600 dark:text-indigo-400" />
+                    <div className="flex items-center gap-3">
+                      <Loader2 className="h-6 w-6 shrink-0 animate-spin text-indigo-600 dark:text-indigo-400" />
+                      <div>
+                        <h3 className="text-lg font-medium text-zinc-900 dark:text-zinc-100">
+                          {status === 'uploading' ? 'Uploading sources...' : steps.findLast(s => s.status === 'running')?.label ?? 'Starting...'}
+                        </h3>
+                        <p className="text-zinc-500 text-xs">
+                          This might take a minute or two. You can close or reload this page and come back.
+                        </p>
                       </div>
+                      {jobId && (
+                        <button
+                          onClick={cancelJob}
+                          className="ml-auto flex shrink-0 items-center gap-1.5 rounded-lg px-3 py-1.5 text-xs font-medium text-zinc-600 ring-1 ring-zinc-200 transition-colors hover:bg-red-50 hover:text-red-600 dark:text-zinc-400 dark:ring-zinc-700 dark:hover:bg-red-900/20 dark:hover:text-red-400"
+                        >
+                          <Ban className="h-3.5 w-3.5" />
+                          Cancel
+                        </button>
+                      )}
                     </div>
-                    <div className="text-center space-y-2 max-w-sm mx-auto">
-                      <h3 className="text-xl font-medium text-zinc-900 dark:text-zinc-100">
-                        {status === 'uploading' ? 'Uploading PDF...' : loadingText}
-                      </h3>
-                      <p className="text-zinc-500 text-sm">
-                        This might take a minute or two. <br /> Please keep this window open.
-                      </p>
-                    </div>
+
+                    {/* Step List */}
+                    <ul className="space-y-1.5 text-sm">
+                      {steps.map(step => (
+                        <li key={step.id} className="flex items-center gap-2">
+                          {step.status === 'running' && <Loader2 className="h-4 w-4 shrink-0 animate-spin text-indigo-500" />}
+                          {step.status === 'done' && <CheckCircle className="h-4 w-4 shrink-0 text-emerald-500" />}
+                          {step.status === 'failed' && <AlertCircle className="h-4 w-4 shrink-0 text-red-500" />}
+                          <span className="font-medium text-zinc-800 dark:text-zinc-200">{step.label}</span>
+                          {step.detail && <span className="truncate text-zinc-500">{step.detail}</span>}
+                          {step.durationMs !== undefined && (
+                            <span className="ml-auto shrink-0 tabular-nums text-xs text-zinc-400">{(step.durationMs / 1000).toFixed(1)}s</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+
+                    {thought && (
+                      <p className="text-xs italic text-zinc-500 line-clamp-2">{thought}</p>
+                    )}
+
+                    {/* Streamed model output */}
+                    {partialOutput && (
+                      <pre
+                        ref={partialOutputRef}
+                        className="flex-1 min-h-0 overflow-auto rounded-xl bg-zinc-950 p-4 text-xs leading-relaxed text-zinc-100 font-mono whitespace-pre-wrap"
+                      >
+                        {partialOutput}
+                      </pre>
+                    )}
                   </motion.div>
                 )}
 
@@ -403,13 +851,69 @@ export default function Home() {
                     animate={{ opacity: 1 }}
                     exit={{ opacity: 0, transition: { duration: 0.3 } }}
                     transition={{ duration: 0.5, delay: 0.2, ease: "easeOut" }}
-                    className="w-full h-full"
+                    className="w-full h-full flex"
                   >
+                    {editorPane}
                     <iframe
                       src={`${downloads.pdf}#toolbar=0&view=FitH`}
-                      className="w-full h-[75vh] bg-white border-0"
+                      className="flex-1 min-w-0 h-[75vh] bg-white border-0"
                       title="Exam Preview"
                     />
+                    {questionPanel}
+                  </motion.div>
+                )}
+
+                {/* SUCCESS STATE - TEX ONLY (COMPILE FAILED) */}
+                {status === 'success' && !downloads.pdf && (
+                  <motion.div
+                    key="success-tex-only"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0, transition: { duration: 0.3 } }}
+                    transition={{ duration: 0.5, delay: 0.2, ease: "easeOut" }}
+                    className="w-full h-full flex"
+                  >
+                    {editorPane}
+                    <div className="flex-1 min-w-0 flex flex-col p-4 md:p-8 space-y-4">
+                      <div className="flex items-start gap-3">
+                        <AlertCircle className="h-5 w-5 mt-0.5 shrink-0 text-amber-500" />
+                        <p className="text-sm md:text-base font-medium text-zinc-700 dark:text-zinc-300">{message}</p>
+                      </div>
+                      {compileLog && (
+                        <pre className="flex-1 overflow-auto rounded-xl bg-zinc-950 p-4 text-xs leading-relaxed text-zinc-100 font-mono whitespace-pre">
+                          {compileLog}
+                        </pre>
+                      )}
+                    </div>
+                    {questionPanel}
+                  </motion.div>
+                )}
+
+                {/* LIBRARY STATE */}
+                {status === 'library' && (
+                  <motion.div
+                    key="library"
+                    initial={{ opacity: 0, scale: 0.95 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    exit={{ opacity: 0, scale: 0.95 }}
+                    transition={{ type: "spring", stiffness: 260, damping: 20 }}
+                    className="w-full h-full"
+                  >
+                    <ExamLibrary onOpen={openExam} onClose={() => setStatus('idle')} />
+                  </motion.div>
+                )}
+
+                {/* PRACTICE STATE */}
+                {status === 'practice' && examDocument && currentExamId && (
+                  <motion.div
+                    key="practice"
+                    initial={{ opacity: 0, scale: 0.95 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    exit={{ opacity: 0, scale: 0.95 }}
+                    transition={{ type: "spring", stiffness: 260, damping: 20 }}
+                    className="w-full h-full"
+                  >
+                    <PracticeMode examId={currentExamId} doc={examDocument} onClose={() => setStatus('success')} />
                   </motion.div>
                 )}
 
@@ -428,7 +932,12 @@ export default function Home() {
                     </div>
                     <div>
                       <h3 className="text-xl font-bold text-zinc-900 dark:text-zinc-100 mb-2">Something went wrong</h3>
-                      <p className="text-zinc-600 dark:text-zinc-400">{message}</p>
+                      <p className="text-zinc-600 dark:text-zinc-400 whitespace-pre-line">{message}</p>
+                      {requestId && (
+                        <p className="mt-3 text-xs text-zinc-500 dark:text-zinc-500">
+                          Request ID <code className="select-all rounded bg-zinc-100 px-1.5 py-0.5 font-mono dark:bg-zinc-800">{requestId}</code> — include it when reporting this problem.
+                        </p>
+                      )}
                     </div>
                     <button
                       onClick={reset}
@@ -443,6 +952,19 @@ export default function Home() {
             </div>
           </motion.div>
 
+          {/* Library Link */}
+          {status === 'idle' && (
+            <div className="flex justify-center mt-6">
+              <button
+                onClick={() => setStatus('library')}
+                className="flex items-center gap-2 rounded-xl px-4 py-2 text-sm font-semibold text-zinc-600 transition-colors hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800/50"
+              >
+                <Library className="h-4 w-4" />
+                Exam Library
+              </button>
+            </div>
+          )}
+
           {/* Action Buttons (Below Container) */}
           <AnimatePresence>
             {status === 'success' && (
@@ -487,6 +1009,80 @@ export default function Home() {
                       Download TeX
                     </a>
                   )}
+                  {downloads.solutions && (
+                    <a
+                      href={downloads.solutions.url}
+                      download={downloads.solutions.filename}
+                      className="group flex items-center gap-2 rounded-xl border border-zinc-200 bg-white/50 backdrop-blur-sm px-4 py-2 md:px-6 md:py-3 text-sm md:text-base font-semibold text-zinc-900 shadow-sm transition-all hover:bg-white hover:border-zinc-300 active:scale-95 dark:border-zinc-700 dark:bg-black/50 dark:text-zinc-100 dark:hover:bg-zinc-900"
+                    >
+                      <CheckCircle className="h-4 w-4 md:h-5 md:w-5" />
+                      Download Solutions
+                    </a>
+                  )}
+                  {currentExamId && examDocument?.version && (
+                    <a
+                      href={`/api/exams/${currentExamId}/export/versions`}
+                      title={`Showing version ${examDocument.version}; the ZIP holds every version's PDF, TeX and answer key`}
+                      className="group flex items-center gap-2 rounded-xl border border-zinc-200 bg-white/50 backdrop-blur-sm px-4 py-2 md:px-6 md:py-3 text-sm md:text-base font-semibold text-zinc-900 shadow-sm transition-all hover:bg-white hover:border-zinc-300 active:scale-95 dark:border-zinc-700 dark:bg-black/50 dark:text-zinc-100 dark:hover:bg-zinc-900"
+                    >
+                      <Layers className="h-4 w-4 md:h-5 md:w-5" />
+                      Download all versions
+                    </a>
+                  )}
+                  {currentExamId && examDocument && (
+                    <>
+                      <a
+                        href={`/api/exams/${currentExamId}/export/moodle`}
+                        className="group flex items-center gap-2 rounded-xl border border-zinc-200 bg-white/50 backdrop-blur-sm px-4 py-2 md:px-6 md:py-3 text-sm md:text-base font-semibold text-zinc-900 shadow-sm transition-all hover:bg-white hover:border-zinc-300 active:scale-95 dark:border-zinc-700 dark:bg-black/50 dark:text-zinc-100 dark:hover:bg-zinc-900"
+                      >
+                        <GraduationCap className="h-4 w-4 md:h-5 md:w-5" />
+                        Export to Moodle
+                      </a>
+                      <a
+                        href={`/api/exams/${currentExamId}/export/qti`}
+                        className="group flex items-center gap-2 rounded-xl border border-zinc-200 bg-white/50 backdrop-blur-sm px-4 py-2 md:px-6 md:py-3 text-sm md:text-base font-semibold text-zinc-900 shadow-sm transition-all hover:bg-white hover:border-zinc-300 active:scale-95 dark:border-zinc-700 dark:bg-black/50 dark:text-zinc-100 dark:hover:bg-zinc-900"
+                      >
+                        <Package className="h-4 w-4 md:h-5 md:w-5" />
+                        Export to QTI
+                      </a>
+                      <button
+                        onClick={() => exportDocument('html')}
+                        className="group flex items-center gap-2 rounded-xl border border-zinc-200 bg-white/50 backdrop-blur-sm px-4 py-2 md:px-6 md:py-3 text-sm md:text-base font-semibold text-zinc-900 shadow-sm transition-all hover:bg-white hover:border-zinc-300 active:scale-95 dark:border-zinc-700 dark:bg-black/50 dark:text-zinc-100 dark:hover:bg-zinc-900"
+                      >
+                        <FileCode className="h-4 w-4 md:h-5 md:w-5" />
+                        Export HTML
+                      </button>
+                      <button
+                        onClick={() => exportDocument('markdown')}
+                        className="group flex items-center gap-2 rounded-xl border border-zinc-200 bg-white/50 backdrop-blur-sm px-4 py-2 md:px-6 md:py-3 text-sm md:text-base font-semibold text-zinc-900 shadow-sm transition-all hover:bg-white hover:border-zinc-300 active:scale-95 dark:border-zinc-700 dark:bg-black/50 dark:text-zinc-100 dark:hover:bg-zinc-900"
+                      >
+                        <FileText className="h-4 w-4 md:h-5 md:w-5" />
+                        Export Markdown
+                      </button>
+                      <button
+                        onClick={() => setStatus('practice')}
+                        className="group flex items-center gap-2 rounded-xl border border-zinc-200 bg-white/50 backdrop-blur-sm px-4 py-2 md:px-6 md:py-3 text-sm md:text-base font-semibold text-zinc-900 shadow-sm transition-all hover:bg-white hover:border-zinc-300 active:scale-95 dark:border-zinc-700 dark:bg-black/50 dark:text-zinc-100 dark:hover:bg-zinc-900"
+                      >
+                        <Timer className="h-4 w-4 md:h-5 md:w-5" />
+                        Take this exam
+                      </button>
+                    </>
+                  )}
+                  {fullTex && (
+                    <button
+                      onClick={() => setEditing(prev => !prev)}
+                      title="Edit the LaTeX and recompile; edits also steer the next Regenerate"
+                      className={cn(
+                        "group flex items-center gap-2 rounded-xl border px-4 py-2 md:px-6 md:py-3 text-sm md:text-base font-semibold shadow-sm transition-all active:scale-95",
+                        editing
+                          ? "border-indigo-300 bg-indigo-50 text-indigo-700 dark:border-indigo-700 dark:bg-indigo-950/50 dark:text-indigo-300"
+                          : "border-zinc-200 bg-white/50 backdrop-blur-sm text-zinc-900 hover:bg-white hover:border-zinc-300 dark:border-zinc-700 dark:bg-black/50 dark:text-zinc-100 dark:hover:bg-zinc-900"
+                      )}
+                    >
+                      <FilePenLine className="h-4 w-4 md:h-5 md:w-5" />
+                      Edit LaTeX
+                    </button>
+                  )}
                   <button
                     onClick={reset}
                     className="flex items-center gap-2 rounded-xl px-4 py-2 md:px-6 md:py-3 text-sm md:text-base font-semibold text-zinc-900 transition-colors hover:bg-zinc-100 dark:text-zinc-100 dark:hover:bg-zinc-800/50"
@@ -494,6 +1090,13 @@ export default function Home() {
                     <RefreshCw className="h-4 w-4 md:h-5 md:w-5" />
                     Reset
                   </button>
+                  <button
+                    onClick={() => setStatus('library')}
+                    className="flex items-center gap-2 rounded-xl px-4 py-2 md:px-6 md:py-3 text-sm md:text-base font-semibold text-zinc-900 transition-colors hover:bg-zinc-100 dark:text-zinc-100 dark:hover:bg-zinc-800/50"
+                  >
+                    <Library className="h-4 w-4 md:h-5 md:w-5" />
+                    Library
+                  </button>
                   <button
                     onClick={() => handleProcess(true)}
                     className="flex items-center gap-2 rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 px-4 py-2 md:px-6 md:py-3 text-sm md:text-base font-semibold text-white shadow-lg transition-all hover:scale-[1.02] hover:shadow-xl active:scale-[0.98]"
@@ -501,7 +1104,75 @@ export default function Home() {
                     <RefreshCw className="h-4 w-4 md:h-5 md:w-5" />
                     Regenerate
                   </button>
+                  <button
+                    onClick={() => setShowOptions(prev => !prev)}
+                    title="Options for the next Regenerate"
+                    className={cn(
+                      "flex items-center gap-2 rounded-xl px-4 py-2 md:px-6 md:py-3 text-sm md:text-base font-semibold transition-colors hover:bg-zinc-100 dark:hover:bg-zinc-800/50",
+                      showOptions ? "text-indigo-600 dark:text-indigo-400" : "text-zinc-900 dark:text-zinc-100"
+                    )}
+                  >
+                    <SlidersHorizontal className="h-4 w-4 md:h-5 md:w-5" />
+                    Options
+                  </button>
                 </div>
+
+                {conversionWarnings.length > 0 && (
+                  <div className="w-full max-w-md rounded-2xl bg-amber-50 dark:bg-amber-950/40 p-4 text-left ring-1 ring-amber-200 dark:ring-amber-900">
+                    <div className="flex items-center justify-between gap-2 text-sm font-semibold text-amber-800 dark:text-amber-300">
+                      <span className="flex items-center gap-2">
+                        <AlertCircle className="h-4 w-4" />
+                        Conversion warnings
+                      </span>
+                      <button onClick={() => setConversionWarnings([])} title="Dismiss" className="rounded-md p-1 hover:bg-amber-100 dark:hover:bg-amber-900/50">
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                    <ul className="mt-2 list-disc space-y-1 pl-5 text-xs text-amber-800 dark:text-amber-300">
+                      {conversionWarnings.map(warning => <li key={warning}>{warning}</li>)}
+                    </ul>
+                  </div>
+                )}
+
+                {versionIssues.length > 0 && (
+                  <div className="w-full max-w-md rounded-2xl bg-amber-50 dark:bg-amber-950/40 p-4 text-left ring-1 ring-amber-200 dark:ring-amber-900">
+                    <div className="flex items-center justify-between gap-2 text-sm font-semibold text-amber-800 dark:text-amber-300">
+                      <span className="flex items-center gap-2">
+                        <AlertCircle className="h-4 w-4" />
+                        Check these versions before printing
+                      </span>
+                      <button onClick={() => setVersionIssues([])} title="Dismiss" className="rounded-md p-1 hover:bg-amber-100 dark:hover:bg-amber-900/50">
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                    <ul className="mt-2 list-disc space-y-1 pl-5 text-xs text-amber-800 dark:text-amber-300">
+                      {versionIssues.map(issue => <li key={issue}>{issue}</li>)}
+                    </ul>
+                  </div>
+                )}
+
+                {latexChecks.length > 0 && (
+                  <div className="w-full max-w-md rounded-2xl bg-amber-50 dark:bg-amber-950/40 p-4 text-left ring-1 ring-amber-200 dark:ring-amber-900">
+                    <div className="flex items-center justify-between gap-2 text-sm font-semibold text-amber-800 dark:text-amber-300">
+                      <span className="flex items-center gap-2">
+                        <AlertCircle className="h-4 w-4" />
+                        LaTeX checks
+                      </span>
+                      <button onClick={() => setLatexChecks([])} title="Dismiss" className="rounded-md p-1 hover:bg-amber-100 dark:hover:bg-amber-900/50">
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                    <ul className="mt-2 list-disc space-y-1 pl-5 text-xs text-amber-800 dark:text-amber-300">
+                      {latexChecks.map((check, i) => <li key={i}>{check}</li>)}
+                    </ul>
+                  </div>
+                )}
+
+                {showOptions && (
+                  <div className="w-full max-w-md rounded-2xl bg-white/70 dark:bg-zinc-900/70 backdrop-blur-sm p-4 ring-1 ring-zinc-200 dark:ring-zinc-800">
+                    <ExamOptionsForm value={examOptions} onChange={setExamOptions} topics={sourceQuestions} profiles={profiles} defaultProfile={defaultProfile} />
+                  </div>
+                )}
               </motion.div>
             )}
           </AnimatePresence>
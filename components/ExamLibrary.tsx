@@ -0,0 +1,161 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ArrowLeft, Download, Eye, Loader2, Pencil, RefreshCw, Trash2 } from 'lucide-react';
+import type { ExamRecord } from '@/lib/library';
+
+type ExamLibraryProps = {
+  onOpen: (exam: ExamRecord, regenerate: boolean) => void;
+  onClose: () => void;
+};
+
+export default function ExamLibrary({ onOpen, onClose }: ExamLibraryProps) {
+  const [exams, setExams] = useState<ExamRecord[] | null>(null);
+  const [error, setError] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+
+  useEffect(() => {
+    fetch('/api/exams')
+      .then(res => res.json())
+      .then(data => {
+        if (data.error) throw new Error(data.error);
+        setExams(data.exams);
+      })
+      .catch((err: Error) => setError(err.message));
+  }, []);
+
+  const byId = new Map((exams ?? []).map(exam => [exam.id, exam]));
+
+  // Lineage label: parent name plus its date, since regenerations share the name
+  const describeParent = (parentId: string) => {
+    const parent = byId.get(parentId);
+    return parent ? `"${parent.name}" (${new Date(parent.createdAt).toLocaleString()})` : 'a deleted exam';
+  };
+
+  const rename = async () => {
+    if (!renaming) return;
+    const res = await fetch(`/api/exams/${renaming.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: renaming.name }),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      setError(data.error);
+      return;
+    }
+    setExams(prev => prev?.map(exam => (exam.id === data.exam.id ? data.exam : exam)) ?? null);
+    setRenaming(null);
+  };
+
+  const remove = async (exam: ExamRecord) => {
+    if (!window.confirm(`Delete "${exam.name}"? This cannot be undone.`)) return;
+    const res = await fetch(`/api/exams/${exam.id}`, { method: 'DELETE' });
+    if (!res.ok) {
+      setError((await res.json()).error);
+      return;
+    }
+    setExams(prev => prev?.filter(e => e.id !== exam.id) ?? null);
+  };
+
+  return (
+    <div className="flex flex-col h-full w-full">
+      <div className="flex items-center gap-3 mb-4">
+        <button
+          onClick={onClose}
+          className="p-1.5 rounded-full hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors"
+          title="Back"
+        >
+          <ArrowLeft className="h-5 w-5 text-zinc-500" />
+        </button>
+        <h3 className="text-xl font-semibold text-zinc-800 dark:text-zinc-200">Exam Library</h3>
+      </div>
+
+      {error && <p className="mb-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {exams === null && !error && (
+        <div className="flex flex-1 items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-indigo-500" />
+        </div>
+      )}
+
+      {exams?.length === 0 && (
+        <p className="flex flex-1 items-center justify-center text-sm text-zinc-500">
+          No saved exams yet. Generated exams appear here automatically.
+        </p>
+      )}
+
+      {exams && exams.length > 0 && (
+        <ul className="flex-1 overflow-y-auto space-y-3 pr-1">
+          {exams.map(exam => (
+            <li
+              key={exam.id}
+              className="flex items-center gap-3 rounded-xl bg-zinc-50 dark:bg-zinc-800/50 p-3 ring-1 ring-zinc-200 dark:ring-zinc-700"
+            >
+              <div className="flex-1 min-w-0 text-left">
+                {renaming?.id === exam.id ? (
+                  <input
+                    autoFocus
+                    value={renaming.name}
+                    onChange={e => setRenaming({ id: exam.id, name: e.target.value })}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') rename();
+                      if (e.key === 'Escape') setRenaming(null);
+                    }}
+                    onBlur={rename}
+                    className="w-full rounded-md bg-white dark:bg-zinc-900 px-2 py-0.5 text-sm font-medium ring-1 ring-indigo-500 outline-none"
+                  />
+                ) : (
+                  <p className="flex items-center gap-2 font-medium text-sm text-zinc-900 dark:text-zinc-100">
+                    <span className="truncate">{exam.name}</span>
+                    {exam.batch && (
+                      <span className="shrink-0 rounded bg-indigo-100 px-1.5 text-xs font-semibold text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300">
+                        Version {exam.batch.version}
+                      </span>
+                    )}
+                  </p>
+                )}
+                <p className="text-xs text-zinc-500 truncate">
+                  {new Date(exam.createdAt).toLocaleString()} · {exam.sources.length} source(s) · {exam.settings.model}
+                  {exam.profile && ` · ${exam.profile.name} v${exam.profile.version}`}
+                </p>
+                {exam.parentId && (
+                  <p className="text-xs text-indigo-600 dark:text-indigo-400 truncate">
+                    Regenerated from {describeParent(exam.parentId)}
+                  </p>
+                )}
+              </div>
+              <div className="flex shrink-0 items-center gap-1">
+                <IconButton title="Open" onClick={() => onOpen(exam, false)}><Eye className="h-4 w-4" /></IconButton>
+                {exam.files.includes('exam.pdf') && (
+                  <a
+                    href={`/api/exams/${exam.id}/files/exam.pdf?download=1`}
+                    className="p-1.5 rounded-full text-zinc-500 hover:bg-zinc-200 hover:text-zinc-800 dark:hover:bg-zinc-700 dark:hover:text-zinc-200 transition-colors"
+                    title="Download PDF"
+                  >
+                    <Download className="h-4 w-4" />
+                  </a>
+                )}
+                <IconButton title="Regenerate" onClick={() => onOpen(exam, true)}><RefreshCw className="h-4 w-4" /></IconButton>
+                <IconButton title="Rename" onClick={() => setRenaming({ id: exam.id, name: exam.name })}><Pencil className="h-4 w-4" /></IconButton>
+                <IconButton title="Delete" onClick={() => remove(exam)}><Trash2 className="h-4 w-4" /></IconButton>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function IconButton({ title, onClick, children }: { title: string; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      className="p-1.5 rounded-full text-zinc-500 hover:bg-zinc-200 hover:text-zinc-800 dark:hover:bg-zinc-700 dark:hover:text-zinc-200 transition-colors"
+    >
+      {children}
+    </button>
+  );
+}
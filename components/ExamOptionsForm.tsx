@@ -0,0 +1,139 @@
+'use client';
+
+import { DIFFICULTIES, OPTION_LIMITS, versionLabel, type ExamOptions } from '@/lib/options';
+import type { ProfileSummary } from '@/lib/profiles';
+import { cn } from '@/lib/utils';
+
+type ExamOptionsFormProps = {
+  value: ExamOptions;
+  onChange: (value: ExamOptions) => void;
+  // Detected source question types; weights are only offered once they are known
+  topics: string[];
+  // Prompt profiles from /api/profiles; the picker is hidden until they are loaded
+  profiles: ProfileSummary[];
+  defaultProfile: string;
+};
+
+const DIFFICULTY_LABELS: Record<ExamOptions['difficulty'], string> = {
+  easier: 'Easier',
+  same: 'Same',
+  harder: 'Harder',
+};
+
+const VERSION_COUNTS = Array.from(
+  { length: OPTION_LIMITS.versions.max - OPTION_LIMITS.versions.min + 1 },
+  (_, i) => OPTION_LIMITS.versions.min + i
+);
+
+const fieldClass = "w-full rounded-lg bg-white dark:bg-zinc-900 px-2 py-1.5 text-sm ring-1 ring-zinc-200 dark:ring-zinc-700 outline-none focus:ring-indigo-500";
+
+export default function ExamOptionsForm({ value, onChange, topics, profiles, defaultProfile }: ExamOptionsFormProps) {
+  const set = <K extends keyof ExamOptions>(key: K, next: ExamOptions[K]) => onChange({ ...value, [key]: next });
+
+  // Empty input means "let the model decide"
+  const numberField = (key: 'questionCount' | 'totalMarks' | 'mcqPercent' | 'timeLimitMinutes', label: string, placeholder: string) => (
+    <label className="space-y-1">
+      <span className="text-xs font-medium text-zinc-500">{label}</span>
+      <input
+        type="number"
+        min={OPTION_LIMITS[key].min}
+        max={OPTION_LIMITS[key].max}
+        value={value[key] ?? ''}
+        placeholder={placeholder}
+        onChange={e => set(key, e.target.value === '' ? null : Math.round(Number(e.target.value)))}
+        className={fieldClass}
+      />
+    </label>
+  );
+
+  const profileId = value.profile ?? defaultProfile;
+  const profile = profiles.find(p => p.id === profileId);
+
+  return (
+    <div className="w-full space-y-4 text-left">
+      {profiles.length > 0 && (
+        <label className="block space-y-1">
+          <span className="text-xs font-medium text-zinc-500">Subject profile</span>
+          <select value={profileId} onChange={e => set('profile', e.target.value)} className={fieldClass}>
+            {profiles.map(p => (
+              <option key={p.id} value={p.id}>{p.name} (v{p.version})</option>
+            ))}
+          </select>
+          {profile?.description && <span className="block text-xs text-zinc-500">{profile.description}</span>}
+        </label>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        {numberField('questionCount', 'Questions', 'Auto (15-20)')}
+        {numberField('totalMarks', 'Total marks', 'Auto')}
+        {numberField('mcqPercent', 'MCQ share (%)', 'Auto')}
+        {numberField('timeLimitMinutes', 'Time limit (min)', 'None')}
+      </div>
+
+      <div className="space-y-1">
+        <span className="text-xs font-medium text-zinc-500">Difficulty vs. source</span>
+        <div className="grid grid-cols-3 gap-1 rounded-lg bg-zinc-100 dark:bg-zinc-800 p-1">
+          {DIFFICULTIES.map(difficulty => (
+            <button
+              key={difficulty}
+              type="button"
+              onClick={() => set('difficulty', difficulty)}
+              className={cn(
+                "rounded-md py-1 text-sm font-medium transition-colors",
+                value.difficulty === difficulty
+                  ? "bg-white text-indigo-600 shadow-sm dark:bg-zinc-900 dark:text-indigo-400"
+                  : "text-zinc-500 hover:text-zinc-800 dark:hover:text-zinc-200"
+              )}
+            >
+              {DIFFICULTY_LABELS[difficulty]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <span className="text-xs font-medium text-zinc-500">
+          Parallel versions{value.versions > 1 && ` (A–${versionLabel(value.versions - 1)}, same types and marks, shuffled)`}
+        </span>
+        <div className="grid grid-cols-5 gap-1 rounded-lg bg-zinc-100 dark:bg-zinc-800 p-1">
+          {VERSION_COUNTS.map(count => (
+            <button
+              key={count}
+              type="button"
+              onClick={() => set('versions', count)}
+              className={cn(
+                "rounded-md py-1 text-sm font-medium tabular-nums transition-colors",
+                value.versions === count
+                  ? "bg-white text-indigo-600 shadow-sm dark:bg-zinc-900 dark:text-indigo-400"
+                  : "text-zinc-500 hover:text-zinc-800 dark:hover:text-zinc-200"
+              )}
+            >
+              {count}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {topics.length > 0 && (
+        <div className="space-y-2">
+          <span className="text-xs font-medium text-zinc-500">Topic weights (0 leaves a topic out)</span>
+          {topics.map(topic => (
+            <div key={topic} className="flex items-center gap-3">
+              <span className="flex-1 min-w-0 truncate text-sm text-zinc-700 dark:text-zinc-300" title={topic}>{topic}</span>
+              <input
+                type="range"
+                min={OPTION_LIMITS.topicWeight.min}
+                max={OPTION_LIMITS.topicWeight.max}
+                step={1}
+                value={value.topicWeights[topic] ?? 1}
+                onChange={e => set('topicWeights', { ...value.topicWeights, [topic]: Number(e.target.value) })}
+                className="w-28 accent-indigo-600"
+              />
+              <span className="w-4 text-right text-sm tabular-nums text-zinc-500">{value.topicWeights[topic] ?? 1}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,441 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, ChevronLeft, ChevronRight, CheckCircle, Clock, Loader2, Play, RotateCcw, Save, XCircle } from 'lucide-react';
+import 'katex/dist/katex.min.css';
+import type { ExamDocument } from '@/lib/exam';
+import { renderFragmentHtml } from '@/lib/convert';
+import { practiceItems, scoreAttempt, type Attempt, type PracticeItem, type PracticeMode as Mode } from '@/lib/practice';
+import { cn } from '@/lib/utils';
+
+type PracticeModeProps = {
+  examId: string;
+  doc: ExamDocument;
+  onClose: () => void;
+};
+
+type HistoryEntry = Attempt & { examName: string; examCreatedAt: string };
+
+type Stage = 'ready' | 'running' | 'review';
+
+const formatClock = (seconds: number) => {
+  const s = Math.max(0, Math.round(seconds));
+  const h = Math.floor(s / 3600);
+  const mm = String(Math.floor((s % 3600) / 60)).padStart(h ? 2 : 1, '0');
+  const ss = String(s % 60).padStart(2, '0');
+  return h ? `${h}:${mm}:${ss}` : `${mm}:${ss}`;
+};
+
+// Rendered with KaTeX; the fragments come from our own generated exam
+const Tex = ({ tex, className }: { tex: string; className?: string }) => (
+  <div className={cn('practice-tex', className)} dangerouslySetInnerHTML={{ __html: renderFragmentHtml(tex) }} />
+);
+
+export default function PracticeMode({ examId, doc, onClose }: PracticeModeProps) {
+  const items = useMemo(() => practiceItems(doc), [doc]);
+  const itemsByQuestion = useMemo(() => {
+    const map = new Map<string, PracticeItem[]>();
+    for (const item of items) map.set(item.questionId, [...(map.get(item.questionId) ?? []), item]);
+    return map;
+  }, [items]);
+
+  const [stage, setStage] = useState<Stage>('ready');
+  const [mode, setMode] = useState<Mode>('single');
+  const [current, setCurrent] = useState(0);
+  const [responses, setResponses] = useState<Record<string, string>>({});
+  const [selfMarks, setSelfMarks] = useState<Record<string, number>>({});
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [finishedAt, setFinishedAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [history, setHistory] = useState<HistoryEntry[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState('');
+
+  const limitSeconds = doc.timeLimitMinutes ? doc.timeLimitMinutes * 60 : null;
+  const elapsed = startedAt ? ((finishedAt ?? now) - startedAt) / 1000 : 0;
+  const remaining = limitSeconds !== null ? limitSeconds - elapsed : null;
+
+  const loadHistory = () => {
+    fetch(`/api/exams/${examId}/attempts`)
+      .then(res => res.json())
+      .then(data => {
+        if (data.error) throw new Error(data.error);
+        setHistory(data.attempts);
+      })
+      .catch((err: Error) => setError(err.message));
+  };
+
+  useEffect(loadHistory, [examId]);
+
+  useEffect(() => {
+    if (stage !== 'running') return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [stage]);
+
+  const start = () => {
+    setResponses({});
+    setSelfMarks({});
+    setCurrent(0);
+    setSaved(false);
+    setError('');
+    setStartedAt(Date.now());
+    setFinishedAt(null);
+    setNow(Date.now());
+    setStage('running');
+  };
+
+  const submit = () => {
+    setFinishedAt(Date.now());
+    setStage('review');
+  };
+
+  // Time is up: hand in whatever has been answered
+  useEffect(() => {
+    if (stage === 'running' && remaining !== null && remaining <= 0) submit();
+  }, [stage, remaining]);
+
+  const score = useMemo(() => scoreAttempt(doc, responses, selfMarks), [doc, responses, selfMarks]);
+  const resultsByKey = new Map(score.results.map(result => [result.key, result]));
+
+  const save = async () => {
+    if (!startedAt) return;
+    setSaving(true);
+    setError('');
+    try {
+      const res = await fetch(`/api/exams/${examId}/attempts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          mode,
+          startedAt: new Date(startedAt).toISOString(),
+          durationSeconds: elapsed,
+          responses,
+          selfMarks,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setSaved(true);
+      loadHistory();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the attempt.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setResponse = (key: string, value: string) => setResponses(prev => ({ ...prev, [key]: value }));
+
+  const answerInput = (item: PracticeItem) => {
+    const review = stage === 'review';
+    const result = resultsByKey.get(item.key);
+    const value = responses[item.key] ?? '';
+
+    if (item.kind === 'numeric') {
+      return (
+        <div className="flex items-center gap-2 mt-2">
+          <input
+            value={value}
+            disabled={review}
+            onChange={e => setResponse(item.key, e.target.value)}
+            placeholder="Numeric answer"
+            inputMode="decimal"
+            className="w-40 rounded-md bg-white dark:bg-zinc-900 px-2 py-1 text-sm ring-1 ring-zinc-300 dark:ring-zinc-700 focus:ring-indigo-500 outline-none disabled:opacity-80"
+          />
+          {review && result && <Verdict correct={result.correct} />}
+          {review && typeof item.expected === 'object' && item.expected && (
+            <span className="text-xs text-zinc-500">Answer: {item.expected.value} (±{item.expected.tolerance})</span>
+          )}
+        </div>
+      );
+    }
+
+    if (item.kind === 'self') {
+      return (
+        <div className="mt-2 space-y-2">
+          <textarea
+            value={value}
+            disabled={review}
+            onChange={e => setResponse(item.key, e.target.value)}
+            placeholder="Your working (optional, marked by you afterwards)"
+            rows={3}
+            className="w-full rounded-md bg-white dark:bg-zinc-900 px-2 py-1 text-sm ring-1 ring-zinc-300 dark:ring-zinc-700 focus:ring-indigo-500 outline-none disabled:opacity-80"
+          />
+          {review && (
+            <label className="flex items-center gap-2 text-xs text-zinc-600 dark:text-zinc-400">
+              Your mark
+              <input
+                type="number"
+                min={0}
+                max={item.marks}
+                step={0.5}
+                value={selfMarks[item.key] ?? ''}
+                disabled={saved}
+                onChange={e => {
+                  const mark = e.target.value;
+                  setSelfMarks(prev => {
+                    const next = { ...prev };
+                    if (mark === '') delete next[item.key];
+                    else next[item.key] = Number(mark);
+                    return next;
+                  });
+                }}
+                className="w-16 rounded-md bg-white dark:bg-zinc-900 px-2 py-0.5 text-sm ring-1 ring-zinc-300 dark:ring-zinc-700 focus:ring-indigo-500 outline-none"
+              />
+              / {item.marks}
+            </label>
+          )}
+        </div>
+      );
+    }
+    return null;
+  };
+
+  const questionView = (index: number) => {
+    const q = doc.questions[index];
+    const review = stage === 'review';
+    const questionItems = itemsByQuestion.get(q.id) ?? [];
+    const choiceItem = questionItems.find(item => item.kind === 'choice');
+
+    return (
+      <div key={q.id} className="rounded-xl bg-zinc-50 dark:bg-zinc-800/50 p-4 ring-1 ring-zinc-200 dark:ring-zinc-700 text-left text-sm">
+        <div className="flex items-center justify-between mb-2">
+          <span className="font-semibold text-zinc-800 dark:text-zinc-200">Question {index + 1}</span>
+          <span className="text-xs text-zinc-500">{q.marks} mark{q.marks === 1 ? '' : 's'}</span>
+        </div>
+        <Tex tex={q.stem} />
+
+        {choiceItem && (
+          <div className="mt-3 space-y-1.5">
+            {q.choices.map(choice => (
+              <label
+                key={choice.label}
+                className={cn(
+                  'flex items-start gap-2 rounded-lg px-2 py-1.5 ring-1 ring-transparent',
+                  !review && 'cursor-pointer hover:bg-white dark:hover:bg-zinc-900',
+                  review && choice.correct && 'ring-emerald-400 bg-emerald-50 dark:bg-emerald-950/40',
+                  review && !choice.correct && responses[choiceItem.key] === choice.label && 'ring-red-400 bg-red-50 dark:bg-red-950/40'
+                )}
+              >
+                <input
+                  type="radio"
+                  name={choiceItem.key}
+                  checked={responses[choiceItem.key] === choice.label}
+                  disabled={review}
+                  onChange={() => setResponse(choiceItem.key, choice.label)}
+                  className="mt-1 accent-indigo-600"
+                />
+                <span className="font-medium">{choice.label}.</span>
+                <Tex tex={choice.text} className="flex-1" />
+              </label>
+            ))}
+          </div>
+        )}
+
+        {q.parts.length === 0 && !choiceItem && questionItems.map(item => <div key={item.key}>{answerInput(item)}</div>)}
+
+        {q.parts.map(part => {
+          const item = questionItems.find(candidate => candidate.part === part.label);
+          return (
+            <div key={part.label} className="mt-3 pl-3 border-l-2 border-zinc-200 dark:border-zinc-700">
+              <div className="flex items-start gap-2">
+                <span className="font-medium">{part.label}</span>
+                <Tex tex={part.text} className="flex-1" />
+                <span className="text-xs text-zinc-500 shrink-0">[{part.marks}]</span>
+              </div>
+              {item && answerInput(item)}
+              {review && part.answer.trim() && (
+                <div className="mt-2 rounded-lg bg-indigo-50 dark:bg-indigo-950/30 p-2">
+                  <Tex tex={part.answer} />
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {review && q.answer.trim() && (
+          <div className="mt-3 rounded-lg bg-indigo-50 dark:bg-indigo-950/30 p-3">
+            <p className="text-xs font-semibold text-indigo-700 dark:text-indigo-300 mb-1">Worked solution</p>
+            <Tex tex={q.answer} />
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full w-full">
+      <div className="flex items-center gap-3 mb-4">
+        <button
+          onClick={onClose}
+          className="p-1.5 rounded-full hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors"
+          title="Back"
+        >
+          <ArrowLeft className="h-5 w-5 text-zinc-500" />
+        </button>
+        <h3 className="text-xl font-semibold text-zinc-800 dark:text-zinc-200">Practice</h3>
+        {stage !== 'ready' && (
+          <span
+            className={cn(
+              'ml-auto flex items-center gap-1.5 rounded-full px-3 py-1 text-sm font-mono ring-1',
+              remaining !== null && remaining < 300 && stage === 'running'
+                ? 'text-red-600 ring-red-300 dark:text-red-400 dark:ring-red-800'
+                : 'text-zinc-700 ring-zinc-200 dark:text-zinc-300 dark:ring-zinc-700'
+            )}
+            title={remaining !== null ? 'Time remaining' : 'Time elapsed'}
+          >
+            <Clock className="h-4 w-4" />
+            {formatClock(remaining ?? elapsed)}
+          </span>
+        )}
+      </div>
+
+      {error && <p className="mb-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {stage === 'ready' && (
+        <div className="flex-1 overflow-y-auto space-y-5 pr-1 text-left">
+          <div className="rounded-xl bg-zinc-50 dark:bg-zinc-800/50 p-4 ring-1 ring-zinc-200 dark:ring-zinc-700 text-sm space-y-3">
+            <p className="text-zinc-700 dark:text-zinc-300">
+              {doc.questions.length} questions · {score.maxScore} marks ·{' '}
+              {doc.timeLimitMinutes ? `${doc.timeLimitMinutes} minute countdown` : 'no time limit (stopwatch)'}
+            </p>
+            <p className="text-xs text-zinc-500">
+              Multiple choice and numeric answers are scored automatically. Everything else you mark yourself against the worked solutions after handing in.
+            </p>
+            <div className="flex gap-2">
+              {(['single', 'paper'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setMode(option)}
+                  className={cn(
+                    'flex-1 rounded-lg px-3 py-2 font-medium ring-1 transition-colors',
+                    mode === option
+                      ? 'bg-indigo-600 text-white ring-indigo-600'
+                      : 'text-zinc-700 ring-zinc-200 hover:bg-white dark:text-zinc-300 dark:ring-zinc-700 dark:hover:bg-zinc-900'
+                  )}
+                >
+                  {option === 'single' ? 'One question at a time' : 'Full paper'}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={start}
+              className="w-full flex items-center justify-center gap-2 rounded-xl bg-gradient-to-r from-indigo-600 to-purple-600 px-4 py-2.5 font-semibold text-white shadow-lg transition-all hover:scale-[1.01] active:scale-[0.99]"
+            >
+              <Play className="h-4 w-4" />
+              Start
+            </button>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 mb-2">Previous attempts</h4>
+            {history === null && !error && <Loader2 className="h-5 w-5 animate-spin text-indigo-500" />}
+            {history?.length === 0 && <p className="text-xs text-zinc-500">No attempts yet, on this exam or its regenerated versions.</p>}
+            {history && history.length > 0 && (
+              <ul className="space-y-2">
+                {history.map(attempt => (
+                  <li key={attempt.id} className="flex items-center gap-3 rounded-lg bg-zinc-50 dark:bg-zinc-800/50 px-3 py-2 ring-1 ring-zinc-200 dark:ring-zinc-700 text-xs">
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-zinc-800 dark:text-zinc-200 truncate">
+                        {attempt.examName}
+                        <span className="font-normal text-zinc-500">
+                          {' '}· {attempt.examId === examId ? 'this version' : `version of ${new Date(attempt.examCreatedAt).toLocaleString()}`}
+                        </span>
+                      </p>
+                      <p className="text-zinc-500">
+                        {new Date(attempt.submittedAt).toLocaleString()} · {formatClock(attempt.durationSeconds)}
+                        {attempt.pending > 0 && ` · ${attempt.pending} unmarked`}
+                      </p>
+                    </div>
+                    <span className="font-semibold text-zinc-800 dark:text-zinc-200">
+                      {attempt.score}/{attempt.maxScore}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+
+      {stage !== 'ready' && (
+        <>
+          {stage === 'review' && (
+            <div className="mb-3 flex items-center gap-3 rounded-xl bg-indigo-50 dark:bg-indigo-950/30 px-4 py-2 text-sm text-left ring-1 ring-indigo-200 dark:ring-indigo-900">
+              <div className="flex-1">
+                <p className="font-semibold text-indigo-800 dark:text-indigo-200">Score: {score.score} / {score.maxScore}</p>
+                <p className="text-xs text-indigo-700 dark:text-indigo-300">
+                  {score.pending > 0 ? `${score.pending} answer(s) still to mark yourself` : 'Everything is marked'}
+                </p>
+              </div>
+              <button
+                onClick={save}
+                disabled={saving || saved}
+                className="flex items-center gap-1.5 rounded-lg bg-indigo-600 px-3 py-1.5 font-medium text-white disabled:opacity-60"
+              >
+                {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : saved ? <CheckCircle className="h-4 w-4" /> : <Save className="h-4 w-4" />}
+                {saved ? 'Saved' : 'Save attempt'}
+              </button>
+              <button
+                onClick={() => setStage('ready')}
+                className="flex items-center gap-1.5 rounded-lg px-3 py-1.5 font-medium text-indigo-700 hover:bg-indigo-100 dark:text-indigo-300 dark:hover:bg-indigo-900/40"
+              >
+                <RotateCcw className="h-4 w-4" />
+                Done
+              </button>
+            </div>
+          )}
+
+          <div className="flex-1 overflow-y-auto space-y-3 pr-1">
+            {mode === 'single' && stage === 'running'
+              ? questionView(current)
+              : doc.questions.map((_, index) => questionView(index))}
+          </div>
+
+          {stage === 'running' && (
+            <div className="mt-3 flex items-center gap-2">
+              {mode === 'single' && (
+                <>
+                  <button
+                    onClick={() => setCurrent(i => Math.max(0, i - 1))}
+                    disabled={current === 0}
+                    className="p-2 rounded-lg ring-1 ring-zinc-200 dark:ring-zinc-700 disabled:opacity-40"
+                    title="Previous question"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </button>
+                  <span className="text-xs text-zinc-500">{current + 1} / {doc.questions.length}</span>
+                  <button
+                    onClick={() => setCurrent(i => Math.min(doc.questions.length - 1, i + 1))}
+                    disabled={current === doc.questions.length - 1}
+                    className="p-2 rounded-lg ring-1 ring-zinc-200 dark:ring-zinc-700 disabled:opacity-40"
+                    title="Next question"
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </button>
+                </>
+              )}
+              <button
+                onClick={() => {
+                  if (window.confirm('Hand in and see your score?')) submit();
+                }}
+                className="ml-auto rounded-lg bg-zinc-900 px-4 py-2 text-sm font-semibold text-white dark:bg-white dark:text-zinc-900"
+              >
+                Hand in
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function Verdict({ correct }: { correct: boolean | null }) {
+  if (correct === null) return null;
+  return correct
+    ? <CheckCircle className="h-4 w-4 text-emerald-500" />
+    : <XCircle className="h-4 w-4 text-red-500" />;
+}
@@ -0,0 +1,189 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Lock, LockOpen, RefreshCw, Trash2, X } from 'lucide-react';
+import type { Question } from '@/lib/exam';
+import type { NoveltyReport, QuestionNovelty } from '@/lib/novelty';
+import type { ExamResult } from '@/lib/progress';
+import { cn } from '@/lib/utils';
+
+type QuestionPanelProps = {
+  examId: string;
+  questions: Question[];
+  // Delete and regenerate rebuild the whole document
+  onRebuilt: (result: ExamResult) => void;
+  onQuestionChange: (question: Question) => void;
+  // Similarity to sources and earlier attempts; null for exams opened from the library
+  novelty: NoveltyReport | null;
+};
+
+const TYPE_LABELS: Record<Question['type'], string> = {
+  'mcq': 'MCQ',
+  'short-answer': 'Short',
+  'long-answer': 'Long',
+};
+
+// "Shares 3, 12 and x^2+4 with exam2019.pdf, part 3"
+function describeNovelty(novelty: QuestionNovelty) {
+  const match = novelty.match!;
+  const shared = [...match.sharedNumbers, ...match.sharedExpressions];
+  const rewrites = novelty.rewrites > 0 ? ` Rewritten ${novelty.rewrites}× for being too close.` : '';
+  return `Closest: ${match.label}. Word overlap ${Math.round(match.tokenOverlap * 100)}%${shared.length > 0 ? `, shares ${shared.join(', ')}` : ''}.${rewrites}`;
+}
+
+export default function QuestionPanel({ examId, questions, onRebuilt, onQuestionChange, novelty }: QuestionPanelProps) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  // Question whose instruction box is open
+  const [editing, setEditing] = useState<{ id: string; instruction: string } | null>(null);
+
+  const request = async (question: Question, init: RequestInit) => {
+    setBusyId(question.id);
+    setError('');
+    try {
+      const res = await fetch(`/api/exams/${examId}/questions/${question.id}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed.');
+      return null;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const toggleLock = async (question: Question) => {
+    const data = await request(question, { method: 'PATCH', body: JSON.stringify({ locked: !question.locked }) });
+    if (data) onQuestionChange(data.question);
+  };
+
+  const remove = async (question: Question) => {
+    if (!window.confirm(`Delete question ${questions.indexOf(question) + 1} (${question.topic})?`)) return;
+    const data = await request(question, { method: 'DELETE' });
+    if (data) onRebuilt(data);
+  };
+
+  const regenerate = async (question: Question, instruction: string) => {
+    setEditing(null);
+    const data = await request(question, { method: 'POST', body: JSON.stringify({ instruction }) });
+    if (data) onRebuilt(data);
+  };
+
+  const similarity = (question: Question) => {
+    const entry = novelty?.questions.find(q => q.questionId === question.id);
+    if (!entry?.match) return null;
+    return (
+      <p
+        title={describeNovelty(entry)}
+        className={cn("text-xs truncate", entry.flagged ? "text-amber-600 dark:text-amber-400" : "text-zinc-400")}
+      >
+        {Math.round(entry.match.score * 100)}% similar to {entry.match.kind === 'source' ? 'a source' : 'an earlier attempt'}
+        {entry.flagged && ' (too close)'}
+      </p>
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full w-full">
+      <h3 className="px-4 pt-4 pb-2 text-sm font-semibold text-zinc-800 dark:text-zinc-200">
+        Questions <span className="font-normal text-zinc-500">({questions.reduce((sum, q) => sum + q.marks, 0)} marks)</span>
+      </h3>
+
+      {error && <p className="px-4 pb-2 text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+      <ul className="flex-1 overflow-y-auto px-3 pb-3 space-y-2">
+        {questions.map((question, i) => (
+          <li
+            key={question.id}
+            className={cn(
+              "rounded-xl p-3 ring-1 transition-colors",
+              question.locked
+                ? "bg-indigo-50 ring-indigo-200 dark:bg-indigo-950/40 dark:ring-indigo-800"
+                : "bg-zinc-50 ring-zinc-200 dark:bg-zinc-800/50 dark:ring-zinc-700"
+            )}
+          >
+            <div className="flex items-start gap-2">
+              <span className="text-sm font-semibold text-zinc-500 w-6 shrink-0">{i + 1}.</span>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100 truncate" title={question.topic}>
+                  {question.topic}
+                </p>
+                <p className="text-xs text-zinc-500">
+                  {TYPE_LABELS[question.type]} · {question.marks} {question.marks === 1 ? 'mark' : 'marks'}
+                </p>
+                {similarity(question)}
+              </div>
+              {busyId === question.id ? (
+                <Loader2 className="h-4 w-4 m-1.5 animate-spin text-indigo-500" />
+              ) : (
+                <div className="flex shrink-0 items-center">
+                  <IconButton
+                    title={question.locked ? 'Unlock' : 'Lock (kept on Regenerate)'}
+                    disabled={busyId !== null}
+                    onClick={() => toggleLock(question)}
+                  >
+                    {question.locked ? <Lock className="h-4 w-4 text-indigo-600" /> : <LockOpen className="h-4 w-4" />}
+                  </IconButton>
+                  <IconButton
+                    title="Regenerate this question"
+                    disabled={busyId !== null || question.locked === true}
+                    onClick={() => setEditing({ id: question.id, instruction: '' })}
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                  </IconButton>
+                  <IconButton
+                    title="Delete"
+                    disabled={busyId !== null || question.locked === true || questions.length === 1}
+                    onClick={() => remove(question)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </IconButton>
+                </div>
+              )}
+            </div>
+
+            {editing?.id === question.id && (
+              <div className="mt-2 flex items-center gap-1">
+                <input
+                  autoFocus
+                  value={editing.instruction}
+                  placeholder="Optional: make it harder, use a different function..."
+                  onChange={e => setEditing({ id: question.id, instruction: e.target.value })}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') regenerate(question, editing.instruction);
+                    if (e.key === 'Escape') setEditing(null);
+                  }}
+                  className="flex-1 min-w-0 rounded-md bg-white dark:bg-zinc-900 px-2 py-1 text-xs ring-1 ring-indigo-500 outline-none"
+                />
+                <button
+                  onClick={() => regenerate(question, editing.instruction)}
+                  className="rounded-md bg-indigo-600 px-2 py-1 text-xs font-semibold text-white hover:bg-indigo-500"
+                >
+                  Go
+                </button>
+                <IconButton title="Cancel" onClick={() => setEditing(null)}><X className="h-4 w-4" /></IconButton>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function IconButton({ title, onClick, disabled, children }: { title: string; onClick: () => void; disabled?: boolean; children: React.ReactNode }) {
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      disabled={disabled}
+      className="p-1.5 rounded-full text-zinc-500 hover:bg-zinc-200 hover:text-zinc-800 dark:hover:bg-zinc-700 dark:hover:text-zinc-200 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+    >
+      {children}
+    </button>
+  );
+}
@@ -0,0 +1,223 @@
+'use client';
+
+import { Fragment, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle, Loader2, Play, X } from 'lucide-react';
+import type { EngineChoice, LatexError } from '@/lib/compiler';
+import type { CompileResult } from '@/lib/latex';
+import type { LintDiagnostic } from '@/lib/lint';
+import { cn } from '@/lib/utils';
+
+type TexEditorProps = {
+  // Full document, preamble included
+  tex: string;
+  engine: EngineChoice;
+  onChange: (tex: string) => void;
+  // Called with every finished compilation, failed ones included
+  onCompiled: (result: CompileResult, tex: string) => void;
+  onClose: () => void;
+};
+
+// Matches Tailwind's leading-5, used to scroll to a line
+const LINE_HEIGHT = 20;
+
+type TokenKind = 'comment' | 'environment' | 'command' | 'math' | 'brace' | 'text';
+
+const TOKEN_PATTERN = /(%.*$)|(\\(?:begin|end)\{[^}]*\})|(\\(?:[A-Za-z@]+\*?|.))|(\$\$?)|([{}[\]])/g;
+
+const TOKEN_STYLES: Record<TokenKind, string> = {
+  comment: 'text-zinc-500 italic',
+  environment: 'text-amber-300',
+  command: 'text-sky-300',
+  math: 'text-emerald-300',
+  brace: 'text-zinc-400',
+  text: '',
+};
+
+// One line split into highlight tokens; "\%" is a command, so it never starts a comment
+function tokenize(line: string): { kind: TokenKind; text: string }[] {
+  const tokens: { kind: TokenKind; text: string }[] = [];
+  let last = 0;
+  for (const match of line.matchAll(TOKEN_PATTERN)) {
+    if (match.index > last) tokens.push({ kind: 'text', text: line.substring(last, match.index) });
+    const kind: TokenKind = match[1] ? 'comment' : match[2] ? 'environment' : match[3] ? 'command' : match[4] ? 'math' : 'brace';
+    tokens.push({ kind, text: match[0] });
+    last = match.index + match[0].length;
+  }
+  if (last < line.length) tokens.push({ kind: 'text', text: line.substring(last) });
+  return tokens;
+}
+
+export default function TexEditor({ tex, engine, onChange, onCompiled, onClose }: TexEditorProps) {
+  const [compiling, setCompiling] = useState(false);
+  const [errors, setErrors] = useState<LatexError[]>([]);
+  // Static checks of the TeX as sent; compile errors take precedence on the same line
+  const [diagnostics, setDiagnostics] = useState<LintDiagnostic[]>([]);
+  const [outcome, setOutcome] = useState<{ ok: boolean; text: string } | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+
+  const lines = tex.split('\n');
+  // First message per line, shown at the end of that line
+  const lineErrors = new Map<number, string>();
+  for (const error of errors) {
+    if (error.line !== null && !lineErrors.has(error.line)) lineErrors.set(error.line, error.message);
+  }
+  const lineWarnings = new Map<number, string>();
+  for (const diagnostic of diagnostics) {
+    if (diagnostic.line !== null && !lineErrors.has(diagnostic.line) && !lineWarnings.has(diagnostic.line)) {
+      lineWarnings.set(diagnostic.line, diagnostic.message);
+    }
+  }
+
+  const compile = async () => {
+    setCompiling(true);
+    setOutcome(null);
+    try {
+      const res = await fetch('/api/compile', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tex, engine }),
+      });
+      const data = await res.json();
+      if (!res.ok && !data.failure) throw new Error(data.error);
+      const result = data as CompileResult & { diagnostics: LintDiagnostic[] };
+      setErrors(result.errors);
+      setDiagnostics(result.diagnostics ?? []);
+      const passes = `${result.passes} ${result.passes === 1 ? 'pass' : 'passes'}`;
+      setOutcome(result.pdfBase64
+        ? { ok: true, text: `PDF updated (${result.engine}, ${passes})` }
+        : { ok: false, text: result.error ?? 'Compilation failed' });
+      onCompiled(result, tex);
+    } catch (err) {
+      setOutcome({ ok: false, text: err instanceof Error ? err.message : 'Compilation request failed.' });
+    } finally {
+      setCompiling(false);
+    }
+  };
+
+  const syncScroll = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = textarea.scrollTop;
+      highlightRef.current.scrollLeft = textarea.scrollLeft;
+    }
+    if (gutterRef.current) gutterRef.current.scrollTop = textarea.scrollTop;
+  };
+
+  const goToLine = (line: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const start = lines.slice(0, line - 1).reduce((sum, text) => sum + text.length + 1, 0);
+    textarea.focus();
+    textarea.setSelectionRange(start, start + (lines[line - 1]?.length ?? 0));
+    textarea.scrollTop = Math.max(0, (line - 5) * LINE_HEIGHT);
+    syncScroll();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      if (!compiling) compile();
+    } else if (e.key === 'Tab' && !e.shiftKey) {
+      // Indent instead of leaving the editor
+      e.preventDefault();
+      const textarea = e.currentTarget;
+      const { selectionStart, selectionEnd } = textarea;
+      onChange(tex.substring(0, selectionStart) + '  ' + tex.substring(selectionEnd));
+      requestAnimationFrame(() => textarea.setSelectionRange(selectionStart + 2, selectionStart + 2));
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full w-full bg-zinc-950 text-zinc-100">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-zinc-800">
+        <h3 className="text-sm font-semibold">LaTeX</h3>
+        {outcome && (
+          <span className={cn("flex items-center gap-1 min-w-0 truncate text-xs", outcome.ok ? "text-emerald-400" : "text-red-400")}>
+            {outcome.ok ? <CheckCircle className="h-3.5 w-3.5 shrink-0" /> : <AlertCircle className="h-3.5 w-3.5 shrink-0" />}
+            <span className="truncate">{outcome.text}</span>
+          </span>
+        )}
+        <button
+          onClick={compile}
+          disabled={compiling}
+          title="Recompile (Ctrl+Enter)"
+          className="ml-auto flex items-center gap-1.5 rounded-lg bg-indigo-600 px-3 py-1 text-xs font-semibold text-white transition-colors hover:bg-indigo-500 disabled:opacity-60"
+        >
+          {compiling ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Play className="h-3.5 w-3.5" />}
+          Recompile
+        </button>
+        <button onClick={onClose} title="Close editor" className="rounded-lg p-1 text-zinc-400 transition-colors hover:bg-zinc-800 hover:text-zinc-100">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-1 min-h-0 font-mono text-xs leading-5">
+        <div ref={gutterRef} className="overflow-hidden select-none py-3 pl-3 pr-2 text-right text-zinc-600">
+          {lines.map((_, i) => (
+            <div key={i} className={cn(
+              lineErrors.has(i + 1) && "rounded-sm bg-red-500/20 text-red-400",
+              lineWarnings.has(i + 1) && "rounded-sm bg-amber-500/20 text-amber-400"
+            )}>{i + 1}</div>
+          ))}
+        </div>
+        <div className="relative flex-1 min-w-0">
+          {/* Highlighted copy under a transparent textarea; both scroll together */}
+          <pre ref={highlightRef} aria-hidden className="absolute inset-0 m-0 overflow-hidden p-3 whitespace-pre pointer-events-none">
+            {lines.map((line, i) => (
+              <div key={i} className={cn("min-h-5", lineErrors.has(i + 1) && "bg-red-500/10", lineWarnings.has(i + 1) && "bg-amber-500/10")}>
+                {tokenize(line).map((token, j) => (
+                  <Fragment key={j}>
+                    {token.kind === 'text' ? token.text : <span className={TOKEN_STYLES[token.kind]}>{token.text}</span>}
+                  </Fragment>
+                ))}
+                {lineErrors.has(i + 1) && <span className="ml-6 text-red-400 italic">! {lineErrors.get(i + 1)}</span>}
+                {lineWarnings.has(i + 1) && <span className="ml-6 text-amber-400 italic">? {lineWarnings.get(i + 1)}</span>}
+              </div>
+            ))}
+          </pre>
+          <textarea
+            ref={textareaRef}
+            value={tex}
+            onChange={e => onChange(e.target.value)}
+            onScroll={syncScroll}
+            onKeyDown={handleKeyDown}
+            wrap="off"
+            spellCheck={false}
+            aria-label="LaTeX source"
+            className="absolute inset-0 h-full w-full resize-none overflow-auto bg-transparent p-3 whitespace-pre text-transparent caret-zinc-100 outline-none selection:bg-indigo-500/40"
+          />
+        </div>
+      </div>
+
+      {(errors.length > 0 || diagnostics.length > 0) && (
+        <ul className="max-h-28 overflow-y-auto border-t border-zinc-800 px-3 py-2 space-y-1 text-xs">
+          {errors.map((error, i) => (
+            <li key={i}>
+              {error.line !== null ? (
+                <button onClick={() => goToLine(error.line!)} className="text-left text-red-400 hover:underline">
+                  Line {error.line}: {error.message}
+                </button>
+              ) : (
+                <span className="text-red-400">{error.message}</span>
+              )}
+            </li>
+          ))}
+          {diagnostics.map((diagnostic, i) => (
+            <li key={`lint-${i}`}>
+              {diagnostic.line !== null ? (
+                <button onClick={() => goToLine(diagnostic.line!)} className="text-left text-amber-400 hover:underline">
+                  Line {diagnostic.line}: {diagnostic.message}
+                </button>
+              ) : (
+                <span className="text-amber-400">{diagnostic.message}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import type { TexEngine } from './compiler';
+import { ExamValidationError, parseModelJson } from './exam';
+import { analysisKey, readAnalysis, saveAnalysis, type SourceRef } from './library';
+import type { PromptProfile } from './profiles';
+import { buildAnalysisPrompt, withSourceTexts } from './prompts';
+import type { ModelProvider, ModelSettings } from './providers';
+import type { ProgressTracker } from './progress';
+import { styleTemplate, type SourceMaterial } from './sources';
+
+// Phase one of the pipeline: read the source files once and describe them. The result is
+// cached by the content hash of the files, so regenerations only send this summary.
+
+export type SourceQuestion = {
+    type: string;
+    topic: string;
+    // What the question asks and how it is solved, detailed enough to write a variant
+    summary: string;
+    // 0 when the source shows no marks
+    marks: number;
+};
+
+export type SourceAnalysis = {
+    // Question inventory, used as the blueprint for generation
+    questionTypes: string[];
+    topics: string[];
+    inventory: SourceQuestion[];
+    // Source LaTeX style: everything before \begin{document}, and the title block
+    preamble: string;
+    header: string;
+    // Layout, notation and wording conventions worth copying
+    formatting: string;
+};
+
+export const ANALYSIS_SCHEMA = {
+    type: 'object',
+    properties: {
+        questionTypes: { type: 'array', items: { type: 'string' }, description: 'EVERY source question type, e.g. "Product Rule MCQ"' },
+        topics: { type: 'array', items: { type: 'string' } },
+        inventory: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    type: { type: 'string' },
+                    topic: { type: 'string' },
+                    summary: { type: 'string', description: 'What is asked and the solution method' },
+                    marks: { type: 'number', description: '0 when unknown' },
+                },
+                required: ['type', 'topic', 'summary', 'marks'],
+            },
+        },
+        preamble: { type: 'string', description: 'LaTeX from \\documentclass up to (not including) \\begin{document}' },
+        header: { type: 'string', description: 'LaTeX title block and instructions' },
+        formatting: { type: 'string', description: 'Layout, notation and wording conventions' },
+    },
+    required: ['questionTypes', 'topics', 'inventory', 'preamble', 'header', 'formatting'],
+};
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every((v) => typeof v === 'string');
+
+export function parseAnalysis(text: string): SourceAnalysis {
+    const value = parseModelJson(text, 'analysis');
+    const issues: string[] = [];
+    if (typeof value !== 'object' || value === null) throw new ExamValidationError(['response is not a JSON object'], 'analysis');
+    const raw = value as Record<string, unknown>;
+
+    if (!isStringArray(raw.questionTypes) || raw.questionTypes.length === 0) issues.push('questionTypes must be a non-empty array of strings');
+    if (!isStringArray(raw.topics)) issues.push('topics must be an array of strings');
+    for (const key of ['preamble', 'header', 'formatting']) {
+        if (typeof raw[key] !== 'string') issues.push(`${key} must be a string`);
+    }
+    if (!Array.isArray(raw.inventory)) {
+        issues.push('inventory must be an array');
+    } else {
+        raw.inventory.forEach((item, i) => {
+            const q = item as Record<string, unknown>;
+            if (typeof q?.type !== 'string' || typeof q?.topic !== 'string' || typeof q?.summary !== 'string' || typeof q?.marks !== 'number') {
+                issues.push(`inventory[${i}] needs type, topic, summary and marks`);
+            }
+        });
+    }
+
+    if (issues.length > 0) throw new ExamValidationError(issues, 'analysis');
+    return value as SourceAnalysis;
+}
+
+// Stands in for an analysis that was never run (the CLI's --dry-run), so prompts built from
+// it show where the real one would go
+export function placeholderAnalysis(): SourceAnalysis {
+    return {
+        questionTypes: ['<question types from the source analysis>'],
+        topics: ['<topics from the source analysis>'],
+        inventory: [{ type: '<type>', topic: '<topic>', summary: '<source questions from the source analysis>', marks: 0 }],
+        preamble: '<preamble from the source analysis>',
+        header: '<header from the source analysis>',
+        formatting: '<formatting from the source analysis>',
+    };
+}
+
+export async function getCachedAnalysis(sources: SourceRef[]): Promise<SourceAnalysis | null> {
+    return readAnalysis(analysisKey(sources));
+}
+
+// Cached analysis when there is one (unless refresh is set), otherwise a model call on the sources
+export async function analyzeSources(
+    sources: SourceRef[],
+    // Only encoded (and DOCX converted) when the analysis has to run
+    material: () => SourceMaterial,
+    provider: ModelProvider,
+    settings: ModelSettings,
+    profile: PromptProfile,
+    engine: TexEngine,
+    tracker: ProgressTracker,
+    refresh = false
+): Promise<{ analysis: SourceAnalysis; cached: boolean }> {
+    const key = analysisKey(sources);
+    tracker.start('analysis', 'Analyzing sources');
+
+    const cached = refresh ? null : await readAnalysis(key);
+    if (cached) {
+        tracker.log.info('Source analysis cached', { stage: 'analysis', key: key.substring(0, 12) });
+        tracker.finish('analysis', `Cached, ${cached.questionTypes.length} question types`);
+        return { analysis: cached, cached: true };
+    }
+
+    tracker.log.info('Running source analysis', { stage: 'analysis', key: key.substring(0, 12) });
+    let analysis: SourceAnalysis;
+    try {
+        const { files, texts } = material();
+        const result = await provider.generate({
+            task: 'analysis',
+            prompt: withSourceTexts(buildAnalysisPrompt(engine, profile), texts),
+            files,
+            model: settings.model,
+            temperature: 0,
+            thinkingLevel: settings.thinkingLevel,
+            responseSchema: ANALYSIS_SCHEMA,
+        });
+        analysis = parseAnalysis(result.text);
+        // An uploaded LaTeX source is the style template itself, no need for a reconstruction
+        const template = styleTemplate(texts);
+        if (template) analysis.preamble = template;
+    } catch (error) {
+        tracker.finish('analysis', (error as Error).message, 'failed');
+        throw error;
+    }
+
+    await saveAnalysis(key, analysis);
+    tracker.finish('analysis', `${analysis.questionTypes.length} question types, ${analysis.inventory.length} questions`);
+    return { analysis, cached: false };
+}
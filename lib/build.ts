@@ -0,0 +1,180 @@
+import { EXAM_DOCUMENT_SCHEMA, parseExamDocument, validateExamDocument, type ExamDocument } from './exam';
+import { compileWithRepair } from './latex';
+import type { EngineChoice, TexEngine } from './compiler';
+import { batchExams, readExamFile, replaceExamFiles, type ExamFile, type ExamRecord } from './library';
+import type { PromptProfile } from './profiles';
+import { buildRepairPrompt } from './prompts';
+import { createProvider, type ModelProvider, type ModelSettings } from './providers';
+import { renderExam, renderSolutions } from './render';
+import type { BatchResult, ExamResult, ProgressTracker } from './progress';
+import type { NoveltyReport } from './novelty';
+import type { UsageMeter } from './usage';
+
+// Turns an ExamDocument into the compiled exam (and optional solutions key).
+// Shared by full generation and the per-question edits, which rebuild in place.
+
+export type Repairer = (doc: ExamDocument, tex: string, log: string, engine: TexEngine) => Promise<ExamDocument>;
+
+// Everything in ExamResult that comes out of a build
+export type ExamOutputs = Omit<ExamResult, 'examId' | 'parentId' | 'questions' | 'settings' | 'options' | 'usage' | 'timings' | 'batch' | 'novelty' | 'profile'>;
+
+// Model-backed repair. The provider is created on first use, so edits that compile
+// cleanly never need credentials; a meter given here records its calls. The profile with
+// the repair template may be a loader, for the same reason. Fields the model never sees
+// are carried over.
+export function createRepairer(
+    settings: ModelSettings,
+    profile: PromptProfile | (() => Promise<PromptProfile>),
+    provider: ModelProvider | null = null,
+    meter: UsageMeter | null = null
+): Repairer {
+    return async (doc, tex, log, engine) => {
+        if (!provider) {
+            const created = createProvider(settings.provider);
+            provider = meter ? meter.wrap(created) : created;
+        }
+        if (typeof profile === 'function') profile = await profile();
+        const result = await provider.generate({
+            task: 'repair',
+            prompt: buildRepairPrompt(doc, tex, log, engine, profile),
+            model: settings.model,
+            temperature: 0,
+            thinkingLevel: settings.thinkingLevel,
+            responseSchema: EXAM_DOCUMENT_SCHEMA,
+        });
+        const repaired = parseExamDocument(result.text);
+        return {
+            ...repaired,
+            timeLimitMinutes: doc.timeLimitMinutes,
+            version: doc.version,
+            questions: repaired.questions.map((q) => ({ ...q, locked: doc.questions.find((d) => d.id === q.id)?.locked })),
+        };
+    };
+}
+
+export async function buildExamOutputs(
+    doc: ExamDocument,
+    options: { withSolutions: boolean; engine: EngineChoice; repairAttempts: number; repair: Repairer; tracker: ProgressTracker }
+): Promise<ExamOutputs> {
+    const { engine, repairAttempts, repair, tracker } = options;
+    // Versions of one run are built side by side; the suffix keeps their stage ids apart
+    const suffix = doc.version ? `-${doc.version}` : '';
+
+    const exam = await compileWithRepair(doc, renderExam, `exam${suffix}`, repairAttempts, repair, tracker, engine);
+    const outputs: ExamOutputs = {
+        exam: exam.doc,
+        tex: exam.tex,
+        pdfBase64: exam.pdfBase64,
+        error: exam.error,
+        log: exam.log,
+        repairRounds: exam.repairRounds,
+        engine: exam.engine,
+        passes: exam.passes,
+        diagnostics: exam.diagnostics,
+        solutionsTex: null,
+        solutionsPdfBase64: null,
+        solutionsError: null,
+        solutionsLog: null,
+        solutionsRepairRounds: 0,
+        solutionsPasses: 0,
+        solutionsDiagnostics: [],
+    };
+    if (!options.withSolutions) return outputs;
+
+    // Answer key: rendered from the same question list, so numbering always matches.
+    // Solutions repairs may only touch answers; the paper is already final.
+    const repairAnswers: Repairer = async (current, tex, log, engine) => {
+        const repaired = await repair(current, tex, log, engine);
+        return {
+            ...current,
+            questions: current.questions.map((q) => {
+                const fixed = repaired.questions.find((r) => r.id === q.id);
+                if (!fixed) return q;
+                return {
+                    ...q,
+                    answer: fixed.answer,
+                    parts: q.parts.map((part, i) => ({ ...part, answer: fixed.parts[i]?.answer ?? part.answer })),
+                };
+            }),
+        };
+    };
+
+    // Same engine as the paper, so both share fonts and layout
+    const solutions = await compileWithRepair(exam.doc, renderSolutions, `solutions${suffix}`, repairAttempts, repairAnswers, tracker, exam.engine);
+    return {
+        ...outputs,
+        exam: solutions.doc,
+        solutionsTex: solutions.tex,
+        solutionsPdfBase64: solutions.pdfBase64,
+        solutionsError: solutions.error,
+        solutionsLog: solutions.log,
+        solutionsRepairRounds: solutions.repairRounds,
+        solutionsPasses: solutions.passes,
+        solutionsDiagnostics: solutions.diagnostics,
+    };
+}
+
+// Library files for a build; PDFs only when they compiled
+export function outputFiles(outputs: ExamOutputs): Partial<Record<ExamFile, string | Buffer>> {
+    const files: Partial<Record<ExamFile, string | Buffer>> = {
+        'exam.json': JSON.stringify(outputs.exam, null, 2),
+        'exam.tex': outputs.tex,
+    };
+    if (outputs.pdfBase64) files['exam.pdf'] = Buffer.from(outputs.pdfBase64, 'base64');
+    if (outputs.solutionsTex) files['solutions.tex'] = outputs.solutionsTex;
+    if (outputs.solutionsPdfBase64) files['solutions.pdf'] = Buffer.from(outputs.solutionsPdfBase64, 'base64');
+    return files;
+}
+
+export async function loadExamDocument(id: string): Promise<ExamDocument | null> {
+    const json = await readExamFile(id, 'exam.json');
+    return json ? validateExamDocument(JSON.parse(json.toString('utf8'))) : null;
+}
+
+// Rebuilds a saved exam after an edit and overwrites its files
+export async function rebuildExam(
+    record: ExamRecord,
+    doc: ExamDocument,
+    options: { repairAttempts: number; repair: Repairer; tracker: ProgressTracker; meter: UsageMeter; novelty: NoveltyReport }
+): Promise<ExamResult> {
+    const outputs = await buildExamOutputs(doc, { ...options, withSolutions: record.withSolutions, engine: record.engine });
+    const updated = await replaceExamFiles(record.id, outputFiles(outputs));
+    if (!updated) throw new Error('Exam was deleted while it was being rebuilt');
+    return {
+        ...outputs,
+        examId: updated.id,
+        parentId: updated.parentId,
+        questions: updated.questions,
+        settings: updated.settings,
+        options: updated.options,
+        usage: options.meter.report(),
+        timings: options.tracker.timings(),
+        batch: await describeBatch(updated),
+        novelty: options.novelty,
+        profile: updated.profile ?? null,
+    };
+}
+
+// The other versions of a saved version, for results that are not the generation itself
+async function describeBatch(record: ExamRecord): Promise<BatchResult | null> {
+    if (!record.batch) return null;
+    const versions = await batchExams(record.batch.id);
+    return {
+        id: record.batch.id,
+        versions: versions.map((exam) => ({ version: exam.batch!.version, examId: exam.id })),
+        issues: [],
+    };
+}
+
+// Puts the parent's locked questions back at their original positions and
+// renumbers ids, since the model numbers its own questions from q1
+export function mergeLockedQuestions(doc: ExamDocument, parent: ExamDocument): ExamDocument {
+    const questions = [...doc.questions];
+    parent.questions.forEach((q, index) => {
+        if (q.locked) questions.splice(Math.min(index, questions.length), 0, q);
+    });
+    return {
+        ...doc,
+        questions: questions.map((q, i) => ({ ...q, id: `q${i + 1}` })),
+    };
+}
@@ -0,0 +1,409 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { spawn } from 'child_process';
+import type { Logger } from './logger';
+
+// Sandboxed TeX runner. The TeX comes from a model, so every job gets its own
+// temp directory, shell escape is disabled, runtime and output are capped, jobs go
+// through a bounded queue, and the directory is always removed afterwards.
+
+export const TEX_ENGINES = ['pdflatex', 'xelatex', 'lualatex'] as const;
+export type TexEngine = typeof TEX_ENGINES[number];
+// 'auto' picks the engine from the preamble
+export type EngineChoice = TexEngine | 'auto';
+
+export type CompileFailure =
+    // The TeX engine is not installed / not on PATH
+    | 'missing-engine'
+    // Wall-clock limit hit, process killed
+    | 'timeout'
+    // Console output or PDF larger than the limit
+    | 'output-limit'
+    // Too many jobs waiting already
+    | 'queue-full'
+    // The caller's signal aborted (a cancelled job), process killed
+    | 'cancelled'
+    // The engine reported errors or produced no PDF
+    | 'latex-error';
+
+export type LatexError = {
+    message: string;
+    line: number | null;
+};
+
+export type CompileOutcome = {
+    pdf: Buffer | null;
+    engine: TexEngine;
+    // Engine runs it took for cross-references to settle
+    passes: number;
+    failure: CompileFailure | null;
+    // Human-readable reason, null on success
+    message: string | null;
+    // First errors from the log
+    errors: LatexError[];
+    // Copy of the log kept for inspection after a failure (the job directory itself is removed)
+    logPath: string | null;
+    exitCode: number | null;
+    durationMs: number;
+};
+
+export type CompilerConfig = {
+    // Used when a request does not pick one
+    engine: EngineChoice;
+    maxPasses: number;
+    // Use latexmk for the pass loop when it is installed
+    latexmk: boolean;
+    timeoutMs: number;
+    maxOutputBytes: number;
+    concurrency: number;
+    queueLimit: number;
+    logDir: string;
+};
+
+const MAX_LOG_ERRORS = 3;
+// Failed-job logs kept in logDir, oldest removed first
+const MAX_KEPT_LOGS = 50;
+
+// Common TeX install locations missing from the PATH of GUI-launched servers
+const TEX_PATHS = ['/Library/TeX/texbin', '/usr/texbin', '/usr/local/bin', '/opt/homebrew/bin'];
+
+const readInt = (value: string | undefined, fallback: number) => {
+    const parsed = value === undefined ? NaN : parseInt(value, 10);
+    return isNaN(parsed) || parsed <= 0 ? fallback : parsed;
+};
+
+export function parseEngine(value: string | null | undefined): EngineChoice {
+    if (!value || value === 'auto') return 'auto';
+    if (!TEX_ENGINES.includes(value as TexEngine)) {
+        throw new Error(`Invalid engine "${value}": expected auto, ${TEX_ENGINES.join(', ')}`);
+    }
+    return value as TexEngine;
+}
+
+// Packages and primitives that only work under a unicode engine
+const LUALATEX_MARKERS = /\\(?:usepackage(?:\[[^\]]*\])?\{[^}]*\b(?:luacode|luatexbase|luaotfload|lua-visual-debug)\b[^}]*\}|directlua|luaexec)/;
+const XELATEX_MARKERS = /\\(?:usepackage(?:\[[^\]]*\])?\{[^}]*\b(?:fontspec|unicode-math|polyglossia|xeCJK|mathspec)\b[^}]*\}|set(?:main|sans|mono|math)font)/;
+
+// Engine the document needs, judged from everything before \begin{document}
+export function detectEngine(tex: string): TexEngine {
+    const docStart = tex.indexOf('\\begin{document}');
+    const preamble = (docStart === -1 ? tex : tex.substring(0, docStart))
+        .split('\n')
+        .map((line) => line.replace(/(^|[^\\])%.*$/, '$1'))
+        .join('\n');
+    if (LUALATEX_MARKERS.test(preamble)) return 'lualatex';
+    if (XELATEX_MARKERS.test(preamble)) return 'xelatex';
+    return 'pdflatex';
+}
+
+// Engine a choice stands for before there is a document: the choice, then LATEX_ENGINE, then
+// pdflatex, which detection picks for any preamble without unicode-engine packages
+export function plannedEngine(choice: EngineChoice = 'auto'): TexEngine {
+    const requested = choice !== 'auto' ? choice : getCompilerConfig().engine;
+    return requested === 'auto' ? 'pdflatex' : requested;
+}
+
+export function getCompilerConfig(): CompilerConfig {
+    return {
+        engine: parseEngine(process.env.LATEX_ENGINE),
+        maxPasses: Math.min(readInt(process.env.LATEX_MAX_PASSES, 3), 5),
+        latexmk: process.env.LATEX_USE_LATEXMK !== 'false',
+        timeoutMs: readInt(process.env.LATEX_TIMEOUT_MS, 60_000),
+        maxOutputBytes: readInt(process.env.LATEX_MAX_OUTPUT_BYTES, 20 * 1024 * 1024),
+        concurrency: readInt(process.env.LATEX_CONCURRENCY, 2),
+        queueLimit: readInt(process.env.LATEX_QUEUE_LIMIT, 20),
+        logDir: process.env.LATEX_LOG_DIR || path.join(os.tmpdir(), 'exam-generator-logs'),
+    };
+}
+
+// Pull the first real errors ("! ..." followed by "l.<n>") out of a pdflatex log
+export function parseLatexLog(log: string): LatexError[] {
+    const errors: LatexError[] = [];
+    const lines = log.split(/\r?\n/);
+
+    for (let i = 0; i < lines.length && errors.length < MAX_LOG_ERRORS; i++) {
+        if (!lines[i].startsWith('! ')) continue;
+
+        const message = lines[i].substring(2).trim();
+        let line: number | null = null;
+        // The offending source line is reported a few lines below the message
+        for (let j = i + 1; j < Math.min(lines.length, i + 20); j++) {
+            const lineMatch = lines[j].match(/^l\.(\d+)/);
+            if (lineMatch) {
+                line = parseInt(lineMatch[1], 10);
+                break;
+            }
+            if (lines[j].startsWith('! ')) break;
+        }
+
+        // Emergency stops and cascades repeat the first error; keep the cause only
+        if (errors.some((e) => e.message === message && e.line === line)) continue;
+        if (/^(Emergency stop|==> Fatal error occurred)/.test(message) && errors.length > 0) continue;
+
+        errors.push({ message, line });
+    }
+
+    return errors;
+}
+
+// Bounded FIFO queue: at most `concurrency` jobs run, at most `queueLimit` wait
+let running = 0;
+const waiting: Array<() => void> = [];
+
+async function acquireSlot(config: CompilerConfig, signal?: AbortSignal): Promise<'ok' | 'queue-full' | 'cancelled'> {
+    if (signal?.aborted) return 'cancelled';
+    if (running < config.concurrency) {
+        running++;
+        return 'ok';
+    }
+    if (waiting.length >= config.queueLimit) return 'queue-full';
+    return new Promise((resolve) => {
+        const take = () => {
+            signal?.removeEventListener('abort', leave);
+            resolve('ok');
+        };
+        // A cancelled job leaves the queue without taking a slot
+        const leave = () => {
+            waiting.splice(waiting.indexOf(take), 1);
+            resolve('cancelled');
+        };
+        waiting.push(take);
+        signal?.addEventListener('abort', leave, { once: true });
+    });
+}
+
+function releaseSlot() {
+    const next = waiting.shift();
+    // Hand the slot straight to the next job; otherwise free it
+    if (next) next();
+    else running--;
+}
+
+type RunResult = {
+    exitCode: number | null;
+    failure: 'missing-engine' | 'timeout' | 'output-limit' | 'cancelled' | null;
+    // Console output, only collected when asked for
+    stdout: string;
+};
+
+const MAX_CAPTURED_STDOUT = 1024 * 1024;
+
+// Runs one command in the job directory with the remaining time budget
+function run(
+    command: string,
+    args: string[],
+    dir: string,
+    deadline: number,
+    config: CompilerConfig,
+    { capture = false, signal }: { capture?: boolean; signal?: AbortSignal } = {}
+): Promise<RunResult> {
+    return new Promise((resolve) => {
+        const child = spawn(command, args, {
+            cwd: dir,
+            stdio: ['ignore', 'pipe', 'pipe'],
+            env: {
+                ...process.env,
+                PATH: [process.env.PATH, ...TEX_PATHS].filter(Boolean).join(path.delimiter),
+                // Only let TeX read and write below the job directory and the TeX tree: no
+                // absolute paths, no .., no dotfiles, so a document cannot \input the server's files
+                openin_any: 'p',
+                openout_any: 'p',
+            },
+        });
+
+        let failure: RunResult['failure'] = null;
+        let outputBytes = 0;
+        let stdout = '';
+        const stop = (reason: 'timeout' | 'output-limit' | 'cancelled') => {
+            if (failure) return;
+            failure = reason;
+            child.kill('SIGKILL');
+        };
+
+        const timer = setTimeout(() => stop('timeout'), Math.max(deadline - Date.now(), 0));
+        const cancel = () => stop('cancelled');
+        if (signal?.aborted) cancel();
+        signal?.addEventListener('abort', cancel, { once: true });
+        const count = (chunk: Buffer) => {
+            outputBytes += chunk.length;
+            if (outputBytes > config.maxOutputBytes) stop('output-limit');
+        };
+        child.stdout.on('data', (chunk: Buffer) => {
+            count(chunk);
+            if (capture && stdout.length < MAX_CAPTURED_STDOUT) stdout += chunk.toString('utf8');
+        });
+        child.stderr.on('data', count);
+
+        child.on('error', (error: NodeJS.ErrnoException) => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', cancel);
+            resolve({ exitCode: null, failure: error.code === 'ENOENT' ? 'missing-engine' : failure, stdout });
+        });
+        child.on('close', (code) => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', cancel);
+            resolve({ exitCode: code, failure, stdout });
+        });
+    });
+}
+
+// latexmk availability, checked once per process
+let latexmkAvailable: Promise<boolean> | null = null;
+
+function hasLatexmk(config: CompilerConfig): Promise<boolean> {
+    latexmkAvailable ??= run('latexmk', ['-v'], os.tmpdir(), Date.now() + 10_000, config)
+        .then((result) => result.exitCode === 0);
+    return latexmkAvailable;
+}
+
+const ENGINE_ARGS = ['-interaction=nonstopmode', '-no-shell-escape'];
+const LATEXMK_ENGINE_FLAGS: Record<TexEngine, string> = {
+    pdflatex: '-pdf',
+    xelatex: '-xelatex',
+    lualatex: '-lualatex',
+};
+
+// The log asks for another run, or references are still unresolved after the aux file changed
+const RERUN_PATTERN = /Rerun to get|Label\(s\) may have changed|Please rerun|rerunfilecheck Warning|Rerun LaTeX/;
+const UNDEFINED_REFERENCES = /There were undefined references|Reference `[^']*' on page \d+ undefined/;
+
+async function readIfExists(file: string) {
+    return fs.existsSync(file) ? fs.promises.readFile(file, 'utf8') : '';
+}
+
+type BuildResult = RunResult & { passes: number };
+
+// Repeats the engine until cross-references settle or maxPasses is reached
+async function buildWithPasses(engine: TexEngine, dir: string, deadline: number, config: CompilerConfig, signal?: AbortSignal): Promise<BuildResult> {
+    let previousAux = '';
+    let passes = 0;
+    while (true) {
+        const result = await run(engine, [...ENGINE_ARGS, '-output-directory', dir, 'main.tex'], dir, deadline, config, { signal });
+        passes++;
+        if (result.failure || result.exitCode !== 0 || passes >= config.maxPasses) return { ...result, passes };
+
+        const log = await readIfExists(path.join(dir, 'main.log'));
+        const aux = await readIfExists(path.join(dir, 'main.aux'));
+        const auxChanged = aux !== previousAux;
+        previousAux = aux;
+        if (!RERUN_PATTERN.test(log) && !(UNDEFINED_REFERENCES.test(log) && auxChanged)) return { ...result, passes };
+    }
+}
+
+async function buildWithLatexmk(engine: TexEngine, dir: string, deadline: number, config: CompilerConfig, signal?: AbortSignal): Promise<BuildResult> {
+    const result = await run('latexmk', [
+        '-norc',
+        LATEXMK_ENGINE_FLAGS[engine],
+        `-latexoption=${ENGINE_ARGS[1]}`,
+        ENGINE_ARGS[0],
+        `-output-directory=${dir}`,
+        'main.tex',
+    ], dir, deadline, config, { capture: true, signal });
+    // latexmk announces every engine run as "Run number N of rule '...'"
+    const runs = result.stdout.match(/Run number \d+ of rule '(?:pdf|xe|lua)?latex/g);
+    return { ...result, passes: runs ? runs.length : 1 };
+}
+
+// Keep the log of a failed job so it can still be inspected after cleanup. A log directory
+// that cannot be written only costs the copy.
+async function keepLog(logFile: string, name: string, config: CompilerConfig, log?: Logger): Promise<string | null> {
+    if (!fs.existsSync(logFile)) return null;
+    try {
+        await fs.promises.mkdir(config.logDir, { recursive: true });
+        const kept = path.join(config.logDir, `${name}-${Date.now()}.log`);
+        await fs.promises.copyFile(logFile, kept);
+
+        const logs = (await fs.promises.readdir(config.logDir)).filter((file) => file.endsWith('.log'));
+        if (logs.length > MAX_KEPT_LOGS) {
+            const stats = await Promise.all(logs.map(async (file) => ({
+                file,
+                mtime: (await fs.promises.stat(path.join(config.logDir, file))).mtimeMs,
+            })));
+            stats.sort((a, b) => a.mtime - b.mtime);
+            for (const { file } of stats.slice(0, logs.length - MAX_KEPT_LOGS)) {
+                await fs.promises.rm(path.join(config.logDir, file), { force: true });
+            }
+        }
+        return kept;
+    } catch (error) {
+        log?.warn('Could not keep the LaTeX log', { document: name, logDir: config.logDir, error });
+        return null;
+    }
+}
+
+const FAILURE_MESSAGES: Record<CompileFailure, string> = {
+    'missing-engine': 'the TeX engine is not installed',
+    'timeout': 'compilation timed out',
+    'output-limit': 'compilation produced too much output',
+    'queue-full': 'too many compilations in progress, try again shortly',
+    'cancelled': 'compilation cancelled',
+    'latex-error': 'LaTeX errors',
+};
+
+// Compile one document. Never throws for compile problems; the outcome says what went wrong.
+// Aborting the signal kills the engine, or takes the job out of the queue.
+export async function compileTex(tex: string, name: string, choice?: EngineChoice, log?: Logger, signal?: AbortSignal): Promise<CompileOutcome> {
+    const config = getCompilerConfig();
+    const startedAt = Date.now();
+    const requested = choice && choice !== 'auto' ? choice : config.engine;
+    const engine = requested === 'auto' ? detectEngine(tex) : requested;
+    const failed = (failure: CompileFailure, extra: Partial<CompileOutcome> = {}): CompileOutcome => ({
+        pdf: null,
+        engine,
+        passes: 0,
+        failure,
+        message: FAILURE_MESSAGES[failure],
+        errors: [],
+        logPath: null,
+        exitCode: null,
+        durationMs: Date.now() - startedAt,
+        ...extra,
+    });
+
+    const slot = await acquireSlot(config, signal);
+    if (slot !== 'ok') return failed(slot);
+
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), `${name}-`));
+    try {
+        await fs.promises.writeFile(path.join(dir, 'main.tex'), tex);
+        const deadline = Date.now() + config.timeoutMs;
+        const build = config.latexmk && await hasLatexmk(config)
+            ? await buildWithLatexmk(engine, dir, deadline, config, signal)
+            : await buildWithPasses(engine, dir, deadline, config, signal);
+        if (build.failure === 'missing-engine') {
+            return failed('missing-engine', { message: `${engine} is not installed` });
+        }
+        if (build.failure === 'cancelled') return failed('cancelled', { passes: build.passes });
+
+        const logFile = path.join(dir, 'main.log');
+        const pdfFile = path.join(dir, 'main.pdf');
+        const errors = fs.existsSync(logFile) ? parseLatexLog(await fs.promises.readFile(logFile, 'utf8')) : [];
+
+        const details = { errors, passes: build.passes, exitCode: build.exitCode };
+        if (build.failure) {
+            return failed(build.failure, { ...details, logPath: await keepLog(logFile, name, config, log) });
+        }
+        if (!fs.existsSync(pdfFile) || build.exitCode !== 0) {
+            return failed('latex-error', { ...details, logPath: await keepLog(logFile, name, config, log) });
+        }
+        if ((await fs.promises.stat(pdfFile)).size > config.maxOutputBytes) {
+            return failed('output-limit', details);
+        }
+
+        return {
+            pdf: await fs.promises.readFile(pdfFile),
+            engine,
+            passes: build.passes,
+            failure: null,
+            message: null,
+            errors,
+            logPath: null,
+            exitCode: build.exitCode,
+            durationMs: Date.now() - startedAt,
+        };
+    } finally {
+        await fs.promises.rm(dir, { recursive: true, force: true }).catch(() => {});
+        releaseSlot();
+    }
+}
@@ -0,0 +1,700 @@
+import katex from 'katex';
+import { escapeXml } from './markup';
+import { documentBody } from './utils';
+
+// Generated LaTeX to standalone HTML (KaTeX-rendered math) or Markdown ($...$ math), for
+// colleagues who edit exams outside LaTeX. The document body is parsed into a small tree of
+// blocks and inline nodes first, then rendered per format. Constructs without a
+// counterpart are kept verbatim and listed in the warnings instead of being dropped.
+
+export const DOCUMENT_FORMATS = ['html', 'markdown'] as const;
+export type DocumentFormat = typeof DOCUMENT_FORMATS[number];
+
+export type Conversion = {
+    content: string;
+    // One entry per kind of problem, with a count when it happened more than once
+    warnings: string[];
+};
+
+type Style = 'bold' | 'italic' | 'underline' | 'code';
+
+type Inline =
+    | { type: 'text'; value: string }
+    | { type: 'math'; tex: string; display: boolean }
+    | { type: 'style'; style: Style; children: Inline[] }
+    | { type: 'break' }
+    // Unsupported command, kept as written
+    | { type: 'raw'; value: string };
+
+type Cell = { content: Inline[]; span: number };
+
+type ListItem = { label: Inline[] | null; blocks: Block[] };
+
+type Block =
+    | { kind: 'heading'; level: number; content: Inline[] }
+    | { kind: 'paragraph'; content: Inline[] }
+    | { kind: 'list'; ordered: boolean; items: ListItem[] }
+    | { kind: 'table'; rows: Cell[][] }
+    | { kind: 'math'; tex: string }
+    | { kind: 'center'; blocks: Block[] }
+    | { kind: 'code'; text: string };
+
+type Context = {
+    warnings: Map<string, number>;
+    // \title from the preamble, printed by \maketitle
+    title: string | null;
+};
+
+const warn = (ctx: Context, message: string) => ctx.warnings.set(message, (ctx.warnings.get(message) ?? 0) + 1);
+
+// ---- Scanning helpers ----
+
+// Balanced {...} or [...] starting exactly at pos
+function readGroup(src: string, pos: number, open: '{' | '['): { content: string; end: number } | null {
+    if (src[pos] !== open) return null;
+    let depth = 0;
+    for (let i = pos + 1; i < src.length; i++) {
+        const c = src[i];
+        if (c === '\\') {
+            i++;
+        } else if (c === '{') {
+            depth++;
+        } else if (c === '}') {
+            if (depth === 0) return open === '{' ? { content: src.substring(pos + 1, i), end: i + 1 } : null;
+            depth--;
+        } else if (open === '[' && c === ']' && depth === 0) {
+            return { content: src.substring(pos + 1, i), end: i + 1 };
+        }
+    }
+    return null;
+}
+
+// Optional and required arguments directly after a command, as written
+function readArgs(src: string, pos: number) {
+    let end = pos;
+    const args: string[] = [];
+    for (let group = readGroup(src, end, '[') ?? readGroup(src, end, '{'); group; group = readGroup(src, end, '[') ?? readGroup(src, end, '{')) {
+        args.push(group.content);
+        end = group.end;
+    }
+    return { args, end };
+}
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matching \end{name}, skipping nested environments of the same name
+function findEnd(src: string, name: string, from: number): { bodyEnd: number; end: number } | null {
+    const pattern = new RegExp(`\\\\(begin|end)\\{${escapeRegex(name)}\\}`, 'g');
+    pattern.lastIndex = from;
+    let depth = 0;
+    for (let match = pattern.exec(src); match; match = pattern.exec(src)) {
+        if (match[1] === 'begin') depth++;
+        else if (depth === 0) return { bodyEnd: match.index, end: match.index + match[0].length };
+        else depth--;
+    }
+    return null;
+}
+
+// Closing delimiter of inline math; an unescaped $ or the literal closer
+function findMathEnd(src: string, from: number, close: string): number {
+    if (close !== '$') return src.indexOf(close, from);
+    for (let i = from; i < src.length; i++) {
+        if (src[i] === '\\') i++;
+        else if (src[i] === '$') return i;
+    }
+    return -1;
+}
+
+// Splits on a separator outside braces and nested environments (\item, \\, &)
+function splitTopLevel(src: string, separator: RegExp): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let envDepth = 0;
+    let start = 0;
+    for (let i = 0; i < src.length; i++) {
+        if (depth === 0 && envDepth === 0) {
+            separator.lastIndex = i;
+            const match = separator.exec(src);
+            if (match) {
+                parts.push(src.substring(start, i));
+                i += match[0].length - 1;
+                start = i + 1;
+                continue;
+            }
+        }
+        const c = src[i];
+        if (c === '\\') {
+            if (src.startsWith('\\begin{', i)) envDepth++;
+            else if (src.startsWith('\\end{', i)) envDepth--;
+            i++;
+        } else if (c === '{') {
+            depth++;
+        } else if (c === '}') {
+            depth--;
+        }
+    }
+    parts.push(src.substring(start));
+    return parts;
+}
+
+// Drops % comments, keeping escaped \%
+const stripComments = (tex: string) => tex.split('\n').map((line) => line.replace(/(^|[^\\])((?:\\\\)*)%.*$/, '$1$2')).join('\n');
+
+// ---- Inline parsing ----
+
+const STYLE_COMMANDS: Record<string, Style> = {
+    textbf: 'bold',
+    textit: 'italic',
+    textsl: 'italic',
+    emph: 'italic',
+    underline: 'underline',
+    texttt: 'code',
+};
+
+// Declarations that restyle the rest of their group, e.g. {\bfseries ...}
+const STYLE_SWITCHES: Record<string, Style> = {
+    bfseries: 'bold',
+    bf: 'bold',
+    itshape: 'italic',
+    slshape: 'italic',
+    it: 'italic',
+    em: 'italic',
+    ttfamily: 'code',
+    tt: 'code',
+};
+
+// Wrappers whose argument is plain text here
+const PLAIN_COMMANDS = new Set(['text', 'textrm', 'textnormal', 'textsf', 'textsc', 'textup', 'textmd', 'mbox', 'caption']);
+
+const SYMBOLS: Record<string, string> = {
+    ldots: '…',
+    dots: '…',
+    textellipsis: '…',
+    LaTeX: 'LaTeX',
+    TeX: 'TeX',
+    hfill: ' ',
+    hfil: ' ',
+    quad: '\u2003',
+    qquad: '\u2003\u2003',
+    textbackslash: '\\',
+    textasciitilde: '~',
+    textbar: '|',
+    S: '§',
+    P: '¶',
+    copyright: '©',
+    textdegree: '°',
+    pounds: '£',
+    euro: '€',
+    checkmark: '✓',
+};
+
+// Layout-only: no output, no warning. Values are how many arguments to skip.
+const LAYOUT_COMMANDS: Record<string, number> = {
+    noindent: 0, indent: 0, medskip: 0, smallskip: 0, bigskip: 0, vfill: 0, centering: 0,
+    raggedright: 0, raggedleft: 0, tiny: 0, scriptsize: 0, footnotesize: 0, small: 0,
+    normalsize: 0, large: 0, Large: 0, LARGE: 0, huge: 0, Huge: 0, normalfont: 0,
+    rmfamily: 0, sffamily: 0, mdseries: 0, upshape: 0, protect: 0, relax: 0, nobreak: 0,
+    displaystyle: 0, strut: 0, vspace: 1, hspace: 1, label: 1, thispagestyle: 1,
+    pagestyle: 1, setlength: 2, setcounter: 2, addtocounter: 2,
+};
+
+// Accent commands (\'e, \"{o}) as combining characters
+const ACCENTS: Record<string, string> = { "'": '\u0301', '`': '\u0300', '^': '\u0302', '"': '\u0308', '~': '\u0303', '=': '\u0304', '.': '\u0307' };
+
+function parseInline(src: string, ctx: Context): Inline[] {
+    const nodes: Inline[] = [];
+    let text = '';
+    const flushText = () => {
+        if (text) nodes.push({ type: 'text', value: text });
+        text = '';
+    };
+    const pushNode = (node: Inline) => {
+        flushText();
+        nodes.push(node);
+    };
+    // Control words swallow the spaces after them, as in TeX
+    const skipSpaces = (pos: number) => {
+        while (pos < src.length && /[ \t\n]/.test(src[pos])) pos++;
+        return pos;
+    };
+
+    let i = 0;
+    while (i < src.length) {
+        const c = src[i];
+
+        // Math: $$..$$, \[..\], $..$, \(..\)
+        const display = src.startsWith('$$', i) ? '$$' : src.startsWith('\\[', i) ? '\\]' : null;
+        const inline = display ? null : c === '$' ? '$' : src.startsWith('\\(', i) ? '\\)' : null;
+        if (display || inline) {
+            const close = (display ?? inline) as string;
+            const from = i + (close === '$' ? 1 : 2);
+            const end = findMathEnd(src, from, close);
+            if (end === -1) {
+                warn(ctx, 'Unclosed math kept as text');
+                text += src.substring(i);
+                break;
+            }
+            pushNode({ type: 'math', tex: src.substring(from, end).trim(), display: !!display });
+            i = end + close.length;
+            continue;
+        }
+
+        if (c === '\\') {
+            const word = /^[a-zA-Z]+\*?/.exec(src.substring(i + 1, i + 40));
+            if (!word) {
+                const next = src[i + 1] ?? '';
+                if (next === '\\') {
+                    // Line break, with an optional [length]
+                    pushNode({ type: 'break' });
+                    i = skipSpaces(readGroup(src, i + 2, '[')?.end ?? i + 2);
+                } else if (ACCENTS[next]) {
+                    const group = readGroup(src, i + 2, '{');
+                    const base = group ? group.content : src[i + 2] ?? '';
+                    text += `${base}${ACCENTS[next]}`.normalize('NFC');
+                    i = group ? group.end : i + 3;
+                } else {
+                    // \, \; \: \! and \  are spaces; \% \& \$ \# \_ \{ \} the characters themselves
+                    text += /[,;:! ]/.test(next) ? ' ' : next === '-' ? '' : next;
+                    i += 2;
+                }
+                continue;
+            }
+
+            const name = word[0].replace(/\*$/, '');
+            let pos = i + 1 + word[0].length;
+
+            if (STYLE_COMMANDS[name] || PLAIN_COMMANDS.has(name)) {
+                const group = readGroup(src, skipSpaces(pos), '{');
+                if (group) {
+                    const children = parseInline(group.content, ctx);
+                    if (STYLE_COMMANDS[name]) pushNode({ type: 'style', style: STYLE_COMMANDS[name], children });
+                    else children.forEach(pushNode);
+                    i = group.end;
+                    continue;
+                }
+            } else if (STYLE_SWITCHES[name]) {
+                pushNode({ type: 'style', style: STYLE_SWITCHES[name], children: parseInline(src.substring(skipSpaces(pos)), ctx) });
+                break;
+            } else if (name in SYMBOLS) {
+                text += SYMBOLS[name];
+                i = skipSpaces(pos);
+                if (src.startsWith('{}', i)) i += 2;
+                continue;
+            } else if (name === 'newline' || name === 'linebreak') {
+                pushNode({ type: 'break' });
+                i = skipSpaces(pos);
+                continue;
+            } else if (name in LAYOUT_COMMANDS) {
+                pos = readGroup(src, pos, '[')?.end ?? pos;
+                for (let n = 0; n < LAYOUT_COMMANDS[name]; n++) pos = readGroup(src, skipSpaces(pos), '{')?.end ?? pos;
+                i = LAYOUT_COMMANDS[name] === 0 ? skipSpaces(pos) : pos;
+                continue;
+            }
+
+            const { end } = readArgs(src, pos);
+            warn(ctx, `Unsupported command \\${name} kept as LaTeX`);
+            pushNode({ type: 'raw', value: src.substring(i, end) });
+            i = end;
+            continue;
+        }
+
+        if (c === '{') {
+            const group = readGroup(src, i, '{');
+            if (group) {
+                parseInline(group.content, ctx).forEach(pushNode);
+                i = group.end;
+                continue;
+            }
+        }
+
+        if (c === '}') {
+            i++;
+        } else if (src.startsWith('---', i)) {
+            text += '—';
+            i += 3;
+        } else if (src.startsWith('--', i)) {
+            text += '–';
+            i += 2;
+        } else if (src.startsWith('``', i)) {
+            text += '“';
+            i += 2;
+        } else if (src.startsWith("''", i)) {
+            text += '”';
+            i += 2;
+        } else if (c === '~') {
+            // Non-breaking space
+            text += '\u00a0';
+            i++;
+        } else if (/\s/.test(c)) {
+            if (!text.endsWith(' ')) text += ' ';
+            i++;
+        } else {
+            text += c;
+            i++;
+        }
+    }
+    flushText();
+    return nodes;
+}
+
+// ---- Block parsing ----
+
+const LIST_ENVIRONMENTS = new Set(['itemize', 'enumerate', 'description']);
+const TABLE_ENVIRONMENTS = new Set(['tabular', 'tabular*', 'tabularx', 'longtable']);
+const MATH_ENVIRONMENTS = new Set([
+    'equation', 'equation*', 'align', 'align*', 'gather', 'gather*', 'multline', 'multline*',
+    'flalign', 'flalign*', 'alignat', 'alignat*', 'eqnarray', 'eqnarray*', 'displaymath', 'math',
+]);
+// Wrappers whose content is converted as if they were not there (minipage wraps every MCQ)
+const TRANSPARENT_ENVIRONMENTS = new Set([
+    'minipage', 'samepage', 'flushleft', 'flushright', 'quote', 'quotation', 'multicols',
+    'multicols*', 'table', 'table*', 'figure', 'figure*', 'document',
+]);
+const CODE_ENVIRONMENTS = new Set(['verbatim', 'verbatim*', 'lstlisting', 'minted']);
+// Drawings have no text to salvage; they are kept whole as a LaTeX code block
+const GRAPHIC_ENVIRONMENTS = new Set(['tikzpicture', 'circuitikz', 'pspicture', 'picture', 'axis']);
+
+// Required arguments after \begin{name} (an optional [..] is always skipped)
+const ENVIRONMENT_ARGS: Record<string, number> = {
+    'minipage': 1, 'tabular': 1, 'tabular*': 2, 'tabularx': 2, 'longtable': 1, 'multicols': 1, 'multicols*': 1, 'minted': 1,
+};
+
+const SECTION_LEVELS: Record<string, number> = { section: 2, subsection: 3, subsubsection: 4, paragraph: 5 };
+
+function skipEnvironmentArgs(name: string, body: string): string {
+    let pos = readGroup(body, 0, '[')?.end ?? 0;
+    for (let n = 0; n < (ENVIRONMENT_ARGS[name] ?? 0); n++) {
+        const start = body.substring(pos).search(/\S/);
+        const group = start === -1 ? null : readGroup(body, pos + start, '{');
+        if (!group) break;
+        pos = group.end;
+    }
+    return body.substring(pos);
+}
+
+const RULE_COMMANDS = /\\(?:hline|toprule|midrule|bottomrule|endhead|endfirsthead|endfoot|endlastfoot)\b|\\c(?:mid)?rule(?:\([^)]*\))?\{[^}]*\}/g;
+
+function parseTable(body: string, ctx: Context): Block {
+    const rows = splitTopLevel(body.replace(RULE_COMMANDS, ''), /\\\\(?:\[[^\]]*\])?/y)
+        .filter((row) => row.trim())
+        .map((row) => splitTopLevel(row, /&/y).map((cell): Cell => {
+            const trimmed = cell.trim();
+            const multi = /^\\multicolumn\s*\{(\d+)\}/.exec(trimmed);
+            if (multi) {
+                // \multicolumn{n}{spec}{content}
+                const { args } = readArgs(trimmed, multi[0].length);
+                return { content: parseInline(args[1] ?? '', ctx), span: parseInt(multi[1], 10) };
+            }
+            return { content: parseInline(trimmed, ctx), span: 1 };
+        }));
+    return { kind: 'table', rows };
+}
+
+function parseList(name: string, body: string, ctx: Context): Block[] {
+    const [before, ...parts] = splitTopLevel(body, /\\item(?![a-zA-Z])/y);
+    const blocks = before.trim() ? parseBlocks(before, ctx) : [];
+    const items = parts.map((part): ListItem => {
+        const label = readGroup(part, part.search(/\S|$/), '[');
+        const content = label ? part.substring(label.end) : part;
+        return { label: label ? parseInline(label.content, ctx) : null, blocks: parseBlocks(content, ctx) };
+    });
+    return [...blocks, { kind: 'list', ordered: name === 'enumerate', items }];
+}
+
+function parseEnvironment(name: string, raw: string, ctx: Context): Block[] {
+    if (MATH_ENVIRONMENTS.has(name)) {
+        const tex = name === 'displaymath' || name === 'math' ? raw.trim() : `\\begin{${name}}${raw}\\end{${name}}`;
+        // Labels only matter for \ref, which is not converted
+        return [{ kind: 'math', tex: tex.replace(/\\label\{[^}]*\}\s*/g, '') }];
+    }
+    if (GRAPHIC_ENVIRONMENTS.has(name)) {
+        warn(ctx, `Unsupported environment "${name}" kept as LaTeX`);
+        return [{ kind: 'code', text: `\\begin{${name}}${raw}\\end{${name}}` }];
+    }
+    if (CODE_ENVIRONMENTS.has(name)) {
+        return [{ kind: 'code', text: skipEnvironmentArgs(name, raw).replace(/^\n|\n\s*$/g, '') }];
+    }
+
+    const body = skipEnvironmentArgs(name, raw);
+    if (LIST_ENVIRONMENTS.has(name)) return parseList(name, body, ctx);
+    if (TABLE_ENVIRONMENTS.has(name)) return [parseTable(body, ctx)];
+    if (name === 'center') return [{ kind: 'center', blocks: parseBlocks(body, ctx) }];
+    if (!TRANSPARENT_ENVIRONMENTS.has(name)) warn(ctx, `Unsupported environment "${name}": content kept without its formatting`);
+    return parseBlocks(body, ctx);
+}
+
+function parseBlocks(src: string, ctx: Context): Block[] {
+    const blocks: Block[] = [];
+    let paragraph = '';
+    const flush = () => {
+        const content = parseInline(paragraph.trim(), ctx);
+        if (content.some((node) => node.type !== 'text' || node.value.trim())) blocks.push({ kind: 'paragraph', content });
+        paragraph = '';
+    };
+
+    let i = 0;
+    while (i < src.length) {
+        const c = src[i];
+
+        // Inline math goes to the paragraph untouched, whatever it contains
+        const inlineClose = c === '$' && src[i + 1] !== '$' ? '$' : src.startsWith('\\(', i) ? '\\)' : null;
+        if (inlineClose) {
+            const from = i + (inlineClose === '$' ? 1 : 2);
+            const end = findMathEnd(src, from, inlineClose);
+            const stop = end === -1 ? src.length : end + inlineClose.length;
+            paragraph += src.substring(i, stop);
+            i = stop;
+            continue;
+        }
+
+        // Display math is a block of its own
+        const displayClose = src.startsWith('$$', i) ? '$$' : src.startsWith('\\[', i) ? '\\]' : null;
+        if (displayClose) {
+            const end = src.indexOf(displayClose, i + 2);
+            flush();
+            if (end === -1) {
+                warn(ctx, 'Unclosed display math kept as text');
+                paragraph = src.substring(i);
+                break;
+            }
+            blocks.push({ kind: 'math', tex: src.substring(i + 2, end).trim() });
+            i = end + 2;
+            continue;
+        }
+
+        // Blank line: paragraph break
+        if (c === '\n') {
+            const blank = /\n[ \t]*\n\s*/y;
+            blank.lastIndex = i;
+            if (blank.exec(src)) {
+                flush();
+                i = blank.lastIndex;
+                continue;
+            }
+        }
+
+        if (c === '\\') {
+            const word = /^[a-zA-Z]+\*?/.exec(src.substring(i + 1, i + 40));
+            if (!word) {
+                // Escaped character or \\, left for the inline parser
+                paragraph += src.substring(i, i + 2);
+                i += 2;
+                continue;
+            }
+            const name = word[0].replace(/\*$/, '');
+            const after = i + 1 + word[0].length;
+
+            if (name === 'begin') {
+                const env = readGroup(src, after, '{');
+                if (env) {
+                    flush();
+                    const found = findEnd(src, env.content, env.end);
+                    if (!found) warn(ctx, `Environment "${env.content}" is never closed`);
+                    blocks.push(...parseEnvironment(env.content, src.substring(env.end, found ? found.bodyEnd : src.length), ctx));
+                    i = found ? found.end : src.length;
+                    continue;
+                }
+            } else if (name in SECTION_LEVELS) {
+                const title = readGroup(src, readGroup(src, after, '[')?.end ?? after, '{');
+                if (title) {
+                    flush();
+                    blocks.push({ kind: 'heading', level: SECTION_LEVELS[name], content: parseInline(title.content, ctx) });
+                    i = title.end;
+                    continue;
+                }
+            } else if (name === 'maketitle') {
+                flush();
+                if (ctx.title) blocks.push({ kind: 'heading', level: 1, content: parseInline(ctx.title, ctx) });
+                else warn(ctx, '\\maketitle without a \\title');
+                i = after;
+                continue;
+            } else if (['par', 'newpage', 'clearpage', 'pagebreak'].includes(name)) {
+                flush();
+                i = after;
+                continue;
+            } else if (name === 'item') {
+                warn(ctx, '\\item outside a list');
+                flush();
+                i = readGroup(src, after, '[')?.end ?? after;
+                continue;
+            }
+            paragraph += src.substring(i, after);
+            i = after;
+            continue;
+        }
+
+        paragraph += c;
+        i++;
+    }
+    flush();
+    return blocks;
+}
+
+// ---- HTML ----
+
+function renderMath(tex: string, display: boolean, ctx: Context): string {
+    try {
+        return katex.renderToString(tex, { displayMode: display, throwOnError: true, strict: 'ignore' });
+    } catch (error) {
+        warn(ctx, `Math KaTeX cannot render, kept as TeX: ${(error as Error).message.split('\n')[0]}`);
+        return `<code class="latex-unsupported">${escapeXml(display ? `\\[${tex}\\]` : `\\(${tex}\\)`)}</code>`;
+    }
+}
+
+const HTML_TAGS: Record<Style, string> = { bold: 'strong', italic: 'em', underline: 'u', code: 'code' };
+
+function inlineHtml(nodes: Inline[], ctx: Context): string {
+    return nodes.map((node) => {
+        switch (node.type) {
+            case 'text': return escapeXml(node.value);
+            case 'math': return renderMath(node.tex, node.display, ctx);
+            case 'style': return `<${HTML_TAGS[node.style]}>${inlineHtml(node.children, ctx)}</${HTML_TAGS[node.style]}>`;
+            case 'break': return '<br>';
+            case 'raw': return `<code class="latex-unsupported">${escapeXml(node.value)}</code>`;
+        }
+    }).join('');
+}
+
+function blocksHtml(blocks: Block[], ctx: Context): string {
+    return blocks.map((block) => {
+        switch (block.kind) {
+            case 'heading': return `<h${block.level}>${inlineHtml(block.content, ctx)}</h${block.level}>`;
+            case 'paragraph': return `<p>${inlineHtml(block.content, ctx).trim()}</p>`;
+            case 'math': return `<div class="math-display">${renderMath(block.tex, true, ctx)}</div>`;
+            case 'center': return `<div class="center">\n${blocksHtml(block.blocks, ctx)}\n</div>`;
+            case 'code': return `<pre>${escapeXml(block.text)}</pre>`;
+            case 'table': {
+                const rows = block.rows.map((row) => `<tr>${row.map((cell) => `<td${cell.span > 1 ? ` colspan="${cell.span}"` : ''}>${inlineHtml(cell.content, ctx).trim()}</td>`).join('')}</tr>`);
+                return `<table>\n${rows.join('\n')}\n</table>`;
+            }
+            case 'list': {
+                // Explicit labels ((a), (A), ...) replace the list's own numbering
+                const labelled = block.items.some((item) => item.label);
+                const tag = block.ordered && !labelled ? 'ol' : 'ul';
+                const items = block.items.map((item) => {
+                    const label = item.label ? `<span class="item-label">${inlineHtml(item.label, ctx)}</span> ` : '';
+                    return `<li>${label}${blocksHtml(item.blocks, ctx)}</li>`;
+                });
+                return `<${tag}${labelled ? ' class="labelled"' : ''}>\n${items.join('\n')}\n</${tag}>`;
+            }
+        }
+    }).join('\n');
+}
+
+const PAGE_STYLE = `body { max-width: 50rem; margin: 2rem auto; padding: 0 1rem; font-family: Georgia, "Times New Roman", serif; line-height: 1.55; color: #18181b; }
+li { margin: 0.5rem 0; }
+li > p:first-of-type { display: inline; }
+ul.labelled { list-style: none; padding-left: 1.5rem; }
+.item-label { font-weight: 600; }
+.center { text-align: center; }
+.math-display { overflow-x: auto; }
+table { border-collapse: collapse; margin: 1rem 0; }
+td { border: 1px solid #d4d4d8; padding: 0.25rem 0.6rem; }
+.latex-unsupported { color: #b45309; }`;
+
+function renderHtml(blocks: Block[], title: string, ctx: Context): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/katex@${katex.version}/dist/katex.min.css">
+<style>
+${PAGE_STYLE}
+</style>
+</head>
+<body>
+${blocksHtml(blocks, ctx)}
+</body>
+</html>
+`;
+}
+
+// ---- Markdown ----
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_<>#|$])/g, '\\$1');
+
+function inlineMarkdown(nodes: Inline[], inTable = false): string {
+    return nodes.map((node) => {
+        switch (node.type) {
+            case 'text': return escapeMarkdown(node.value);
+            case 'math': return node.display ? `$$${node.tex}$$` : `$${node.tex}$`;
+            case 'break': return inTable ? '<br>' : '\\\n';
+            case 'raw': return `\`${node.value}\``;
+            case 'style': {
+                if (node.style === 'code') return `\`${plainText(node.children)}\``;
+                const inner = inlineMarkdown(node.children, inTable);
+                if (!inner.trim()) return inner;
+                return node.style === 'bold' ? `**${inner}**` : node.style === 'italic' ? `*${inner}*` : `<u>${inner}</u>`;
+            }
+        }
+    }).join('');
+}
+
+function plainText(nodes: Inline[]): string {
+    return nodes.map((node) => (
+        node.type === 'text' || node.type === 'raw' ? node.value
+            : node.type === 'math' ? `$${node.tex}$`
+                : node.type === 'style' ? plainText(node.children)
+                    : ' '
+    )).join('');
+}
+
+const indent = (text: string, width: number) => text.split('\n').map((line, i) => (i === 0 || !line ? line : `${' '.repeat(width)}${line}`)).join('\n');
+
+function blocksMarkdown(blocks: Block[], ctx: Context): string {
+    return blocks.map((block) => {
+        switch (block.kind) {
+            case 'heading': return `${'#'.repeat(block.level)} ${inlineMarkdown(block.content).trim()}`;
+            case 'paragraph': return inlineMarkdown(block.content).trim();
+            case 'math': return `$$\n${block.tex}\n$$`;
+            case 'center': return blocksMarkdown(block.blocks, ctx);
+            case 'code': return `\`\`\`\n${block.text}\n\`\`\``;
+            case 'table': {
+                if (block.rows.length === 0) return '';
+                // Markdown has no merged cells: pad spans with empty cells
+                const columns = Math.max(...block.rows.map((row) => row.reduce((sum, cell) => sum + cell.span, 0)));
+                if (block.rows.some((row) => row.some((cell) => cell.span > 1))) warn(ctx, 'Merged table cells split in Markdown');
+                const lines = block.rows.map((row) => {
+                    const cells = row.flatMap((cell) => [inlineMarkdown(cell.content, true).trim(), ...Array(cell.span - 1).fill('')]);
+                    while (cells.length < columns) cells.push('');
+                    return `| ${cells.join(' | ')} |`;
+                });
+                lines.splice(1, 0, `|${' --- |'.repeat(columns)}`);
+                return lines.join('\n');
+            }
+            case 'list': {
+                return block.items.map((item, n) => {
+                    const marker = item.label ? '-' : block.ordered ? `${n + 1}.` : '-';
+                    const label = item.label ? `**${inlineMarkdown(item.label).trim()}** ` : '';
+                    return `${marker} ${indent(`${label}${blocksMarkdown(item.blocks, ctx)}`, marker.length + 1)}`;
+                }).join('\n');
+            }
+        }
+    }).join('\n\n');
+}
+
+// Converts a full generated document (or just its body) to the given format
+export function convertTex(tex: string, format: DocumentFormat, title: string): Conversion {
+    const source = stripComments(tex);
+    const docStart = source.indexOf('\\begin{document}');
+    const preamble = docStart === -1 ? '' : source.substring(0, docStart);
+    const titleMatch = /\\title\s*\{/.exec(preamble);
+    const ctx: Context = {
+        warnings: new Map(),
+        title: titleMatch ? readGroup(preamble, titleMatch.index + titleMatch[0].length - 1, '{')?.content ?? null : null,
+    };
+
+    const blocks = parseBlocks(documentBody(source), ctx);
+    const content = format === 'html' ? renderHtml(blocks, title, ctx) : `${blocksMarkdown(blocks, ctx)}\n`;
+    const warnings = [...ctx.warnings].map(([message, count]) => (count > 1 ? `${message} (${count}×)` : message));
+    return { content, warnings };
+}
+
+// A single fragment (stem, choice, worked answer) as HTML for display inside the app.
+// Problems render inline as TeX, so warnings are not collected.
+export function renderFragmentHtml(tex: string): string {
+    const ctx: Context = { warnings: new Map(), title: null };
+    return blocksHtml(parseBlocks(stripComments(tex), ctx), ctx);
+}
@@ -0,0 +1,250 @@
+// Structured exam model. The generation step returns an ExamDocument as JSON,
+// validated here, and lib/render.ts turns it into the final LaTeX.
+
+export const QUESTION_TYPES = ['mcq', 'short-answer', 'long-answer'] as const;
+export type QuestionType = typeof QUESTION_TYPES[number];
+
+export type Choice = {
+    label: string;
+    text: string;
+    correct: boolean;
+};
+
+export type QuestionPart = {
+    label: string;
+    text: string;
+    marks: number;
+    // Worked solution for this part (LaTeX)
+    answer: string;
+    // Set when the part's result is a single number
+    numericAnswer?: NumericAnswer | null;
+};
+
+// Exact result of a single-value question or part, used for auto-grading (LMS exports, practice mode)
+export type NumericAnswer = {
+    value: number;
+    // Absolute tolerance accepted around value
+    tolerance: number;
+};
+
+export type Question = {
+    id: string;
+    type: QuestionType;
+    topic: string;
+    // LaTeX body; no \item, numbering comes from the renderer
+    stem: string;
+    parts: QuestionPart[];
+    // MCQ options, empty for other types
+    choices: Choice[];
+    marks: number;
+    // Worked solution for the whole question (LaTeX), may be empty when every part has one
+    answer: string;
+    // Only for short-answer questions without parts whose result is a single number
+    numericAnswer?: NumericAnswer | null;
+    // Set by the user; locked questions survive regeneration verbatim (never asked of the model)
+    locked?: boolean;
+};
+
+export type ExamDocument = {
+    // Everything before \begin{document}, mimicking the source style
+    preamble: string;
+    // Title block and instructions printed before the first question (LaTeX)
+    header: string;
+    questions: Question[];
+    // Source question inventory, reused as the blueprint on regeneration
+    sourceQuestionTypes: string[];
+    // Set server-side from the exam options (not by the model), printed on the cover
+    timeLimitMinutes?: number | null;
+    // Version label ("A", "B", ...) when generated as one of several parallel versions; set server-side
+    version?: string | null;
+};
+
+// JSON Schemas handed to providers that support constrained output
+const NUMERIC_ANSWER_SCHEMA = {
+    type: 'object',
+    description: 'Only when the final result is a single number',
+    properties: {
+        value: { type: 'number' },
+        tolerance: { type: 'number', description: 'Absolute tolerance, e.g. 0.01' },
+    },
+    required: ['value', 'tolerance'],
+};
+
+export const QUESTION_SCHEMA = {
+    type: 'object',
+    properties: {
+        id: { type: 'string', description: 'Stable id: q1, q2, ...' },
+        type: { type: 'string', enum: [...QUESTION_TYPES] },
+        topic: { type: 'string' },
+        stem: { type: 'string', description: 'Question text in LaTeX, without \\item' },
+        parts: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    label: { type: 'string', description: 'a, b, c, ...' },
+                    text: { type: 'string' },
+                    marks: { type: 'number' },
+                    answer: { type: 'string', description: 'Full worked solution in LaTeX' },
+                    numericAnswer: NUMERIC_ANSWER_SCHEMA,
+                },
+                required: ['label', 'text', 'marks', 'answer'],
+            },
+        },
+        choices: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    label: { type: 'string', description: 'A, B, C, ...' },
+                    text: { type: 'string' },
+                    correct: { type: 'boolean' },
+                },
+                required: ['label', 'text', 'correct'],
+            },
+        },
+        marks: { type: 'number' },
+        answer: { type: 'string', description: 'Full worked solution in LaTeX' },
+        numericAnswer: { ...NUMERIC_ANSWER_SCHEMA, description: 'Only for short-answer questions without parts whose final result is a single number' },
+    },
+    required: ['id', 'type', 'topic', 'stem', 'parts', 'choices', 'marks', 'answer'],
+};
+
+export const EXAM_DOCUMENT_SCHEMA = {
+    type: 'object',
+    properties: {
+        preamble: { type: 'string', description: 'LaTeX from \\documentclass up to (not including) \\begin{document}' },
+        header: { type: 'string', description: 'LaTeX title block and instructions before the first question' },
+        questions: {
+            type: 'array',
+            items: QUESTION_SCHEMA,
+        },
+        sourceQuestionTypes: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['preamble', 'header', 'questions', 'sourceQuestionTypes'],
+};
+
+export class ExamValidationError extends Error {
+    constructor(public issues: string[], subject = 'exam') {
+        super(`Model returned an invalid ${subject}: ${issues.slice(0, 5).join('; ')}${issues.length > 5 ? ` (+${issues.length - 5} more)` : ''}`);
+        this.name = 'ExamValidationError';
+    }
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value) && value >= 0;
+
+function validateQuestion(value: unknown, path: string, issues: string[]) {
+    if (typeof value !== 'object' || value === null) {
+        issues.push(`${path} is not an object`);
+        return;
+    }
+    const q = value as Record<string, unknown>;
+    for (const key of ['id', 'topic', 'stem', 'answer']) {
+        if (!isString(q[key])) issues.push(`${path}.${key} must be a string`);
+    }
+    if (!QUESTION_TYPES.includes(q.type as QuestionType)) {
+        issues.push(`${path}.type must be one of ${QUESTION_TYPES.join(', ')}`);
+    }
+    if (!isNumber(q.marks)) issues.push(`${path}.marks must be a non-negative number`);
+
+    if (!Array.isArray(q.parts)) {
+        issues.push(`${path}.parts must be an array`);
+    } else {
+        q.parts.forEach((part, i) => {
+            const p = part as Record<string, unknown>;
+            if (!isString(p?.label) || !isString(p?.text) || !isString(p?.answer) || !isNumber(p?.marks)) {
+                issues.push(`${path}.parts[${i}] needs label, text, answer and marks`);
+            }
+            validateNumericAnswer(p?.numericAnswer, `${path}.parts[${i}]`, issues);
+        });
+    }
+
+    if (!Array.isArray(q.choices)) {
+        issues.push(`${path}.choices must be an array`);
+    } else {
+        q.choices.forEach((choice, i) => {
+            const c = choice as Record<string, unknown>;
+            if (!isString(c?.label) || !isString(c?.text) || typeof c?.correct !== 'boolean') {
+                issues.push(`${path}.choices[${i}] needs label, text and correct`);
+            }
+        });
+        if (q.type === 'mcq') {
+            const correct = q.choices.filter((c) => (c as Choice)?.correct === true).length;
+            if (q.choices.length < 2) issues.push(`${path} is an MCQ with fewer than 2 choices`);
+            if (correct !== 1) issues.push(`${path} is an MCQ with ${correct} correct choices (expected 1)`);
+        }
+    }
+
+    validateNumericAnswer(q.numericAnswer, path, issues);
+    if (q.numericAnswer && (q.type === 'mcq' || (Array.isArray(q.parts) && q.parts.length > 0))) {
+        issues.push(`${path}.numericAnswer is only allowed on questions without choices or parts`);
+    }
+}
+
+function validateNumericAnswer(value: unknown, path: string, issues: string[]) {
+    if (value === undefined || value === null) return;
+    const n = value as Record<string, unknown>;
+    if (typeof n.value !== 'number' || !isFinite(n.value) || !isNumber(n.tolerance)) {
+        issues.push(`${path}.numericAnswer needs a finite value and a non-negative tolerance`);
+    }
+}
+
+export function validateExamDocument(value: unknown): ExamDocument {
+    const issues: string[] = [];
+    if (typeof value !== 'object' || value === null) {
+        throw new ExamValidationError(['response is not a JSON object']);
+    }
+    const doc = value as Record<string, unknown>;
+
+    if (!isString(doc.preamble)) issues.push('preamble must be a string');
+    if (!isString(doc.header)) issues.push('header must be a string');
+    if (!Array.isArray(doc.sourceQuestionTypes) || !doc.sourceQuestionTypes.every(isString)) {
+        issues.push('sourceQuestionTypes must be an array of strings');
+    }
+    if (!Array.isArray(doc.questions) || doc.questions.length === 0) {
+        issues.push('questions must be a non-empty array');
+    } else {
+        doc.questions.forEach((q, i) => validateQuestion(q, `questions[${i}]`, issues));
+        const ids = doc.questions.map((q) => (q as Question)?.id);
+        const duplicate = ids.find((id, i) => ids.indexOf(id) !== i);
+        if (duplicate) issues.push(`duplicate question id "${duplicate}"`);
+    }
+
+    if (issues.length > 0) throw new ExamValidationError(issues);
+    return value as ExamDocument;
+}
+
+// Models sometimes wrap JSON in a markdown fence or add chatter around it
+export function parseModelJson(text: string, subject = 'exam'): unknown {
+    const trimmed = text.trim();
+    const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    let candidate = fenced ? fenced[1] : trimmed;
+    if (!candidate.startsWith('{')) {
+        const start = candidate.indexOf('{');
+        const end = candidate.lastIndexOf('}');
+        if (start !== -1 && end > start) candidate = candidate.substring(start, end + 1);
+    }
+
+    try {
+        return JSON.parse(candidate);
+    } catch (error) {
+        throw new ExamValidationError([`response is not valid JSON (${(error as Error).message})`], subject);
+    }
+}
+
+export function parseExamDocument(text: string): ExamDocument {
+    return validateExamDocument(parseModelJson(text));
+}
+
+export function parseQuestion(text: string): Question {
+    const parsed = parseModelJson(text);
+    const issues: string[] = [];
+    validateQuestion(parsed, 'question', issues);
+    if (issues.length > 0) throw new ExamValidationError(issues);
+    return parsed as Question;
+}
+
+export function totalMarks(doc: ExamDocument) {
+    return doc.questions.reduce((sum, q) => sum + q.marks, 0);
+}
@@ -0,0 +1,395 @@
+import zlib from 'zlib';
+import { analyzeSources, getCachedAnalysis, placeholderAnalysis } from './analysis';
+import { buildExamOutputs, createRepairer, loadExamDocument, mergeLockedQuestions, outputFiles, type ExamOutputs } from './build';
+import { parseEngine, plannedEngine, type EngineChoice } from './compiler';
+import { EXAM_DOCUMENT_SCHEMA, parseExamDocument, totalMarks, type ExamDocument } from './exam';
+import { getRepairAttempts } from './latex';
+import { getExam, hashContent, saveExam, saveSource, sourceRef, type ExamRecord } from './library';
+import type { Logger } from './logger';
+import { ensureNovelty, familyReferences, getNoveltyRounds, previousContextReferences, sourceReferences } from './novelty';
+import { parseExamOptions, type ExamOptions } from './options';
+import { loadProfile, profileRef, type PromptProfile } from './profiles';
+import type { ExamResult, ProgressTracker } from './progress';
+import { buildExamPrompt, withSourceTexts } from './prompts';
+import { createProvider, resolveModelSettings, withSignal, type ModelProvider, type ModelSettings } from './providers';
+import { PDF_STREAM_LIMIT, docxToText, sourceMaterial, type SourceFile } from './sources';
+import {
+    SOURCE_LABELS,
+    UPLOAD_LIMITS,
+    checkSizes,
+    checkSource,
+    duplicateProblem,
+    formatBytes,
+    sourceKind,
+    type FileProblem,
+    type UploadRejection,
+} from './upload';
+import { createMeter, formatCost, recordUsage, type UsageMeter } from './usage';
+import { generateVersions } from './versions';
+
+// One exam generation from an upload form: checks, source analysis, the exam call, novelty
+// checks, parallel versions, build and save. Shared by /api/process-pdf (runs it while the
+// request is open), /api/jobs (runs it from the job queue) and scripts/generate.ts.
+
+const THOUGHT_PREVIEW_LENGTH = 300;
+
+// Multipart overhead on top of the file bytes before the body is refused unread
+const FORM_OVERHEAD_BYTES = 1024 * 1024;
+
+// Size limits, type detection and per-type checks, and duplicates by content hash, reported per file
+async function readUploads(files: File[]): Promise<{ uploads: SourceFile[]; problems: FileProblem[] }> {
+    const sizeProblems = checkSizes(files);
+    if (sizeProblems.length > 0) return { uploads: [], problems: sizeProblems };
+
+    const problems: FileProblem[] = [];
+    const uploads: SourceFile[] = [];
+    const seen = new Map<string, string>();
+    for (const file of files) {
+        const buffer = Buffer.from(await file.arrayBuffer());
+        const check = checkSource(file.name, buffer, (data) => zlib.inflateSync(data, { maxOutputLength: PDF_STREAM_LIMIT }));
+        if (!check.ok) {
+            problems.push(check.problem);
+            continue;
+        }
+        // Word documents are converted now, so a broken one is reported with the upload
+        if (check.source.kind === 'docx') {
+            let text = '';
+            try {
+                text = docxToText(buffer);
+            } catch (error) {
+                problems.push({ name: file.name, code: 'corrupt', error: `${file.name} could not be read: ${(error as Error).message}` });
+                continue;
+            }
+            if (!text) {
+                problems.push({ name: file.name, code: 'corrupt', error: `${file.name} contains no text` });
+                continue;
+            }
+        }
+        const hash = hashContent(buffer);
+        const original = seen.get(hash);
+        if (original !== undefined) {
+            problems.push(duplicateProblem(file.name, original));
+            continue;
+        }
+        seen.set(hash, file.name);
+        uploads.push({ name: file.name, mimeType: check.source.mimeType, buffer });
+    }
+    return { uploads, problems };
+}
+
+// What a route answers when the request is refused before generation starts
+export type Rejection = {
+    status: number;
+    body: { error: string; files?: FileProblem[] };
+};
+
+// 413 when a size limit was hit, 400 for everything else
+function rejectUploads(problems: FileProblem[], log: Logger): Rejection {
+    const tooLarge = problems.some((problem) => problem.code === 'too-large' || problem.code === 'total-too-large');
+    const body: UploadRejection = {
+        error: problems.length === 1 ? problems[0].error : `${problems.length} upload problems`,
+        files: problems,
+    };
+    log.warn('Upload rejected', { problems: problems.map((problem) => `${problem.name || 'request'} (${problem.code})`) });
+    return { status: tooLarge ? 413 : 400, body };
+}
+
+// Bodies this large are refused before the form is read
+export function checkContentLength(length: number, log: Logger): Rejection | null {
+    if (!(length > UPLOAD_LIMITS.maxTotalBytes + FORM_OVERHEAD_BYTES)) return null;
+    return rejectUploads([{
+        name: '',
+        code: 'total-too-large',
+        error: `Upload is ${formatBytes(length)}, the limit is ${formatBytes(UPLOAD_LIMITS.maxTotalBytes)}`,
+    }], log);
+}
+
+// Question types of the exam being regenerated, which the page sends back as a JSON array
+function parseQuestionList(value: FormDataEntryValue | null): string[] | null {
+    if (!value) return null;
+    let parsed: unknown;
+    try {
+        parsed = typeof value === 'string' ? JSON.parse(value) : null;
+    } catch {
+        throw new Error('Invalid questions: not valid JSON');
+    }
+    if (!Array.isArray(parsed) || !parsed.every((question) => typeof question === 'string')) {
+        throw new Error('Invalid questions: expected an array of strings');
+    }
+    return parsed;
+}
+
+// "2 × PDF, 1 × Image scan"
+function describeUploads(uploads: SourceFile[]) {
+    const counts = new Map<string, number>();
+    for (const upload of uploads) {
+        const label = SOURCE_LABELS[sourceKind(upload.mimeType)];
+        counts.set(label, (counts.get(label) ?? 0) + 1);
+    }
+    return [...counts].map(([label, count]) => `${count} × ${label}`).join(', ');
+}
+
+// Runs the whole generation and reports each stage through the tracker
+async function generateExam(
+    formData: FormData,
+    uploads: SourceFile[],
+    // Time spent checking the uploads, before the tracker existed
+    checkMs: number,
+    provider: ModelProvider,
+    meter: UsageMeter,
+    settings: ModelSettings,
+    options: ExamOptions,
+    profile: PromptProfile,
+    engine: EngineChoice,
+    // From the questions field, null when the form has none
+    questions: string[] | null,
+    // Nothing is written: sources are not stored and an uncached analysis is not run
+    dryRun: boolean,
+    tracker: ProgressTracker
+): Promise<ExamResult> {
+    const { log } = tracker;
+    tracker.start('upload', 'Upload received');
+
+    // File parts and source texts; only built for a fresh analysis or when asked for explicitly
+    const material = () => sourceMaterial(uploads);
+    // Keep the sources so the library can regenerate this exam later
+    const sources = dryRun
+        ? uploads.map((upload) => sourceRef(upload.name, upload.buffer, upload.mimeType))
+        : await Promise.all(uploads.map((upload) => saveSource(upload.name, upload.buffer, upload.mimeType)));
+    const totalSize = uploads.reduce((sum, upload) => sum + upload.buffer.length, 0);
+    tracker.finish('upload', `${describeUploads(uploads)}, ${(totalSize / 1024 / 1024).toFixed(2)} MB`);
+
+    const isRegenerate = formData.get('regenerate') === 'true';
+    const hasContext = !!formData.get('previousContext');
+    const wantsSolutions = formData.get('solutions') === 'true';
+    const attachSources = formData.get('attachSources') === 'true';
+
+    // Locked questions of the exam being regenerated are kept as they are
+    const parentId = formData.get('parentId') as string | null;
+    const parent = parentId ? await getExam(parentId).catch(() => null) : null;
+    const parentDoc = parent && isRegenerate ? await loadExamDocument(parent.id).catch(() => null) : null;
+    const locked = parentDoc?.questions.filter((q) => q.locked) ?? [];
+
+    log.info('Generation settings', {
+        regenerate: isRegenerate,
+        ...(isRegenerate ? { previousContext: hasContext, questionList: !!questions, lockedQuestions: locked.length } : {}),
+        solutions: wantsSolutions,
+        engine,
+        questionCount: options.questionCount ?? 'auto',
+        totalMarks: options.totalMarks ?? 'auto',
+        difficulty: options.difficulty,
+        versions: options.versions,
+        profile: `${profile.id} v${profile.version}`,
+    });
+
+    // Phase one: source analysis, cached by the content hash of the files
+    const reanalyze = formData.get('reanalyze') === 'true';
+    const { analysis } = dryRun
+        ? { analysis: (!reanalyze && await getCachedAnalysis(sources)) || placeholderAnalysis() }
+        : await analyzeSources(sources, material, provider, settings, profile, plannedEngine(engine), tracker, reanalyze);
+
+    log.info('Sending to model', { stage: 'model', provider: settings.provider, model: settings.model, sourcesAttached: attachSources });
+    const attached = attachSources ? material() : null;
+    tracker.start('model', 'Generating exam', settings.model);
+
+    // Stream the response so thoughts and partial LaTeX reach the client as they arrive
+    const result = await provider.generate({
+        task: 'exam',
+        prompt: withSourceTexts(buildExamPrompt({
+            options,
+            regenerate: isRegenerate,
+            previousContext: formData.get('previousContext') as string | null,
+            blueprint: questions ?? analysis.questionTypes,
+            analysis,
+            sourcesAttached: attachSources,
+            locked,
+            profile,
+        }), attached?.texts ?? []),
+        files: attached?.files ?? [],
+        model: settings.model,
+        temperature: settings.temperature,
+        thinkingLevel: settings.thinkingLevel,
+        includeThoughts: true,
+        onThought: (text) => tracker.emit({ type: 'thought', text: text.substring(0, THOUGHT_PREVIEW_LENGTH) }),
+        responseSchema: EXAM_DOCUMENT_SCHEMA,
+        onText: (delta) => tracker.emit({ type: 'output', delta }),
+    });
+    const responseText = result.text;
+
+    log.info('Model response received', { stage: 'model', chars: responseText.length, thoughts: !!result.thoughts });
+    tracker.finish('model', `${responseText.length} chars, ${result.usage.promptTokens + result.usage.thinkingTokens + result.usage.outputTokens} tokens`);
+
+    tracker.start('parse', 'Validating questions');
+    let doc: ExamDocument;
+    try {
+        doc = parseExamDocument(responseText);
+        if (parentDoc && locked.length > 0) doc = mergeLockedQuestions(doc, parentDoc);
+        doc.timeLimitMinutes = options.timeLimitMinutes;
+        doc.sourceQuestionTypes = analysis.questionTypes;
+    } catch (error) {
+        tracker.finish('parse', (error as Error).message, 'failed');
+        throw error;
+    }
+    const detectedQuestions = analysis.questionTypes;
+    tracker.finish('parse', `${doc.questions.length} questions, ${totalMarks(doc)} marks`);
+
+    // Compared with the uploads and the exam's earlier attempts; questions too close are rewritten
+    const previousContext = formData.get('previousContext') as string | null;
+    const references = [
+        ...sourceReferences(uploads, analysis),
+        ...(parent ? await familyReferences(parent.id) : previousContext ? previousContextReferences(previousContext) : []),
+    ];
+    const checked = await ensureNovelty(doc, references, {
+        rounds: getNoveltyRounds(formData.get('noveltyRounds')),
+        provider,
+        settings,
+        options,
+        analysis,
+        profile,
+        tracker,
+    });
+    doc = checked.doc;
+
+    // Parallel versions are written from the finished exam, before anything is compiled
+    const { docs, issues } = options.versions > 1
+        ? await generateVersions(doc, options.versions, { provider, settings, options, analysis, profile, tracker })
+        : { docs: [doc], issues: [] };
+    // The versions download carries every answer key, so batches always build one
+    const withSolutions = wantsSolutions || docs.length > 1;
+    const buildOptions = {
+        withSolutions,
+        engine,
+        repairAttempts: getRepairAttempts(formData.get('repairAttempts')),
+        repair: createRepairer(settings, profile, provider),
+        tracker,
+    };
+    const built: ExamOutputs[] = [];
+    for (const version of docs) built.push(await buildExamOutputs(version, buildOptions));
+
+    tracker.start('save', 'Saving to library');
+    const batchId = docs.length > 1 ? crypto.randomUUID() : null;
+    const name = parent ? parent.name : uploads.map((upload) => upload.name.replace(/\.[^.]+$/, '')).join(', ');
+    const records: ExamRecord[] = [];
+    for (const outputs of built) {
+        records.push(await saveExam({
+            name,
+            parentId: parent ? parent.id : null,
+            sources,
+            questions: detectedQuestions,
+            settings,
+            options,
+            engine,
+            withSolutions,
+            files: outputFiles(outputs),
+            batch: batchId ? { id: batchId, version: outputs.exam.version! } : null,
+            profile: profileRef(profile),
+        }));
+    }
+    const [record] = records;
+    tracker.finish('save', records.map((saved) => saved.id).join(', '));
+
+    const usage = meter.report();
+    log.info('Exam generated', {
+        examId: record.id,
+        questions: doc.questions.length,
+        versions: docs.length > 1 ? docs.length : undefined,
+        versionIssues: issues.length > 0 ? issues : undefined,
+        tooClose: checked.report.questions.filter((q) => q.flagged).map((q) => q.questionId),
+        modelCalls: usage.totals.calls,
+        cost: formatCost(usage.totals.costUsd),
+    });
+
+    return {
+        ...built[0],
+        examId: record.id,
+        parentId: record.parentId,
+        questions: detectedQuestions,
+        settings,
+        options,
+        usage,
+        timings: [{ id: 'check', label: 'Checking uploads', status: 'done', durationMs: checkMs }, ...tracker.timings()],
+        batch: batchId
+            ? { id: batchId, versions: records.map((saved) => ({ version: saved.batch!.version, examId: saved.id })), issues }
+            : null,
+        novelty: checked.report,
+        profile: profileRef(profile),
+    };
+}
+
+export type PreparedGeneration =
+    | { ok: true; run: (tracker: ProgressTracker) => Promise<ExamResult> }
+    | ({ ok: false } & Rejection);
+
+// Validates a generation form (settings, options, profile, question list, uploads) and returns the run,
+// which /api/process-pdf calls right away, /api/jobs from its queue and the CLI in its
+// batch loop. Usage is recorded whether the run succeeds or not. `model` replaces the
+// configured provider and `dryRun` turns off every write; the CLI's --dry-run uses both
+// to catch the exam prompt.
+export async function prepareGeneration(
+    formData: FormData,
+    log: Logger,
+    { model, dryRun = false }: { model?: ModelProvider; dryRun?: boolean } = {}
+): Promise<PreparedGeneration> {
+    const files = formData.getAll('file').filter((entry): entry is File => typeof entry !== 'string');
+
+    if (files.length === 0) {
+        return { ok: false, status: 400, body: { error: 'No files uploaded' } };
+    }
+
+    let settings: ModelSettings;
+    let options: ExamOptions;
+    let profile: PromptProfile;
+    let engine: EngineChoice;
+    let questions: string[] | null;
+    try {
+        settings = resolveModelSettings({
+            provider: formData.get('provider') as string | null,
+            model: formData.get('model') as string | null,
+            temperature: formData.get('temperature') as string | null,
+            thinkingLevel: formData.get('thinkingLevel') as string | null,
+        });
+        options = parseExamOptions(formData.get('options'));
+        profile = await loadProfile(options.profile);
+        // Empty falls back to LATEX_ENGINE, then detection from the preamble
+        engine = parseEngine(formData.get('engine') as string | null);
+        questions = parseQuestionList(formData.get('questions'));
+    } catch (error) {
+        return { ok: false, status: 400, body: { error: (error as Error).message } };
+    }
+
+    let provider: ModelProvider;
+    let meter: UsageMeter;
+    try {
+        meter = createMeter(log);
+        provider = meter.wrap(model ?? createProvider(settings.provider));
+    } catch (error) {
+        log.error('Model setup failed', { error });
+        return { ok: false, status: 500, body: { error: (error as Error).message } };
+    }
+
+    const startedAt = Date.now();
+    log.info('Request received', { files: files.length });
+
+    const { uploads, problems } = await readUploads(files);
+    if (problems.length > 0) return { ok: false, ...rejectUploads(problems, log) };
+    const checkMs = Date.now() - startedAt;
+    log.info('Uploads checked', { sources: describeUploads(uploads), durationMs: checkMs });
+
+    // Failed generations are recorded too, their tokens were spent all the same
+    const run = async (tracker: ProgressTracker) => {
+        // A cancelled job stops its model calls as well
+        const cancellable = tracker.signal ? withSignal(provider, tracker.signal) : provider;
+        try {
+            const data = await generateExam(formData, uploads, checkMs, cancellable, meter, settings, options, profile, engine, questions, dryRun, tracker);
+            if (!dryRun) await recordUsage('generate', data.examId, meter, log);
+            log.info('Request finished', { durationMs: Date.now() - startedAt });
+            return data;
+        } catch (error) {
+            if (!dryRun) await recordUsage('generate', null, meter, log);
+            if (tracker.signal?.aborted) log.info('Generation cancelled', { durationMs: Date.now() - startedAt });
+            else log.error('Generation failed', { durationMs: Date.now() - startedAt, error });
+            throw error;
+        }
+    };
+    return { ok: true, run };
+}
@@ -0,0 +1,209 @@
+import type { Logger } from './logger';
+import { createTracker, type ExamResult, type ProgressEvent, type ProgressTracker } from './progress';
+
+// Background generation jobs. POST /api/jobs queues a run and answers with its ID at once;
+// the page polls GET /api/jobs/:id, so a reload or a closed tab no longer loses the exam,
+// and fetches GET /api/jobs/:id/result once, after the job succeeded.
+// Jobs live in this process: at most JOB_CONCURRENCY run, at most JOB_QUEUE_LIMIT wait,
+// and finished ones are kept for JOB_TTL_MINUTES. Cancelling aborts the job's signal,
+// which stops its model calls and kills its TeX engine.
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+type StepEvent = Extract<ProgressEvent, { type: 'step' }>;
+
+// What GET /api/jobs/:id returns. The result stays out of it: it carries the PDFs,
+// and polls only need the progress.
+export type JobView = {
+    id: string;
+    status: JobStatus;
+    // Logged with every line of the run, so a failed job can be found in the logs
+    requestId: string;
+    createdAt: string;
+    startedAt: string | null;
+    finishedAt: string | null;
+    // Jobs ahead of this one while it is queued
+    position: number | null;
+    // Label of the stage running now
+    stage: string | null;
+    // Latest event per stage, in start order
+    steps: StepEvent[];
+    thought: string | null;
+    // End of the raw model output written so far
+    output: string;
+    error: string | null;
+};
+
+export type JobConfig = {
+    concurrency: number;
+    queueLimit: number;
+    ttlMs: number;
+};
+
+type Job = Omit<JobView, 'position' | 'stage'> & {
+    result: ExamResult | null;
+    run: (tracker: ProgressTracker) => Promise<ExamResult>;
+    controller: AbortController;
+    log: Logger;
+};
+
+// How much model output a job keeps for the page
+const OUTPUT_TAIL = 4000;
+
+// Finished jobs carry their PDFs, so only this many are kept however recent
+const MAX_FINISHED_JOBS = 50;
+
+const readInt = (value: string | undefined, fallback: number) => {
+    const parsed = value === undefined ? NaN : parseInt(value, 10);
+    return isNaN(parsed) || parsed <= 0 ? fallback : parsed;
+};
+
+export function getJobConfig(): JobConfig {
+    return {
+        concurrency: readInt(process.env.JOB_CONCURRENCY, 2),
+        queueLimit: readInt(process.env.JOB_QUEUE_LIMIT, 20),
+        ttlMs: readInt(process.env.JOB_TTL_MINUTES, 60) * 60_000,
+    };
+}
+
+const jobs = new Map<string, Job>();
+// FIFO of queued job IDs
+const queue: string[] = [];
+let running = 0;
+
+const isFinished = (job: Job) => job.finishedAt !== null;
+
+// Drops finished jobs past the TTL, then the oldest beyond MAX_FINISHED_JOBS
+function prune(config: JobConfig) {
+    const now = Date.now();
+    const finished = [...jobs.values()]
+        .filter(isFinished)
+        .sort((a, b) => Date.parse(a.finishedAt!) - Date.parse(b.finishedAt!));
+    finished.forEach((job, i) => {
+        if (now - Date.parse(job.finishedAt!) > config.ttlMs || finished.length - i > MAX_FINISHED_JOBS) jobs.delete(job.id);
+    });
+}
+
+function view(job: Job): JobView {
+    const position = job.status === 'queued' ? queue.indexOf(job.id) : -1;
+    return {
+        id: job.id,
+        status: job.status,
+        requestId: job.requestId,
+        createdAt: job.createdAt,
+        startedAt: job.startedAt,
+        finishedAt: job.finishedAt,
+        position: position === -1 ? null : position,
+        stage: job.status === 'running' ? job.steps.findLast((step) => step.status === 'running')?.label ?? null : null,
+        steps: [...job.steps],
+        thought: job.thought,
+        output: job.output,
+        error: job.error,
+    };
+}
+
+function record(job: Job, event: ProgressEvent) {
+    switch (event.type) {
+        case 'step': {
+            const index = job.steps.findIndex((step) => step.id === event.id);
+            if (index === -1) job.steps.push(event);
+            else job.steps[index] = event;
+            break;
+        }
+        case 'thought':
+            job.thought = event.text;
+            break;
+        case 'output':
+            job.output = (job.output + event.delta).slice(-OUTPUT_TAIL);
+            break;
+    }
+}
+
+// Starts queued jobs while slots are free
+function drain(config: JobConfig) {
+    while (running < config.concurrency && queue.length > 0) {
+        const job = jobs.get(queue.shift()!);
+        if (!job) continue;
+        running++;
+        execute(job).finally(() => {
+            running--;
+            drain(getJobConfig());
+        });
+    }
+}
+
+async function execute(job: Job) {
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    job.log.info('Job started', { jobId: job.id });
+    try {
+        const result = await job.run(createTracker((event) => record(job, event), job.log, job.controller.signal));
+        // Cancelled while the last stage was finishing; cancelJob already settled it
+        if (job.controller.signal.aborted) return;
+        job.status = 'succeeded';
+        job.result = result;
+    } catch (error) {
+        if (job.controller.signal.aborted) return;
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : 'Unknown error';
+    } finally {
+        job.finishedAt ??= new Date().toISOString();
+        job.log.info('Job finished', { jobId: job.id, status: job.status });
+    }
+}
+
+// Queues a generation run; null when JOB_QUEUE_LIMIT jobs are waiting already
+export function enqueueJob(run: (tracker: ProgressTracker) => Promise<ExamResult>, log: Logger): JobView | null {
+    const config = getJobConfig();
+    prune(config);
+    if (queue.length >= config.queueLimit) return null;
+
+    const job: Job = {
+        id: crypto.randomUUID(),
+        status: 'queued',
+        requestId: log.requestId,
+        createdAt: new Date().toISOString(),
+        startedAt: null,
+        finishedAt: null,
+        steps: [],
+        thought: null,
+        output: '',
+        result: null,
+        error: null,
+        run,
+        controller: new AbortController(),
+        log,
+    };
+    jobs.set(job.id, job);
+    queue.push(job.id);
+    log.info('Job queued', { jobId: job.id, position: queue.length - 1, running });
+    drain(config);
+    return view(job);
+}
+
+export function getJob(id: string): JobView | null {
+    prune(getJobConfig());
+    const job = jobs.get(id);
+    return job ? view(job) : null;
+}
+
+// The result of a succeeded job; null while it runs, after it failed and for unknown jobs
+export function getJobResult(id: string): ExamResult | null {
+    prune(getJobConfig());
+    return jobs.get(id)?.result ?? null;
+}
+
+// Queued jobs leave the queue, running ones are aborted; finished and unknown jobs are left alone
+export function cancelJob(id: string): JobView | null {
+    const job = jobs.get(id);
+    if (!job || isFinished(job)) return job ? view(job) : null;
+
+    const index = queue.indexOf(id);
+    if (index !== -1) queue.splice(index, 1);
+    job.status = 'cancelled';
+    job.error = 'Cancelled';
+    job.finishedAt = new Date().toISOString();
+    job.controller.abort();
+    job.log.info('Job cancelled', { jobId: job.id, wasRunning: index === -1 });
+    return view(job);
+}
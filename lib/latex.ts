@@ -0,0 +1,160 @@
+import { compileTex, detectEngine, type CompileFailure, type EngineChoice, type LatexError, type TexEngine } from './compiler';
+import type { ExamDocument } from './exam';
+import { describeLint, lintTex, type LintDiagnostic } from './lint';
+import type { Logger } from './logger';
+import type { ProgressTracker } from './progress';
+import type { RenderedDocument } from './render';
+
+export type CompileResult = {
+    pdfBase64: string | null;
+    error: string | null;
+    // Log excerpt of the first errors, set when compilation failed
+    log: string | null;
+    // The same errors with their line numbers in the submitted TeX, for the editor
+    errors: LatexError[];
+    // Structured failure details from lib/compiler.ts
+    failure: CompileFailure | null;
+    logPath: string | null;
+    // Engine that ran and how many passes it took (0 when it never ran)
+    engine: TexEngine;
+    passes: number;
+};
+
+const CONTEXT_LINES = 2;
+
+// Render parsed errors with the surrounding source lines
+function formatLogExcerpt(errors: LatexError[], texContent: string): string {
+    const source = texContent.split('\n');
+
+    return errors.map((error) => {
+        if (error.line === null) return `! ${error.message}`;
+
+        const from = Math.max(1, error.line - CONTEXT_LINES);
+        const to = Math.min(source.length, error.line + CONTEXT_LINES);
+        const context: string[] = [];
+        for (let n = from; n <= to; n++) {
+            context.push(`${n === error.line ? '>' : ' '} ${String(n).padStart(4)} | ${source[n - 1]}`);
+        }
+        return `! ${error.message} (line ${error.line})\n${context.join('\n')}`;
+    }).join('\n\n');
+}
+
+// Compile through the sandboxed compiler and turn its errors into a log excerpt for repair
+export async function compileLatex(
+    texContent: string,
+    prefix: string,
+    log: Logger,
+    engine: EngineChoice = 'auto',
+    signal?: AbortSignal
+): Promise<CompileResult> {
+    const outcome = await compileTex(texContent, prefix, engine, log, signal);
+    const { passes } = outcome;
+
+    if (outcome.pdf) {
+        log.info('PDF created', { document: prefix, engine: outcome.engine, passes, durationMs: outcome.durationMs });
+        return {
+            pdfBase64: outcome.pdf.toString('base64'),
+            error: null,
+            log: null,
+            errors: [],
+            failure: null,
+            logPath: null,
+            engine: outcome.engine,
+            passes,
+        };
+    }
+
+    log.warn('PDF compilation failed', {
+        document: prefix,
+        failure: outcome.failure,
+        engine: outcome.engine,
+        passes,
+        durationMs: outcome.durationMs,
+        logPath: outcome.logPath ?? undefined,
+    });
+    return {
+        pdfBase64: null,
+        error: `PDF compilation failed: ${outcome.message}`,
+        log: outcome.errors.length > 0 ? formatLogExcerpt(outcome.errors, texContent) : null,
+        errors: outcome.errors,
+        failure: outcome.failure,
+        logPath: outcome.logPath,
+        engine: outcome.engine,
+        passes,
+    };
+}
+
+const DEFAULT_REPAIR_ATTEMPTS = 2;
+const MAX_REPAIR_ATTEMPTS = 5;
+
+// Repair attempts: request field wins over LATEX_REPAIR_ATTEMPTS, clamped to a sane range
+export function getRepairAttempts(requested: FormDataEntryValue | null): number {
+    const raw = typeof requested === 'string' && requested !== ''
+        ? requested
+        : process.env.LATEX_REPAIR_ATTEMPTS;
+    const parsed = raw === undefined ? NaN : parseInt(raw, 10);
+    if (isNaN(parsed)) return DEFAULT_REPAIR_ATTEMPTS;
+    return Math.min(Math.max(parsed, 0), MAX_REPAIR_ATTEMPTS);
+}
+
+// Render, lint and compile; on failure hand the log excerpt back to the model until it compiles
+export async function compileWithRepair(
+    doc: ExamDocument,
+    render: (doc: ExamDocument) => RenderedDocument,
+    prefix: string,
+    maxAttempts: number,
+    repair: (doc: ExamDocument, tex: string, log: string, engine: TexEngine) => Promise<ExamDocument>,
+    tracker: ProgressTracker,
+    engine: EngineChoice = 'auto'
+): Promise<CompileResult & { doc: ExamDocument; tex: string; repairRounds: number; diagnostics: LintDiagnostic[] }> {
+    let current = doc;
+    let repairRounds = 0;
+
+    // Safe problems are fixed in the TeX only; the document keeps what the model wrote
+    const lintStep = () => {
+        const id = `${prefix}-lint-${repairRounds}`;
+        tracker.start(id, `Checking ${prefix} LaTeX`);
+        const rendered = render(current).tex;
+        const linted = lintTex(rendered, engine === 'auto' ? detectEngine(rendered) : engine);
+        tracker.finish(id, describeLint(linted.diagnostics));
+        if (linted.diagnostics.length > 0) {
+            tracker.log.child({ stage: id }).info('LaTeX checked', { document: prefix, diagnostics: linted.diagnostics });
+        }
+        return linted;
+    };
+
+    let { tex, diagnostics } = lintStep();
+
+    const compileStep = async () => {
+        const id = `${prefix}-compile-${repairRounds}`;
+        tracker.start(id, repairRounds === 0 ? `Compiling ${prefix}` : `Recompiling ${prefix}`);
+        const result = await compileLatex(tex, prefix, tracker.log.child({ stage: id }), engine, tracker.signal);
+        tracker.finish(
+            id,
+            result.pdfBase64 ? `PDF created with ${result.engine} (${result.passes} ${result.passes === 1 ? 'pass' : 'passes'})` : 'Compilation failed',
+            result.pdfBase64 ? 'done' : 'failed'
+        );
+        // A cancelled run is not repaired
+        tracker.signal?.throwIfAborted();
+        return result;
+    };
+
+    let compiled = await compileStep();
+
+    while (!compiled.pdfBase64 && compiled.log && repairRounds < maxAttempts) {
+        repairRounds++;
+        const id = `${prefix}-repair-${repairRounds}`;
+        tracker.start(id, `Repairing ${prefix}`, `Round ${repairRounds} of ${maxAttempts}`);
+        // Problems the linter found but could not fix are often the cause
+        const unfixed = diagnostics.filter((d) => !d.fixed && d.severity === 'error');
+        const log = unfixed.length > 0
+            ? `${compiled.log}\n\nStatic check errors:\n${unfixed.map((d) => `line ${d.line ?? '?'}: ${d.message}`).join('\n')}`
+            : compiled.log;
+        current = await repair(current, tex, log, compiled.engine);
+        tracker.finish(id, `Round ${repairRounds} of ${maxAttempts}`);
+        ({ tex, diagnostics } = lintStep());
+        compiled = await compileStep();
+    }
+
+    return { ...compiled, doc: current, tex, repairRounds, diagnostics };
+}
@@ -0,0 +1,346 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type { SourceAnalysis } from './analysis';
+import type { EngineChoice } from './compiler';
+import type { Attempt } from './practice';
+import { DEFAULT_EXAM_OPTIONS, type ExamOptions } from './options';
+import type { ProfileRef } from './profiles';
+import type { ModelSettings } from './providers/types';
+import { DOCX_MIME, TEX_MIME } from './upload';
+import type { UsageRecord } from './usage';
+
+// File-backed exam library:
+//   <root>/exams/<id>/meta.json + exam.json (structured questions), exam.tex, exam.pdf, solutions.tex, solutions.pdf
+//   <root>/exams/<id>/attempts.json (practice attempts, oldest first)
+//   <root>/sources/<sha256>.<ext> (pdf, png, jpg, tex or docx; shared between exams, removed with the last exam using them)
+//   <root>/analyses/<sha256>.json (source analysis, keyed by the hash of the source set)
+//   <root>/usage.jsonl (model calls per request, one JSON line each; kept when exams are deleted)
+
+export type SourceRef = {
+    name: string;
+    hash: string;
+    size: number;
+    // Detected type; absent on records from before non-PDF sources, which are all PDFs
+    mimeType?: string;
+};
+
+export type ExamRecord = {
+    id: string;
+    name: string;
+    // Exam this one was regenerated from, null for a first generation
+    parentId: string | null;
+    createdAt: string;
+    updatedAt: string;
+    sources: SourceRef[];
+    questions: string[];
+    settings: ModelSettings;
+    options: ExamOptions;
+    // Engine requested at generation, reused by rebuilds
+    engine: EngineChoice;
+    withSolutions: boolean;
+    files: ExamFile[];
+    // Set on each exam of a parallel-version run; versions share the batch id
+    batch?: ExamBatch | null;
+    // Prompt profile and version that generated it; missing on exams from before profiles
+    profile?: ProfileRef | null;
+};
+
+export type ExamBatch = {
+    id: string;
+    version: string;
+};
+
+export const EXAM_FILES = ['exam.json', 'exam.tex', 'exam.pdf', 'solutions.tex', 'solutions.pdf'] as const;
+export type ExamFile = typeof EXAM_FILES[number];
+
+const ID_PATTERN = /^[0-9a-f-]{36}$/;
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+function libraryRoot() {
+    return process.env.LIBRARY_DIR || path.join(process.cwd(), '.data', 'library');
+}
+
+function examDir(id: string) {
+    if (!ID_PATTERN.test(id)) throw new Error(`Invalid exam id "${id}"`);
+    return path.join(libraryRoot(), 'exams', id);
+}
+
+const SOURCE_EXTENSIONS: Record<string, string> = {
+    'application/pdf': 'pdf',
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    [TEX_MIME]: 'tex',
+    [DOCX_MIME]: 'docx',
+};
+
+function sourcePath(hash: string, mimeType: string) {
+    if (!HASH_PATTERN.test(hash)) throw new Error(`Invalid source hash "${hash}"`);
+    const extension = SOURCE_EXTENSIONS[mimeType];
+    if (!extension) throw new Error(`Unsupported source type "${mimeType}"`);
+    return path.join(libraryRoot(), 'sources', `${hash}.${extension}`);
+}
+
+export function hashContent(buffer: Buffer) {
+    return crypto.createHash('sha256').update(buffer).digest('hex');
+}
+
+export function sourceRef(name: string, buffer: Buffer, mimeType = 'application/pdf'): SourceRef {
+    return { name, hash: hashContent(buffer), size: buffer.length, mimeType };
+}
+
+// Stores a source file under its content hash; identical uploads are kept once
+export async function saveSource(name: string, buffer: Buffer, mimeType = 'application/pdf'): Promise<SourceRef> {
+    const ref = sourceRef(name, buffer, mimeType);
+    const file = sourcePath(ref.hash, mimeType);
+    if (!fs.existsSync(file)) {
+        await fs.promises.mkdir(path.dirname(file), { recursive: true });
+        await fs.promises.writeFile(file, buffer);
+    }
+    return ref;
+}
+
+// The hash alone identifies the content, so the type is whichever extension exists
+export async function readSource(hash: string): Promise<{ content: Buffer; mimeType: string } | null> {
+    for (const mimeType of Object.keys(SOURCE_EXTENSIONS)) {
+        const file = sourcePath(hash, mimeType);
+        if (fs.existsSync(file)) return { content: await fs.promises.readFile(file), mimeType };
+    }
+    return null;
+}
+
+// Same set of files -> same key, whatever the upload order or file names
+export function analysisKey(sources: SourceRef[]) {
+    const hashes = [...new Set(sources.map((source) => source.hash))].sort();
+    return crypto.createHash('sha256').update(hashes.join(',')).digest('hex');
+}
+
+function analysisPath(key: string) {
+    if (!HASH_PATTERN.test(key)) throw new Error(`Invalid analysis key "${key}"`);
+    return path.join(libraryRoot(), 'analyses', `${key}.json`);
+}
+
+export async function readAnalysis(key: string): Promise<SourceAnalysis | null> {
+    const file = analysisPath(key);
+    return fs.existsSync(file) ? JSON.parse(await fs.promises.readFile(file, 'utf8')) as SourceAnalysis : null;
+}
+
+export async function saveAnalysis(key: string, analysis: SourceAnalysis) {
+    const file = analysisPath(key);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, JSON.stringify(analysis, null, 2));
+}
+
+export async function saveExam(input: {
+    name: string;
+    parentId: string | null;
+    sources: SourceRef[];
+    questions: string[];
+    settings: ModelSettings;
+    options: ExamOptions;
+    engine: EngineChoice;
+    withSolutions: boolean;
+    files: Partial<Record<ExamFile, string | Buffer>>;
+    batch?: ExamBatch | null;
+    profile?: ProfileRef | null;
+}): Promise<ExamRecord> {
+    const id = crypto.randomUUID();
+    const dir = examDir(id);
+    await fs.promises.mkdir(dir, { recursive: true });
+
+    const files: ExamFile[] = [];
+    for (const file of EXAM_FILES) {
+        const content = input.files[file];
+        if (content === undefined) continue;
+        await fs.promises.writeFile(path.join(dir, file), content);
+        files.push(file);
+    }
+
+    const now = new Date().toISOString();
+    const record: ExamRecord = {
+        id,
+        name: input.name,
+        parentId: input.parentId,
+        createdAt: now,
+        updatedAt: now,
+        sources: input.sources,
+        questions: input.questions,
+        settings: input.settings,
+        options: input.options,
+        engine: input.engine,
+        withSolutions: input.withSolutions,
+        files,
+        batch: input.batch ?? null,
+        profile: input.profile ?? null,
+    };
+    await writeRecord(record);
+    return record;
+}
+
+async function writeRecord(record: ExamRecord) {
+    await fs.promises.writeFile(path.join(examDir(record.id), 'meta.json'), JSON.stringify(record, null, 2));
+}
+
+export async function getExam(id: string): Promise<ExamRecord | null> {
+    const file = path.join(examDir(id), 'meta.json');
+    if (!fs.existsSync(file)) return null;
+    const record = JSON.parse(await fs.promises.readFile(file, 'utf8')) as ExamRecord;
+    // Saved before exam options (or some of them) existed
+    record.options = { ...DEFAULT_EXAM_OPTIONS, ...record.options };
+    record.engine ??= 'auto';
+    return record;
+}
+
+// Newest first
+export async function listExams(): Promise<ExamRecord[]> {
+    const dir = path.join(libraryRoot(), 'exams');
+    if (!fs.existsSync(dir)) return [];
+
+    const ids = await fs.promises.readdir(dir);
+    const records = await Promise.all(ids.filter((id) => ID_PATTERN.test(id)).map(getExam));
+    return records
+        .filter((record): record is ExamRecord => record !== null)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function readExamFile(id: string, file: ExamFile): Promise<Buffer | null> {
+    const record = await getExam(id);
+    if (!record || !record.files.includes(file)) return null;
+    return fs.promises.readFile(path.join(examDir(id), file));
+}
+
+export async function renameExam(id: string, name: string): Promise<ExamRecord | null> {
+    const record = await getExam(id);
+    if (!record) return null;
+    record.name = name;
+    record.updatedAt = new Date().toISOString();
+    await writeRecord(record);
+    return record;
+}
+
+export async function writeExamFile(id: string, file: ExamFile, content: string | Buffer): Promise<ExamRecord | null> {
+    const record = await getExam(id);
+    if (!record) return null;
+    await fs.promises.writeFile(path.join(examDir(id), file), content);
+    if (!record.files.includes(file)) record.files.push(file);
+    record.updatedAt = new Date().toISOString();
+    await writeRecord(record);
+    return record;
+}
+
+// Overwrites an exam's generated files after an edit. Files missing from the new set
+// are removed, so a PDF that no longer compiles is not served stale.
+export async function replaceExamFiles(id: string, files: Partial<Record<ExamFile, string | Buffer>>): Promise<ExamRecord | null> {
+    const record = await getExam(id);
+    if (!record) return null;
+    const dir = examDir(id);
+
+    const written: ExamFile[] = [];
+    for (const file of EXAM_FILES) {
+        const content = files[file];
+        if (content === undefined) {
+            await fs.promises.rm(path.join(dir, file), { force: true });
+            continue;
+        }
+        await fs.promises.writeFile(path.join(dir, file), content);
+        written.push(file);
+    }
+
+    record.files = written;
+    record.updatedAt = new Date().toISOString();
+    await writeRecord(record);
+    return record;
+}
+
+// The exam, its ancestors and every exam regenerated from any of them, oldest first
+export async function examFamily(id: string): Promise<ExamRecord[]> {
+    const exams = await listExams();
+    const byId = new Map(exams.map((exam) => [exam.id, exam]));
+    const rootOf = (exam: ExamRecord) => {
+        let current = exam;
+        const seen = new Set([current.id]);
+        while (current.parentId && byId.has(current.parentId) && !seen.has(current.parentId)) {
+            current = byId.get(current.parentId)!;
+            seen.add(current.id);
+        }
+        return current.id;
+    };
+
+    const exam = byId.get(id);
+    if (!exam) return [];
+    const root = rootOf(exam);
+    return exams.filter((other) => rootOf(other) === root).reverse();
+}
+
+// Every version of a parallel-version run, in version order
+export async function batchExams(batchId: string): Promise<ExamRecord[]> {
+    const exams = await listExams();
+    return exams
+        .filter((exam) => exam.batch?.id === batchId)
+        .sort((a, b) => a.batch!.version.localeCompare(b.batch!.version));
+}
+
+function attemptsPath(id: string) {
+    return path.join(examDir(id), 'attempts.json');
+}
+
+export async function readAttempts(id: string): Promise<Attempt[]> {
+    const file = attemptsPath(id);
+    return fs.existsSync(file) ? JSON.parse(await fs.promises.readFile(file, 'utf8')) as Attempt[] : [];
+}
+
+export async function saveAttempt(input: Omit<Attempt, 'id'>): Promise<Attempt | null> {
+    if (!(await getExam(input.examId))) return null;
+    const attempt: Attempt = { id: crypto.randomUUID(), ...input };
+    const attempts = await readAttempts(input.examId);
+    attempts.push(attempt);
+    await fs.promises.writeFile(attemptsPath(input.examId), JSON.stringify(attempts, null, 2));
+    return attempt;
+}
+
+function usagePath() {
+    return path.join(libraryRoot(), 'usage.jsonl');
+}
+
+// Appending a line keeps concurrent requests from overwriting each other
+export async function appendUsage(record: UsageRecord) {
+    await fs.promises.mkdir(libraryRoot(), { recursive: true });
+    await fs.promises.appendFile(usagePath(), `${JSON.stringify(record)}\n`);
+}
+
+// Oldest first; a line cut short by a crash mid-write is skipped
+export async function readUsage(): Promise<UsageRecord[]> {
+    const file = usagePath();
+    if (!fs.existsSync(file)) return [];
+    const records: UsageRecord[] = [];
+    for (const line of (await fs.promises.readFile(file, 'utf8')).split('\n')) {
+        if (!line.trim()) continue;
+        try {
+            records.push(JSON.parse(line) as UsageRecord);
+        } catch {
+            continue;
+        }
+    }
+    return records;
+}
+
+// Removes the exam and any source (or source analysis) no other exam references. Children keep their
+// parentId so the lineage still shows they came from a deleted exam.
+export async function deleteExam(id: string): Promise<boolean> {
+    const record = await getExam(id);
+    if (!record) return false;
+    await fs.promises.rm(examDir(id), { recursive: true, force: true });
+
+    const remaining = await listExams();
+    const inUse = new Set(remaining.flatMap((exam) => exam.sources.map((source) => source.hash)));
+    for (const source of record.sources) {
+        if (!inUse.has(source.hash)) {
+            await fs.promises.rm(sourcePath(source.hash, source.mimeType ?? 'application/pdf'), { force: true });
+        }
+    }
+    const key = analysisKey(record.sources);
+    if (!remaining.some((exam) => analysisKey(exam.sources) === key)) {
+        await fs.promises.rm(analysisPath(key), { force: true });
+    }
+    return true;
+}
@@ -0,0 +1,367 @@
+import type { TexEngine } from './compiler';
+
+// Static checks on a LaTeX document before it goes to the compiler: balanced environments
+// and braces, commands used without their package, multiple-choice options outside a
+// minipage, and characters pdflatex cannot typeset. Safe problems (markdown fences, known
+// unicode characters, missing packages, a missing \end{document}) are fixed in place.
+// Shared with the editor, so keep this free of Node imports.
+
+export type LintCode =
+    | 'markdown-fence'
+    | 'unicode'
+    | 'missing-package'
+    | 'unbalanced-environment'
+    | 'unbalanced-brace'
+    | 'mcq-minipage';
+
+export type LintDiagnostic = {
+    // 1-based line in the returned TeX, null when the problem has no single line
+    line: number | null;
+    severity: 'error' | 'warning';
+    code: LintCode;
+    message: string;
+    // The returned TeX already has this corrected
+    fixed: boolean;
+};
+
+export type LintResult = {
+    tex: string;
+    diagnostics: LintDiagnostic[];
+};
+
+// Characters outside ASCII that pdflatex's default utf8 input handles; anything else is an error
+const SUPPORTED_UNICODE = /[\u00a1-\u017f\u2013\u2014\u2018-\u201e\u2020-\u2022\u2026\u2030\u20ac]/;
+
+// Replacements that work in text and in math mode alike
+const UNICODE_REPLACEMENTS: Record<string, string> = {
+    '\u00a0': '~',
+    '\u200b': '',
+    '\ufeff': '',
+    '°': '\\ensuremath{^\\circ}',
+    '±': '\\ensuremath{\\pm}',
+    '²': '\\ensuremath{^2}',
+    '³': '\\ensuremath{^3}',
+    'µ': '\\ensuremath{\\mu}',
+    '·': '\\ensuremath{\\cdot}',
+    '×': '\\ensuremath{\\times}',
+    '÷': '\\ensuremath{\\div}',
+    '−': '\\ensuremath{-}',
+    '≤': '\\ensuremath{\\le}',
+    '≥': '\\ensuremath{\\ge}',
+    '≠': '\\ensuremath{\\neq}',
+    '≈': '\\ensuremath{\\approx}',
+    '≡': '\\ensuremath{\\equiv}',
+    '∞': '\\ensuremath{\\infty}',
+    '√': '\\ensuremath{\\surd}',
+    '∑': '\\ensuremath{\\sum}',
+    '∏': '\\ensuremath{\\prod}',
+    '∫': '\\ensuremath{\\int}',
+    '∂': '\\ensuremath{\\partial}',
+    '∇': '\\ensuremath{\\nabla}',
+    '∈': '\\ensuremath{\\in}',
+    '∉': '\\ensuremath{\\notin}',
+    '⊂': '\\ensuremath{\\subset}',
+    '⊆': '\\ensuremath{\\subseteq}',
+    '∪': '\\ensuremath{\\cup}',
+    '∩': '\\ensuremath{\\cap}',
+    '∅': '\\ensuremath{\\emptyset}',
+    '∀': '\\ensuremath{\\forall}',
+    '∃': '\\ensuremath{\\exists}',
+    '→': '\\ensuremath{\\rightarrow}',
+    '←': '\\ensuremath{\\leftarrow}',
+    '↔': '\\ensuremath{\\leftrightarrow}',
+    '⇒': '\\ensuremath{\\Rightarrow}',
+    '⇔': '\\ensuremath{\\Leftrightarrow}',
+    '′': '\\ensuremath{\\prime}',
+    'α': '\\ensuremath{\\alpha}',
+    'β': '\\ensuremath{\\beta}',
+    'γ': '\\ensuremath{\\gamma}',
+    'δ': '\\ensuremath{\\delta}',
+    'ε': '\\ensuremath{\\varepsilon}',
+    'θ': '\\ensuremath{\\theta}',
+    'λ': '\\ensuremath{\\lambda}',
+    'μ': '\\ensuremath{\\mu}',
+    'π': '\\ensuremath{\\pi}',
+    'ρ': '\\ensuremath{\\rho}',
+    'σ': '\\ensuremath{\\sigma}',
+    'τ': '\\ensuremath{\\tau}',
+    'φ': '\\ensuremath{\\phi}',
+    'ω': '\\ensuremath{\\omega}',
+    'Δ': '\\ensuremath{\\Delta}',
+    'Σ': '\\ensuremath{\\Sigma}',
+    'Ω': '\\ensuremath{\\Omega}',
+};
+
+// Commands and environments that fail without a package, with the package that provides them
+const PACKAGE_USES: { pattern: RegExp; package: string; options?: string }[] = [
+    { pattern: /\\begin\{(?:align|gather|multline|alignat|flalign)\*?\}|\\begin\{(?:cases|[pbvBV]matrix|split)\}|\\(?:text|dfrac|tfrac|binom|eqref|operatorname|boxed|intertext)\b/, package: 'amsmath' },
+    { pattern: /\\(?:mathbb|mathfrak|therefore|because|leqslant|geqslant|checkmark|varnothing|nexists|square|blacksquare)\b/, package: 'amssymb' },
+    { pattern: /\\begin\{proof\}|\\qedhere\b/, package: 'amsthm' },
+    { pattern: /\\(?:includegraphics|rotatebox|scalebox|resizebox)\b/, package: 'graphicx' },
+    { pattern: /\\(?:textcolor|colorbox|color)\b/, package: 'xcolor' },
+    { pattern: /\\(?:SI|si|qty|unit|num|ang)\{/, package: 'siunitx' },
+    { pattern: /\\ce\{/, package: 'mhchem', options: 'version=4' },
+    { pattern: /\\begin\{tikzpicture\}|\\tikz\b/, package: 'tikz' },
+    { pattern: /\\begin\{axis\}/, package: 'pgfplots' },
+    { pattern: /\\href\{/, package: 'hyperref' },
+    { pattern: /\\url\{/, package: 'url' },
+    { pattern: /\\(?:toprule|midrule|bottomrule)\b/, package: 'booktabs' },
+    { pattern: /\\multirow\b/, package: 'multirow' },
+    { pattern: /\\begin\{tabularx\}/, package: 'tabularx' },
+    { pattern: /\\begin\{(?:enumerate|itemize)\}\[[^\]]*(?:label|leftmargin|itemsep|noitemsep|nosep)/, package: 'enumitem' },
+    { pattern: /\\begin\{(?:figure|table)\}\[H\]/, package: 'float' },
+    { pattern: /\\(?:degree|celsius)\b/, package: 'gensymb' },
+    { pattern: /\\[bcx]?cancel\b/, package: 'cancel' },
+    { pattern: /\\mathscr\b/, package: 'mathrsfs' },
+    { pattern: /\\bm\{/, package: 'bm' },
+    { pattern: /\\begin\{lstlisting\}|\\lstinline\b/, package: 'listings' },
+];
+
+// Packages that load (or replace) another one
+const LOADED_BY: Record<string, string[]> = {
+    amsmath: ['mathtools'],
+    xcolor: ['tikz', 'pgfplots'],
+    graphicx: ['tikz', 'pgfplots'],
+    tikz: ['pgfplots'],
+    url: ['hyperref'],
+};
+
+// Classes that load amsmath themselves
+const AMS_CLASSES = /^(?:amsart|amsbook|amsproc)$/;
+
+// Contents are not LaTeX, so braces and environments inside are not checked
+const VERBATIM_ENVIRONMENTS = new Set(['verbatim', 'verbatim*', 'Verbatim', 'lstlisting', 'minted', 'comment']);
+
+// "(A)", "A)", "A." - the option labels of a multiple-choice list
+const CHOICE_LABEL = /^\(?[A-H]\)?\.?$/;
+
+const stripComment = (line: string) => line.replace(/(^|[^\\])%.*$/, '$1');
+
+const codePoint = (char: string) => `U+${char.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0')}`;
+
+// Removes ``` and ```latex fences a model wrapped around LaTeX, keeping the line count
+function checkFences(lines: string[], fix: boolean, diagnostics: LintDiagnostic[]) {
+    lines.forEach((line, i) => {
+        if (!line.includes('```')) return;
+        diagnostics.push({ line: i + 1, severity: 'error', code: 'markdown-fence', message: 'Markdown code fence (```) in the LaTeX', fixed: fix });
+        if (fix) lines[i] = line.replace(/```[A-Za-z]*/g, '');
+    });
+}
+
+// Known characters are replaced in place; one diagnostic per character, at its first line
+function checkUnicode(lines: string[], fix: boolean, diagnostics: LintDiagnostic[]) {
+    const found = new Map<string, { line: number; count: number }>();
+    lines.forEach((line, i) => {
+        for (const char of line) {
+            if (char.charCodeAt(0) < 0x80) continue;
+            if (SUPPORTED_UNICODE.test(char) && UNICODE_REPLACEMENTS[char] === undefined) continue;
+            const seen = found.get(char);
+            if (seen) seen.count++;
+            else found.set(char, { line: i + 1, count: 1 });
+        }
+    });
+
+    for (const [char, { line, count }] of found) {
+        const replacement = UNICODE_REPLACEMENTS[char];
+        const times = count === 1 ? '' : ` (${count} times)`;
+        if (replacement === undefined) {
+            diagnostics.push({ line, severity: 'error', code: 'unicode', message: `Character "${char}" (${codePoint(char)}) is not supported by pdflatex${times}`, fixed: false });
+            continue;
+        }
+        const shown = replacement || 'nothing';
+        diagnostics.push({ line, severity: 'error', code: 'unicode', message: `Character "${char}" (${codePoint(char)}) should be ${shown}${times}`, fixed: fix });
+        if (fix) {
+            for (let i = 0; i < lines.length; i++) lines[i] = lines[i].split(char).join(replacement);
+        }
+    }
+}
+
+type OpenEnvironment = {
+    name: string;
+    line: number;
+    // Labels of \item[...] directly inside, and how many items had none
+    labels: string[];
+    plainItems: number;
+};
+
+// Walks the document once for environments, braces and choice lists. Returns whether
+// \end{document} was the only thing missing.
+function checkStructure(lines: string[], diagnostics: LintDiagnostic[]): boolean {
+    const environments: OpenEnvironment[] = [];
+    const braces: number[] = [];
+    let verbatim: string | null = null;
+
+    const closeEnvironment = (name: string, line: number) => {
+        const index = environments.map((env) => env.name).lastIndexOf(name);
+        if (index === -1) {
+            diagnostics.push({ line, severity: 'error', code: 'unbalanced-environment', message: `\\end{${name}} without a matching \\begin{${name}}`, fixed: false });
+            return;
+        }
+        for (const open of environments.splice(index + 1).reverse()) {
+            diagnostics.push({ line: open.line, severity: 'error', code: 'unbalanced-environment', message: `\\begin{${open.name}} is closed by \\end{${name}} on line ${line}`, fixed: false });
+        }
+        const env = environments.pop()!;
+        const isChoiceList = env.name === 'enumerate' && env.plainItems === 0 && env.labels.length >= 2
+            && env.labels.every((label) => CHOICE_LABEL.test(label));
+        if (isChoiceList && !environments.some((outer) => outer.name === 'minipage')) {
+            diagnostics.push({
+                line: env.line,
+                severity: 'warning',
+                code: 'mcq-minipage',
+                message: 'Multiple-choice options are not inside \\begin{minipage}{\\linewidth}, so the question can break across pages',
+                fixed: false,
+            });
+        }
+    };
+
+    lines.forEach((raw, i) => {
+        const lineNumber = i + 1;
+        if (verbatim) {
+            if (raw.includes(`\\end{${verbatim}}`)) verbatim = null;
+            return;
+        }
+        const line = stripComment(raw);
+
+        for (let pos = 0; pos < line.length; pos++) {
+            const char = line[pos];
+            if (char === '{') {
+                braces.push(lineNumber);
+            } else if (char === '}') {
+                if (braces.length === 0) {
+                    diagnostics.push({ line: lineNumber, severity: 'error', code: 'unbalanced-brace', message: 'Closing brace } without an opening brace', fixed: false });
+                } else {
+                    braces.pop();
+                }
+            } else if (char === '\\') {
+                const command = /^\\(?:(begin|end)\{([^}]*)\}|verb\*?(.)|item\s*\[([^\]]*)\]|(item)\b|[A-Za-z@]+|.)/.exec(line.substring(pos));
+                if (!command) continue;
+                const [text, kind, name, verbDelimiter, label, plainItem] = command;
+                pos += text.length - 1;
+
+                if (kind === 'begin') {
+                    if (VERBATIM_ENVIRONMENTS.has(name)) {
+                        const close = line.indexOf(`\\end{${name}}`, pos);
+                        if (close === -1) {
+                            verbatim = name;
+                            return;
+                        }
+                        pos = close + `\\end{${name}}`.length - 1;
+                        continue;
+                    }
+                    environments.push({ name, line: lineNumber, labels: [], plainItems: 0 });
+                } else if (kind === 'end') {
+                    closeEnvironment(name, lineNumber);
+                } else if (verbDelimiter) {
+                    const end = line.indexOf(verbDelimiter, pos + 1);
+                    pos = end === -1 ? line.length : end;
+                } else if (label !== undefined || plainItem) {
+                    const list = environments[environments.length - 1];
+                    if (!list) continue;
+                    if (label !== undefined) list.labels.push(label.trim());
+                    else list.plainItems++;
+                }
+            }
+        }
+    });
+
+    for (const line of braces) {
+        diagnostics.push({ line, severity: 'error', code: 'unbalanced-brace', message: 'Opening brace { is never closed', fixed: false });
+    }
+    const onlyDocumentOpen = environments.length === 1 && environments[0].name === 'document';
+    if (!onlyDocumentOpen) {
+        for (const open of environments) {
+            diagnostics.push({ line: open.line, severity: 'error', code: 'unbalanced-environment', message: `\\begin{${open.name}} is never closed`, fixed: false });
+        }
+    }
+    return onlyDocumentOpen;
+}
+
+// Packages loaded in the preamble (comments ignored), plus the ones the class implies
+function loadedPackages(preamble: string) {
+    const loaded = new Set<string>();
+    for (const match of preamble.matchAll(/\\(?:usepackage|RequirePackage)\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/g)) {
+        for (const name of match[1].split(',')) loaded.add(name.trim());
+    }
+    const documentClass = /\\documentclass\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/.exec(preamble)?.[1].trim();
+    if (documentClass && AMS_CLASSES.test(documentClass)) {
+        loaded.add('amsmath');
+        loaded.add('amssymb');
+    }
+    return loaded;
+}
+
+// Uses of commands whose package is missing; fixed by loading the package before \begin{document}
+function checkPackages(lines: string[], fix: boolean, diagnostics: LintDiagnostic[]) {
+    const docLine = lines.findIndex((line) => stripComment(line).includes('\\begin{document}'));
+    const code = lines.map(stripComment);
+    const preamble = code.slice(0, docLine === -1 ? 0 : docLine).join('\n');
+    const loaded = loadedPackages(preamble);
+
+    const missing: { package: string; options?: string; line: number; command: string }[] = [];
+    for (const use of PACKAGE_USES) {
+        const satisfied = [use.package, ...(LOADED_BY[use.package] ?? [])];
+        if (satisfied.some((name) => loaded.has(name)) || missing.some((m) => m.package === use.package)) continue;
+
+        const index = code.findIndex((line) => use.pattern.test(line));
+        if (index === -1) continue;
+        const command = use.pattern.exec(code[index])![0].replace(/\{$/, '').replace(/\[.*$/, '[...]');
+        // A macro of the same name defined in the preamble is not a missing package
+        const name = /^\\[A-Za-z]+/.exec(command)?.[0];
+        if (name && name !== '\\begin' && new RegExp(`\\\\(?:(?:re|provide)?newcommand\\*?|def|DeclareMathOperator\\*?)\\s*\\{?\\${name}(?![A-Za-z])`).test(preamble)) continue;
+        missing.push({ package: use.package, options: use.options, line: index + 1, command });
+    }
+    if (missing.length === 0) return;
+
+    // Inserted lines push everything from \begin{document} down
+    const canFix = fix && docLine !== -1;
+    if (canFix) {
+        for (const diagnostic of diagnostics) {
+            if (diagnostic.line !== null && diagnostic.line > docLine) diagnostic.line += missing.length;
+        }
+        lines.splice(docLine, 0, ...missing.map((m) => `\\usepackage${m.options ? `[${m.options}]` : ''}{${m.package}}`));
+    }
+    for (const m of missing) {
+        diagnostics.push({
+            line: canFix && m.line > docLine ? m.line + missing.length : m.line,
+            severity: 'error',
+            code: 'missing-package',
+            message: `${m.command} needs \\usepackage{${m.package}}`,
+            fixed: canFix,
+        });
+    }
+}
+
+// Checks a full document; with fix, the returned TeX has the safe problems corrected and
+// the diagnostics' line numbers refer to it
+export function lintTex(tex: string, engine: TexEngine, fix = true): LintResult {
+    const lines = tex.split('\n');
+    const diagnostics: LintDiagnostic[] = [];
+
+    checkFences(lines, fix, diagnostics);
+    // xelatex and lualatex read unicode directly
+    if (engine === 'pdflatex') checkUnicode(lines, fix, diagnostics);
+
+    // Before the structure check, so the line numbers it quotes already count the added packages
+    checkPackages(lines, fix, diagnostics);
+
+    const missingEndDocument = checkStructure(lines, diagnostics);
+    if (missingEndDocument) {
+        diagnostics.push({ line: fix ? lines.length + 1 : lines.length, severity: 'error', code: 'unbalanced-environment', message: '\\end{document} is missing', fixed: fix });
+        if (fix) lines.push('\\end{document}');
+    }
+
+    diagnostics.sort((a, b) => (a.line ?? Infinity) - (b.line ?? Infinity));
+    return { tex: lines.join('\n'), diagnostics };
+}
+
+// "3 fixed, 1 error, 2 warnings" for progress and logs
+export function describeLint(diagnostics: LintDiagnostic[]): string {
+    if (diagnostics.length === 0) return 'No problems found';
+    const count = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+    const fixed = diagnostics.filter((d) => d.fixed).length;
+    const errors = diagnostics.filter((d) => !d.fixed && d.severity === 'error').length;
+    const warnings = diagnostics.filter((d) => !d.fixed && d.severity === 'warning').length;
+    return [fixed > 0 ? `${fixed} fixed` : '', errors > 0 ? count(errors, 'error') : '', warnings > 0 ? count(warnings, 'warning') : '']
+        .filter(Boolean)
+        .join(', ');
+}
@@ -0,0 +1,301 @@
+import type { ExamDocument, Question, QuestionPart } from './exam';
+import { escapeXml, texToHtml } from './markup';
+import { createZip } from './zip';
+
+// Quiz exports for learning management systems. MCQs become single-answer multiple choice
+// with the correct option flagged, questions with a numericAnswer become numerical items
+// with its tolerance, questions with numeric parts get an auto-graded field per numeric part,
+// and everything else is an essay graded by hand with the worked answer attached.
+
+export const LMS_FORMATS = ['moodle', 'qti'] as const;
+export type LmsFormat = typeof LMS_FORMATS[number];
+
+type ItemKind = 'choice' | 'numerical' | 'parts' | 'essay';
+
+function itemKind(q: Question): ItemKind {
+    if (q.type === 'mcq') return 'choice';
+    if (q.numericAnswer) return 'numerical';
+    return q.parts.some((part) => part.numericAnswer) ? 'parts' : 'essay';
+}
+
+// "(a)", "a)", "A." -> "a" / "A"
+const bareLabel = (label: string) => label.replace(/[().\s]/g, '');
+
+const partLabel = (label: string) => `<strong>(${escapeXml(bareLabel(label))})</strong>`;
+
+const sumMarks = (parts: QuestionPart[]) => parts.reduce((sum, part) => sum + part.marks, 0);
+
+// Stem plus labelled parts with their marks; field adds an answer field after a part
+function questionHtml(q: Question, parts = q.parts, field?: (part: QuestionPart) => string) {
+    const html = parts.map((part) => [`<p>${partLabel(part.label)} [${part.marks}]</p>`, texToHtml(part.text), field?.(part)].filter(Boolean).join('\n'));
+    return [texToHtml(q.stem), ...html].join('\n');
+}
+
+// Worked solution, part by part where the question has parts
+function answerHtml(q: Question, parts = q.parts) {
+    const html = parts
+        .filter((part) => part.answer.trim())
+        .map((part) => `<p>${partLabel(part.label)}</p>\n${texToHtml(part.answer)}`);
+    return [q.answer.trim() ? texToHtml(q.answer) : '', ...html].filter(Boolean).join('\n');
+}
+
+// ]]> cannot appear inside CDATA; split it across two sections
+const cdata = (text: string) => `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+const moodleText = (html: string) => `<text>${cdata(html)}</text>`;
+
+function moodleQuestion(type: string, name: string, text: string, feedback: string, grade: number, fields: string[]): string {
+    return [
+        `  <question type="${type}">`,
+        `    <name><text>${escapeXml(name)}</text></name>`,
+        `    <questiontext format="html">${moodleText(text)}</questiontext>`,
+        `    <generalfeedback format="html">${moodleText(feedback)}</generalfeedback>`,
+        `    <defaultgrade>${grade}</defaultgrade>`,
+        '    <penalty>0</penalty>',
+        '    <hidden>0</hidden>',
+        ...fields,
+        '  </question>',
+    ].join('\n');
+}
+
+const essayFields = (marks: number, answer: string) => [
+    '    <responseformat>editor</responseformat>',
+    '    <responserequired>1</responserequired>',
+    `    <responsefieldlines>${Math.min(5 + marks * 2, 40)}</responsefieldlines>`,
+    `    <graderinfo format="html">${moodleText(answer)}</graderinfo>`,
+];
+
+// Cloze weights are whole numbers
+const clozeGap = (part: QuestionPart) =>
+    `<p>{${Math.max(1, Math.round(part.marks))}:NUMERICAL:=${part.numericAnswer!.value}:${part.numericAnswer!.tolerance}}</p>`;
+
+// One Moodle question per exam question. Numeric parts become NUMERICAL gaps of a cloze question;
+// cloze has no written-answer gap, so the other parts of the same question follow as an essay.
+function moodleQuestions(q: Question): string[] {
+    const name = `${q.id}: ${q.topic}`;
+    switch (itemKind(q)) {
+        case 'choice':
+            return [moodleQuestion('multichoice', name, questionHtml(q), answerHtml(q), q.marks, [
+                '    <single>true</single>',
+                '    <shuffleanswers>false</shuffleanswers>',
+                '    <answernumbering>ABCD</answernumbering>',
+                ...q.choices.map((choice) => `    <answer fraction="${choice.correct ? 100 : 0}" format="html">${moodleText(texToHtml(choice.text))}</answer>`),
+            ])];
+        case 'numerical':
+            return [moodleQuestion('numerical', name, questionHtml(q), answerHtml(q), q.marks, [
+                `    <answer fraction="100"><text>${q.numericAnswer!.value}</text><tolerance>${q.numericAnswer!.tolerance}</tolerance></answer>`,
+            ])];
+        case 'essay':
+            return [moodleQuestion('essay', name, questionHtml(q), answerHtml(q), q.marks, essayFields(q.marks, answerHtml(q)))];
+        case 'parts': {
+            const numeric = q.parts.filter((part) => part.numericAnswer);
+            const written = q.parts.filter((part) => !part.numericAnswer);
+            const partsName = (parts: QuestionPart[]) => `${q.id} (${parts.map((part) => bareLabel(part.label)).join(', ')}): ${q.topic}`;
+            const cloze = moodleQuestion('cloze', written.length > 0 ? partsName(numeric) : name,
+                questionHtml(q, numeric, clozeGap), answerHtml(q, numeric), sumMarks(numeric), []);
+            if (written.length === 0) return [cloze];
+            return [cloze, moodleQuestion('essay', partsName(written), questionHtml(q, written), answerHtml(q, written),
+                sumMarks(written), essayFields(sumMarks(written), answerHtml(q, written)))];
+        }
+    }
+}
+
+// Moodle XML, imported under a category named after the exam
+export function buildMoodleXml(doc: ExamDocument, name: string): string {
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<quiz>',
+        '  <question type="category">',
+        `    <category><text>${escapeXml(`$course$/${name}`)}</text></category>`,
+        '  </question>',
+        ...doc.questions.flatMap(moodleQuestions),
+        '</quiz>',
+        '',
+    ].join('\n');
+}
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const QTI_SCHEMA = 'http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd';
+
+// Item and choice identifiers must be XML names
+const qtiIdentifier = (value: string) => (/^[A-Za-z_]/.test(value) ? value : `_${value}`).replace(/[^A-Za-z0-9_.-]/g, '_');
+
+function scoreDeclarations(marks: number) {
+    return [
+        '  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">',
+        '    <defaultValue><value>0</value></defaultValue>',
+        '  </outcomeDeclaration>',
+        '  <outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float">',
+        `    <defaultValue><value>${marks}</value></defaultValue>`,
+        '  </outcomeDeclaration>',
+    ];
+}
+
+// Full marks when the condition holds, otherwise SCORE keeps its default of 0
+function scoreWhen(condition: string[], marks: number) {
+    return [
+        '  <responseProcessing>',
+        '    <responseCondition>',
+        '      <responseIf>',
+        ...condition.map((line) => `        ${line}`),
+        `        <setOutcomeValue identifier="SCORE"><baseValue baseType="float">${marks}</baseValue></setOutcomeValue>`,
+        '      </responseIf>',
+        '    </responseCondition>',
+        '  </responseProcessing>',
+    ];
+}
+
+// Shows the worked answer once the item is submitted
+const SHOW_SOLUTION = '    <setOutcomeValue identifier="FEEDBACK"><baseValue baseType="identifier">SOLUTION</baseValue></setOutcomeValue>';
+
+function solutionFeedback(q: Question) {
+    return [
+        '  <outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>',
+        `  <modalFeedback outcomeIdentifier="FEEDBACK" identifier="SOLUTION" showHide="show">\n${answerHtml(q)}\n  </modalFeedback>`,
+    ];
+}
+
+function qtiItem(q: Question, identifier: string): string {
+    const kind = itemKind(q);
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<assessmentItem xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${QTI_NAMESPACE} ${QTI_SCHEMA}"`,
+        `  identifier="${identifier}" title="${escapeXml(`${q.id}: ${q.topic}`)}" adaptive="false" timeDependent="false">`,
+    ];
+    const body = `    <div>\n${questionHtml(q)}\n    </div>`;
+
+    if (kind === 'choice') {
+        const correct = q.choices.find((choice) => choice.correct);
+        lines.push(
+            '  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">',
+            `    <correctResponse><value>${qtiIdentifier(correct?.label ?? '')}</value></correctResponse>`,
+            '  </responseDeclaration>',
+            ...scoreDeclarations(q.marks),
+            '  <itemBody>',
+            body,
+            '    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">',
+            ...q.choices.map((choice) => `      <simpleChoice identifier="${qtiIdentifier(choice.label)}">${texToHtml(choice.text)}</simpleChoice>`),
+            '    </choiceInteraction>',
+            '  </itemBody>',
+            ...scoreWhen(['<match><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></match>'], q.marks)
+        );
+    } else if (kind === 'numerical' && q.numericAnswer) {
+        const { value, tolerance } = q.numericAnswer;
+        lines.push(
+            '  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="float">',
+            `    <correctResponse><value>${value}</value></correctResponse>`,
+            '  </responseDeclaration>',
+            ...scoreDeclarations(q.marks),
+            '  <itemBody>',
+            body,
+            '    <p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="12"/></p>',
+            '  </itemBody>',
+            ...scoreWhen([
+                `<equal toleranceMode="absolute" tolerance="${tolerance} ${tolerance}">`,
+                '  <variable identifier="RESPONSE"/>',
+                '  <correct identifier="RESPONSE"/>',
+                '</equal>',
+            ], q.marks)
+        );
+    } else if (kind === 'parts') {
+        // One field per part: numeric parts add their marks when within tolerance,
+        // written parts are graded by hand on top
+        const responseId = (part: QuestionPart) => `RESPONSE_${q.parts.indexOf(part) + 1}`;
+        const numeric = q.parts.filter((part) => part.numericAnswer);
+        const [declaration, feedback] = solutionFeedback(q);
+        lines.push(
+            ...q.parts.map((part) => (part.numericAnswer
+                ? `  <responseDeclaration identifier="${responseId(part)}" cardinality="single" baseType="float">\n    <correctResponse><value>${part.numericAnswer.value}</value></correctResponse>\n  </responseDeclaration>`
+                : `  <responseDeclaration identifier="${responseId(part)}" cardinality="single" baseType="string"/>`)),
+            ...scoreDeclarations(q.marks),
+            declaration,
+            '  <itemBody>',
+            `    <div>\n${questionHtml(q, q.parts, (part) => (part.numericAnswer
+                ? `<p><textEntryInteraction responseIdentifier="${responseId(part)}" expectedLength="12"/></p>`
+                : `<extendedTextInteraction responseIdentifier="${responseId(part)}" expectedLines="${Math.min(5 + part.marks * 2, 40)}"/>`))}\n    </div>`,
+            '  </itemBody>',
+            '  <responseProcessing>',
+            ...numeric.flatMap((part) => [
+                '    <responseCondition>',
+                '      <responseIf>',
+                `        <equal toleranceMode="absolute" tolerance="${part.numericAnswer!.tolerance} ${part.numericAnswer!.tolerance}">`,
+                `          <variable identifier="${responseId(part)}"/>`,
+                `          <correct identifier="${responseId(part)}"/>`,
+                '        </equal>',
+                `        <setOutcomeValue identifier="SCORE"><sum><variable identifier="SCORE"/><baseValue baseType="float">${part.marks}</baseValue></sum></setOutcomeValue>`,
+                '      </responseIf>',
+                '    </responseCondition>',
+            ]),
+            SHOW_SOLUTION,
+            '  </responseProcessing>',
+            feedback
+        );
+    } else {
+        // Graded by hand; the worked answer is shown as feedback once the response is submitted
+        const [declaration, feedback] = solutionFeedback(q);
+        lines.push(
+            '  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string"/>',
+            ...scoreDeclarations(q.marks),
+            declaration,
+            '  <itemBody>',
+            body,
+            `    <extendedTextInteraction responseIdentifier="RESPONSE" expectedLines="${Math.min(5 + q.marks * 2, 40)}"/>`,
+            '  </itemBody>',
+            '  <responseProcessing>',
+            SHOW_SOLUTION,
+            '  </responseProcessing>',
+            feedback
+        );
+    }
+
+    lines.push('</assessmentItem>', '');
+    return lines.join('\n');
+}
+
+// IMS QTI 2.1 content package: one item per question, a test referencing them in order, and the manifest
+export function buildQtiPackage(doc: ExamDocument, name: string, id: string): Buffer {
+    const items = doc.questions.map((q) => ({ question: q, identifier: qtiIdentifier(q.id), href: `items/${qtiIdentifier(q.id)}.xml` }));
+    const testId = qtiIdentifier(`test-${id}`);
+
+    const test = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<assessmentTest xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${QTI_NAMESPACE} ${QTI_SCHEMA}"`,
+        `  identifier="${testId}" title="${escapeXml(name)}">`,
+        '  <testPart identifier="part1" navigationMode="nonlinear" submissionMode="simultaneous">',
+        `    <assessmentSection identifier="section1" title="${escapeXml(name)}" visible="true">`,
+        ...items.map((item) => `      <assessmentItemRef identifier="${item.identifier}" href="${item.href}"/>`),
+        '    </assessmentSection>',
+        '  </testPart>',
+        '</assessmentTest>',
+        '',
+    ].join('\n');
+
+    const manifest = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="${qtiIdentifier(`manifest-${id}`)}">`,
+        '  <metadata>',
+        '    <schema>QTIv2.1 Package</schema>',
+        '    <schemaversion>1.0.0</schemaversion>',
+        '  </metadata>',
+        '  <organizations/>',
+        '  <resources>',
+        `    <resource identifier="${testId}" type="imsqti_test_xmlv2p1" href="assessment.xml">`,
+        '      <file href="assessment.xml"/>',
+        ...items.map((item) => `      <dependency identifierref="${item.identifier}"/>`),
+        '    </resource>',
+        ...items.flatMap((item) => [
+            `    <resource identifier="${item.identifier}" type="imsqti_item_xmlv2p1" href="${item.href}">`,
+            `      <file href="${item.href}"/>`,
+            '    </resource>',
+        ]),
+        '  </resources>',
+        '</manifest>',
+        '',
+    ].join('\n');
+
+    return createZip([
+        { name: 'imsmanifest.xml', content: manifest },
+        { name: 'assessment.xml', content: test },
+        ...items.map((item) => ({ name: item.href, content: qtiItem(item.question, item.identifier) })),
+    ]);
+}
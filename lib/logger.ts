@@ -0,0 +1,91 @@
+// Request-scoped structured logging. Every line carries the request ID, level and route
+// (plus the pipeline stage when there is one), so concurrent requests can be told apart
+// and the output can be shipped to a log system. LOG_FORMAT picks JSON lines or the
+// one-line-per-event console format; it defaults to JSON in production. No Node imports,
+// so progress.ts can refer to the type.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export type Logger = {
+    requestId: string;
+    debug: (message: string, fields?: LogFields) => void;
+    info: (message: string, fields?: LogFields) => void;
+    warn: (message: string, fields?: LogFields) => void;
+    // An Error in fields.error is written out with its name, message and stack
+    error: (message: string, fields?: LogFields) => void;
+    // Same request, with extra fields on every line (e.g. { stage: 'analysis' })
+    child: (fields: LogFields) => Logger;
+};
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+// IDs passed in by a proxy are kept when they look like IDs, so logs join up across hops
+const REQUEST_ID_PATTERN = /^[\w.:-]{8,64}$/;
+
+function minimumLevel(): LogLevel {
+    const level = process.env.LOG_LEVEL as LogLevel | undefined;
+    return level && LEVELS.includes(level) ? level : 'info';
+}
+
+function jsonOutput() {
+    const format = process.env.LOG_FORMAT;
+    return format ? format === 'json' : process.env.NODE_ENV === 'production';
+}
+
+function serializeError(error: unknown) {
+    if (error instanceof Error) return { name: error.name, message: error.message, stack: error.stack };
+    return { message: String(error) };
+}
+
+const formatValue = (value: unknown) => (typeof value === 'string' && !/\s/.test(value) ? value : JSON.stringify(value));
+
+// "14:02:11.532 INFO  3f2a9c1b process-pdf model Model response received durationMs=2301 chars=1234"
+function prettyLine(entry: LogFields & { time: string; level: LogLevel; requestId: string; route: string; msg: string }) {
+    const { time, level, requestId, route, stage, msg, error, ...fields } = entry;
+    const head = [time.substring(11, 23), level.toUpperCase().padEnd(5), requestId.substring(0, 8), route, stage, msg]
+        .filter((part) => part !== undefined && part !== '')
+        .join(' ');
+    const tail = Object.entries(fields)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `${key}=${formatValue(value)}`);
+    const stack = error ? `\n${(error as { stack?: string }).stack ?? (error as { message: string }).message}` : '';
+    return [head, ...tail].join(' ') + stack;
+}
+
+export function createLogger(route: string, requestId: string = crypto.randomUUID(), context: LogFields = {}): Logger {
+    const write = (level: LogLevel, message: string, fields: LogFields = {}) => {
+        if (LEVELS.indexOf(level) < LEVELS.indexOf(minimumLevel())) return;
+        const entry = {
+            time: new Date().toISOString(),
+            level,
+            requestId,
+            route,
+            ...context,
+            msg: message,
+            ...fields,
+            ...(fields.error !== undefined ? { error: serializeError(fields.error) } : {}),
+        };
+        const line = jsonOutput() ? JSON.stringify(entry) : prettyLine(entry);
+        if (level === 'error' || level === 'warn') console.error(line);
+        else console.log(line);
+    };
+
+    return {
+        requestId,
+        debug: (message, fields) => write('debug', message, fields),
+        info: (message, fields) => write('info', message, fields),
+        warn: (message, fields) => write('warn', message, fields),
+        error: (message, fields) => write('error', message, fields),
+        child: (fields) => createLogger(route, requestId, { ...context, ...fields }),
+    };
+}
+
+// Logger for an incoming request, reusing a well-formed X-Request-Id from the client or proxy
+export function requestLogger(route: string, headers: Headers): Logger {
+    const incoming = headers.get(REQUEST_ID_HEADER);
+    return createLogger(route, incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID());
+}
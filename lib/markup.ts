@@ -0,0 +1,81 @@
+// LaTeX fragments (stems, parts, choices, answers) to HTML for the export formats.
+// Math stays TeX between \( \) and \[ \] so MathJax renders it on the other side;
+// common text markup becomes tags, anything unknown passes through untouched.
+// The output is well-formed XML, since QTI embeds it as XHTML.
+
+export function escapeXml(text: string) {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+// $$..$$, \[..\], \(..\), $..$ (not \$), and the display math environments MathJax knows
+const MATH_PATTERN = /\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)|(\\begin\{(equation|align|gather|multline|eqnarray)\*?\}[\s\S]*?\\end\{\5\*?\})|(?<!\\)\$((?:\\.|[^$\\])+?)\$/g;
+
+const INLINE_TAGS: Record<string, [string, string]> = {
+    textbf: ['<strong>', '</strong>'],
+    textit: ['<em>', '</em>'],
+    emph: ['<em>', '</em>'],
+    underline: ['<u>', '</u>'],
+    texttt: ['<code>', '</code>'],
+    text: ['', ''],
+    textrm: ['', ''],
+    mbox: ['', ''],
+};
+
+// Layout-only commands with no HTML counterpart
+const DROPPED = /\\(?:noindent|hfill|medskip|smallskip|bigskip|par|centering|newpage|clearpage|displaystyle)\b\s*|\\[vh]space\*?\{[^}]*\}/g;
+
+function convertText(text: string): string {
+    let html = escapeXml(text);
+
+    // Innermost first, so nested commands resolve from the inside out
+    const command = /\\(textbf|textit|emph|underline|texttt|textrm|text|mbox)\{([^{}]*)\}/g;
+    let previous: string;
+    do {
+        previous = html;
+        html = html.replace(command, (_, name: string, body: string) => `${INLINE_TAGS[name][0]}${body}${INLINE_TAGS[name][1]}`);
+    } while (html !== previous);
+
+    html = html
+        .replace(/\\begin\{itemize\}/g, '<ul>')
+        .replace(/\\begin\{enumerate\}(\[[^\]]*\])?/g, '<ol>')
+        .replace(/\\end\{(itemize|enumerate)\}/g, (_, env: string) => (env === 'itemize' ? '</li></ul>' : '</li></ol>'))
+        .replace(/\\item(\[[^\]]*\])?\s*/g, '</li><li>')
+        .replace(/<(ul|ol)>\s*<\/li>/g, '<$1>')
+        .replace(/\\\\(\[[^\]]*\])?|\\newline\b/g, '<br/>')
+        .replace(DROPPED, '')
+        .replace(/\\(&amp;|[%$#_{}])/g, '$1')
+        .replace(/---/g, '—')
+        .replace(/--/g, '–')
+        .replace(/``/g, '“')
+        .replace(/''/g, '”')
+        .replace(/~/g, ' ');
+
+    // Blank lines separate paragraphs; lists stay block-level
+    return html
+        .split(/\n\s*\n/)
+        .map((block) => block.trim())
+        .filter(Boolean)
+        .map((block) => (/^<(ul|ol)>/.test(block) ? block : `<p>${block}</p>`))
+        .join('\n');
+}
+
+export function texToHtml(tex: string): string {
+    const math: string[] = [];
+    // Math is parked behind placeholders so the text rules never touch it
+    const text = tex.replace(MATH_PATTERN, (match, dollars, brackets, parens, environment, _name, inline) => {
+        const display = dollars ?? brackets;
+        math.push(
+            display !== undefined ? `\\[${escapeXml(display)}\\]`
+                : parens !== undefined ? `\\(${escapeXml(parens)}\\)`
+                    : environment !== undefined ? escapeXml(environment)
+                        : `\\(${escapeXml(inline)}\\)`
+        );
+        return `\u0000${math.length - 1}\u0000`;
+    });
+
+    return convertText(text).replace(/\u0000(\d+)\u0000/g, (_, i: string) => math[Number(i)]);
+}
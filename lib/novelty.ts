@@ -0,0 +1,279 @@
+import type { SourceAnalysis } from './analysis';
+import { loadExamDocument } from './build';
+import { QUESTION_SCHEMA, parseQuestion, type ExamDocument, type Question } from './exam';
+import { examFamily } from './library';
+import type { ExamOptions } from './options';
+import type { PromptProfile } from './profiles';
+import { buildQuestionPrompt } from './prompts';
+import type { ModelProvider, ModelSettings } from './providers';
+import type { ProgressTracker } from './progress';
+import { sourceText, type SourceFile } from './sources';
+
+// Programmatic check of the prompt's "no duplicates" rules. Each generated question is
+// compared with the source questions (text extracted from the uploads, plus the analysis
+// inventory) and with the questions of earlier attempts; questions that come too close are
+// rewritten, up to a limit, and the rest is reported per question.
+
+// A source question or earlier question to compare against
+export type NoveltyReference = {
+    kind: 'source' | 'attempt';
+    // "exam2019.pdf, part 3", "Attempt of 2026-03-12 09:14, q4"
+    label: string;
+    text: string;
+};
+
+export type NoveltyMatch = {
+    kind: NoveltyReference['kind'];
+    label: string;
+    // Combined similarity, 0 (unrelated) to 1 (identical)
+    score: number;
+    // Word overlap (Dice coefficient of the normalized vocabularies)
+    tokenOverlap: number;
+    sharedNumbers: string[];
+    sharedExpressions: string[];
+};
+
+export type QuestionNovelty = {
+    questionId: string;
+    // Closest reference, null when there was nothing to compare against
+    match: NoveltyMatch | null;
+    flagged: boolean;
+    // How often the question was rewritten for being too close
+    rewrites: number;
+};
+
+export type NoveltyReport = {
+    threshold: number;
+    sources: number;
+    attempts: number;
+    questions: QuestionNovelty[];
+};
+
+const DEFAULT_THRESHOLD = 0.6;
+const DEFAULT_REWRITE_ROUNDS = 1;
+const MAX_REWRITE_ROUNDS = 3;
+
+// Weights of the three signals in the combined score
+const WEIGHTS = { tokens: 0.5, numbers: 0.25, expressions: 0.25 };
+
+// Source text is cut into question-sized pieces at question numbers; text without any is
+// compared in overlapping windows of this many words
+const WINDOW_WORDS = 120;
+const MIN_CHUNK_WORDS = 8;
+
+// Numbered questions and \item, but not \item[(a)] (parts and choices)
+const QUESTION_START = /^\s*(?:\\item\b(?!\s*\[)|\\question\b|(?:question|problem|q)\.?\s*\d{1,2}\b|\d{1,2}\s*[.)](?=\s))/im;
+
+const STOP_WORDS = new Set([
+    'the', 'and', 'for', 'that', 'with', 'this', 'from', 'are', 'its', 'let', 'has', 'have', 'where', 'which', 'what',
+    'when', 'then', 'than', 'into', 'your', 'you', 'use', 'using', 'each', 'all', 'any', 'not', 'but', 'can', 'given',
+    'find', 'show', 'marks', 'mark', 'answer', 'question', 'part', 'following', 'value', 'values',
+]);
+
+// Fine-tuning of LaTeX that does not change an expression
+const EXPRESSION_NOISE = /\\(?:left|right|displaystyle|textstyle|[,;:! ])|\s+/g;
+
+type Features = {
+    words: Set<string>;
+    numbers: Set<string>;
+    expressions: Set<string>;
+};
+
+// "2.50" and "2.5" are the same constant
+const canonicalNumber = (value: string) => String(Number(value));
+
+function features(text: string): Features {
+    const expressions = new Set<string>();
+    for (const match of text.matchAll(/\$\$?([^$]+)\$\$?|\\\(([\s\S]+?)\\\)|\\\[([\s\S]+?)\\\]/g)) {
+        const expression = (match[1] ?? match[2] ?? match[3]).replace(EXPRESSION_NOISE, '');
+        // Lone symbols and numbers say nothing about a question
+        if (expression.length >= 4 && /[a-z]/i.test(expression)) expressions.add(expression);
+    }
+    const plain = text.replace(/\\[a-zA-Z]+/g, ' ').toLowerCase();
+    const numbers = new Set((plain.match(/(?<![a-z\d.])\d+(?:\.\d+)?/g) ?? []).map(canonicalNumber).filter((n) => Number(n) > 2));
+    const words = new Set((plain.match(/[a-z]{3,}/g) ?? []).filter((word) => !STOP_WORDS.has(word)));
+    return { words, numbers, expressions };
+}
+
+function questionText(q: Question): string {
+    return [q.stem, ...q.parts.map((part) => part.text), ...q.choices.map((choice) => choice.text)].join('\n');
+}
+
+const shared = (a: Set<string>, b: Set<string>) => [...a].filter((item) => b.has(item));
+
+function compare(question: Features, reference: Features): Omit<NoveltyMatch, 'kind' | 'label'> {
+    const sharedWords = shared(question.words, reference.words).length;
+    const vocabulary = question.words.size + reference.words.size;
+    const tokenOverlap = vocabulary > 0 ? (2 * sharedWords) / vocabulary : 0;
+    const sharedNumbers = shared(question.numbers, reference.numbers);
+    const sharedExpressions = shared(question.expressions, reference.expressions);
+    // A single shared constant is common; two or more start to look copied
+    const numberScore = question.numbers.size >= 2 ? sharedNumbers.length / question.numbers.size : 0;
+    const expressionScore = question.expressions.size > 0 ? sharedExpressions.length / question.expressions.size : 0;
+    return {
+        score: WEIGHTS.tokens * tokenOverlap + WEIGHTS.numbers * numberScore + WEIGHTS.expressions * expressionScore,
+        tokenOverlap,
+        sharedNumbers,
+        sharedExpressions,
+    };
+}
+
+// Text in question-sized chunks, each labelled with its position
+function splitText(name: string, text: string, kind: NoveltyReference['kind']): NoveltyReference[] {
+    const lines = text.split('\n');
+    const chunks: string[] = [];
+    let current: string[] = [];
+    for (const line of lines) {
+        if (QUESTION_START.test(line) && current.join(' ').split(/\s+/).length >= MIN_CHUNK_WORDS) {
+            chunks.push(current.join('\n'));
+            current = [];
+        }
+        current.push(line);
+    }
+    if (current.length > 0) chunks.push(current.join('\n'));
+
+    if (chunks.length > 1) {
+        return chunks.map((chunk, i) => ({ kind, label: `${name}, part ${i + 1}`, text: chunk }));
+    }
+    const words = text.split(/\s+/).filter(Boolean);
+    const windows: NoveltyReference[] = [];
+    for (let start = 0; start < words.length; start += WINDOW_WORDS / 2) {
+        windows.push({ kind, label: `${name}, words ${start + 1}-${Math.min(start + WINDOW_WORDS, words.length)}`, text: words.slice(start, start + WINDOW_WORDS).join(' ') });
+        if (start + WINDOW_WORDS >= words.length) break;
+    }
+    return windows;
+}
+
+// Source references: extracted text of every readable upload plus the analysis inventory,
+// which also covers scans whose text only the model could read
+export function sourceReferences(sources: SourceFile[], analysis: SourceAnalysis | null): NoveltyReference[] {
+    const references: NoveltyReference[] = [];
+    for (const source of sources) {
+        let text: string | null = null;
+        try {
+            text = sourceText(source);
+        } catch {
+            // Unreadable text only weakens the check
+        }
+        if (text?.trim()) references.push(...splitText(source.name, text, 'source'));
+    }
+    analysis?.inventory.forEach((item, i) => {
+        references.push({ kind: 'source', label: `Source question ${i + 1} (${item.type})`, text: item.summary });
+    });
+    return references;
+}
+
+// Questions of the exam's family (ancestors, regenerations and their versions) from the library
+export async function familyReferences(examId: string, exclude: string | null = null): Promise<NoveltyReference[]> {
+    const family = (await examFamily(examId)).filter((exam) => exam.id !== exclude);
+    const references: NoveltyReference[] = [];
+    for (const exam of family) {
+        const doc = await loadExamDocument(exam.id).catch(() => null);
+        if (!doc) continue;
+        const label = `Attempt of ${exam.createdAt.substring(0, 16).replace('T', ' ')}${exam.batch ? `, version ${exam.batch.version}` : ''}`;
+        references.push(...doc.questions.map((q) => ({ kind: 'attempt' as const, label: `${label}, ${q.id}`, text: questionText(q) })));
+    }
+    return references;
+}
+
+// Previous attempt as sent by the client (LaTeX body), when it is not in the library
+export function previousContextReferences(tex: string): NoveltyReference[] {
+    return splitText('Previous attempt', tex, 'attempt');
+}
+
+// Threshold from NOVELTY_THRESHOLD (0-1); questions scoring at or above it are flagged
+export function getNoveltyThreshold(): number {
+    const parsed = Number(process.env.NOVELTY_THRESHOLD);
+    return process.env.NOVELTY_THRESHOLD && parsed > 0 && parsed <= 1 ? parsed : DEFAULT_THRESHOLD;
+}
+
+// Rewrite rounds: request field wins over NOVELTY_REWRITE_ROUNDS, clamped; 0 only reports
+export function getNoveltyRounds(requested: FormDataEntryValue | null): number {
+    const raw = typeof requested === 'string' && requested !== '' ? requested : process.env.NOVELTY_REWRITE_ROUNDS;
+    const parsed = raw === undefined ? NaN : parseInt(raw, 10);
+    if (isNaN(parsed)) return DEFAULT_REWRITE_ROUNDS;
+    return Math.min(Math.max(parsed, 0), MAX_REWRITE_ROUNDS);
+}
+
+// Closest reference per question. Locked questions are the user's choice and never flagged.
+export function assessNovelty(doc: ExamDocument, references: NoveltyReference[], threshold = getNoveltyThreshold()): NoveltyReport {
+    const referenceFeatures = references.map((reference) => ({ reference, features: features(reference.text) }));
+    const questions = doc.questions.map((q): QuestionNovelty => {
+        const own = features(questionText(q));
+        let match: NoveltyMatch | null = null;
+        for (const { reference, features: other } of referenceFeatures) {
+            const result = compare(own, other);
+            if (!match || result.score > match.score) match = { kind: reference.kind, label: reference.label, ...result };
+        }
+        return { questionId: q.id, match, flagged: !q.locked && !!match && match.score >= threshold, rewrites: 0 };
+    });
+    return {
+        threshold,
+        sources: references.filter((reference) => reference.kind === 'source').length,
+        attempts: references.filter((reference) => reference.kind === 'attempt').length,
+        questions,
+    };
+}
+
+// What the rewrite prompt is told about the clash
+function describeMatch(match: NoveltyMatch) {
+    const details = [
+        match.sharedNumbers.length > 0 ? `the values ${match.sharedNumbers.join(', ')}` : '',
+        match.sharedExpressions.length > 0 ? `the expressions ${match.sharedExpressions.map((e) => `$${e}$`).join(', ')}` : '',
+    ].filter(Boolean);
+    return `This question is too close to ${match.kind === 'source' ? 'a source question' : 'a question of an earlier attempt'} (${match.label})${details.length > 0 ? `, sharing ${details.join(' and ')}` : ''}. Write a new variant of the same skill with different values, functions, context and wording.`;
+}
+
+// Assesses the exam and rewrites flagged questions, rechecking after every round
+export async function ensureNovelty(
+    doc: ExamDocument,
+    references: NoveltyReference[],
+    context: {
+        rounds: number;
+        provider: ModelProvider;
+        settings: ModelSettings;
+        options: ExamOptions;
+        analysis: SourceAnalysis | null;
+        profile: PromptProfile;
+        tracker: ProgressTracker;
+    }
+): Promise<{ doc: ExamDocument; report: NoveltyReport }> {
+    const { provider, settings, options, analysis, profile, tracker } = context;
+    tracker.start('novelty', 'Checking novelty', `${references.length} references`);
+    let report = assessNovelty(doc, references);
+    const rewrites = new Map<string, number>();
+
+    for (let round = 1; round <= context.rounds && report.questions.some((q) => q.flagged); round++) {
+        const flagged = report.questions.filter((q) => q.flagged);
+        const id = `novelty-rewrite-${round}`;
+        tracker.start(id, 'Rewriting questions too close to earlier ones', `${flagged.map((q) => q.questionId).join(', ')} (round ${round} of ${context.rounds})`);
+        for (const { questionId, match } of flagged) {
+            const current = doc.questions.find((q) => q.id === questionId)!;
+            try {
+                const result = await provider.generate({
+                    task: 'question',
+                    prompt: buildQuestionPrompt(doc, current, describeMatch(match!), options, analysis, profile),
+                    model: settings.model,
+                    temperature: settings.temperature,
+                    thinkingLevel: settings.thinkingLevel,
+                    responseSchema: QUESTION_SCHEMA,
+                });
+                const question = parseQuestion(result.text);
+                doc = { ...doc, questions: doc.questions.map((q) => (q.id === questionId ? { ...question, id: questionId, locked: false } : q)) };
+                rewrites.set(questionId, (rewrites.get(questionId) ?? 0) + 1);
+            } catch (error) {
+                // A cancelled run stops here; otherwise the original question is still a valid one,
+                // so a failed rewrite only leaves the flag
+                if (tracker.signal?.aborted) throw error;
+                tracker.log.warn('Novelty rewrite failed', { questionId, error });
+            }
+        }
+        tracker.finish(id, `Round ${round} of ${context.rounds}`);
+        report = assessNovelty(doc, references, report.threshold);
+    }
+
+    report = { ...report, questions: report.questions.map((q) => ({ ...q, rewrites: rewrites.get(q.questionId) ?? 0 })) };
+    const remaining = report.questions.filter((q) => q.flagged).length;
+    tracker.finish('novelty', remaining > 0 ? `${remaining} still too close` : `${rewrites.size} rewritten, all below ${report.threshold}`);
+    return { doc, report };
+}
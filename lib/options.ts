@@ -0,0 +1,130 @@
+// User-facing exam configuration, chosen on the upload screen and injected into the
+// generation prompt. Shared by the API (validation) and page.tsx, so keep it free of Node imports.
+
+export const DIFFICULTIES = ['easier', 'same', 'harder'] as const;
+export type Difficulty = typeof DIFFICULTIES[number];
+
+export type ExamOptions = {
+    // Target length; either, both or neither may be set (null lets the model choose)
+    questionCount: number | null;
+    totalMarks: number | null;
+    // Relative to the source material
+    difficulty: Difficulty;
+    // Share of MCQs in percent, the rest short- or long-answer; null lets the model choose
+    mcqPercent: number | null;
+    // Printed on the cover
+    timeLimitMinutes: number | null;
+    // Detected source question type -> relative weight (0 leaves the type out, 1 is normal)
+    topicWeights: Record<string, number>;
+    // Parallel versions (A, B, C, ...) generated in one run; 1 is a single exam
+    versions: number;
+    // Prompt profile id (a directory under prompts/); null uses the server default
+    profile: string | null;
+};
+
+export const DEFAULT_EXAM_OPTIONS: ExamOptions = {
+    questionCount: null,
+    totalMarks: null,
+    difficulty: 'same',
+    mcqPercent: null,
+    timeLimitMinutes: null,
+    topicWeights: {},
+    versions: 1,
+    profile: null,
+};
+
+export const OPTION_LIMITS = {
+    questionCount: { min: 1, max: 50 },
+    totalMarks: { min: 1, max: 500 },
+    mcqPercent: { min: 0, max: 100 },
+    timeLimitMinutes: { min: 5, max: 600 },
+    topicWeight: { min: 0, max: 5 },
+    versions: { min: 1, max: 5 },
+};
+
+// Profile ids are directory names: "math", "computer-science"
+export const PROFILE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+
+const MAX_TOPICS = 50;
+const MAX_TOPIC_LENGTH = 200;
+
+function readInteger(value: unknown, name: keyof typeof OPTION_LIMITS): number | null {
+    if (value === undefined || value === null || value === '') return null;
+    const parsed = typeof value === 'string' ? Number(value) : value;
+    const { min, max } = OPTION_LIMITS[name];
+    if (typeof parsed !== 'number' || !Number.isInteger(parsed) || parsed < min || parsed > max) {
+        throw new Error(`Invalid ${name}: expected a whole number between ${min} and ${max}`);
+    }
+    return parsed;
+}
+
+// Validates untrusted input (the "options" form field, a saved record) and fills in defaults
+export function parseExamOptions(value: unknown): ExamOptions {
+    if (value === undefined || value === null || value === '') return { ...DEFAULT_EXAM_OPTIONS };
+    if (typeof value === 'string') {
+        try {
+            value = JSON.parse(value);
+        } catch {
+            throw new Error('Invalid options: not valid JSON');
+        }
+    }
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new Error('Invalid options: expected an object');
+    }
+    const raw = value as Record<string, unknown>;
+
+    const difficulty = raw.difficulty ?? DEFAULT_EXAM_OPTIONS.difficulty;
+    if (!DIFFICULTIES.includes(difficulty as Difficulty)) {
+        throw new Error(`Invalid difficulty "${difficulty}": expected ${DIFFICULTIES.join(', ')}`);
+    }
+
+    const topicWeights: Record<string, number> = {};
+    if (raw.topicWeights !== undefined && raw.topicWeights !== null) {
+        if (typeof raw.topicWeights !== 'object' || Array.isArray(raw.topicWeights)) {
+            throw new Error('Invalid topicWeights: expected an object of topic -> weight');
+        }
+        const entries = Object.entries(raw.topicWeights as Record<string, unknown>);
+        if (entries.length > MAX_TOPICS) throw new Error(`Invalid topicWeights: at most ${MAX_TOPICS} topics`);
+        const { min, max } = OPTION_LIMITS.topicWeight;
+        for (const [topic, weight] of entries) {
+            if (!topic.trim() || topic.length > MAX_TOPIC_LENGTH) throw new Error('Invalid topicWeights: bad topic name');
+            if (typeof weight !== 'number' || !isFinite(weight) || weight < min || weight > max) {
+                throw new Error(`Invalid weight for "${topic}": expected a number between ${min} and ${max}`);
+            }
+            topicWeights[topic] = weight;
+        }
+    }
+
+    const profile = raw.profile === undefined || raw.profile === '' ? null : raw.profile;
+    if (profile !== null && (typeof profile !== 'string' || !PROFILE_ID_PATTERN.test(profile))) {
+        throw new Error('Invalid profile: expected a profile id such as "math"');
+    }
+
+    const options: ExamOptions = {
+        questionCount: readInteger(raw.questionCount, 'questionCount'),
+        totalMarks: readInteger(raw.totalMarks, 'totalMarks'),
+        difficulty: difficulty as Difficulty,
+        mcqPercent: readInteger(raw.mcqPercent, 'mcqPercent'),
+        timeLimitMinutes: readInteger(raw.timeLimitMinutes, 'timeLimitMinutes'),
+        topicWeights,
+        versions: readInteger(raw.versions, 'versions') ?? DEFAULT_EXAM_OPTIONS.versions,
+        profile,
+    };
+    if (Object.values(topicWeights).length > 0 && Object.values(topicWeights).every((weight) => weight === 0)) {
+        throw new Error('Invalid topicWeights: at least one topic needs a weight above 0');
+    }
+    return options;
+}
+
+// "90 minutes" / "2 hours" / "1 hour 30 minutes"
+export function formatTimeLimit(minutes: number) {
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    const parts: string[] = [];
+    if (hours > 0) parts.push(`${hours} ${hours === 1 ? 'hour' : 'hours'}`);
+    if (rest > 0 || hours === 0) parts.push(`${rest} ${rest === 1 ? 'minute' : 'minutes'}`);
+    return parts.join(' ');
+}
+
+// "A", "B", ... for version index 0, 1, ...
+export const versionLabel = (index: number) => String.fromCharCode(65 + index);
@@ -0,0 +1,120 @@
+import type { ExamDocument, NumericAnswer } from './exam';
+
+// Practice mode: an exam taken in the browser. Every question (or part, when it has parts)
+// is one item. MCQs and items with a numericAnswer are scored against the answer key,
+// the rest are marked by the student against the worked solution. Shared by the client,
+// which shows the score straight away, and the attempts API, which recomputes it before saving.
+
+export const PRACTICE_MODES = ['single', 'paper'] as const;
+export type PracticeMode = typeof PRACTICE_MODES[number];
+
+export type PracticeItem = {
+    // "q1" for a whole question, "q1:a" for one of its parts
+    key: string;
+    questionId: string;
+    // Part label as written in the exam, null for a whole question
+    part: string | null;
+    marks: number;
+    kind: 'choice' | 'numeric' | 'self';
+    // Correct choice label, or the numeric answer; null for self-marked items
+    expected: string | NumericAnswer | null;
+};
+
+export type ItemResult = {
+    key: string;
+    marks: number;
+    // null while a self-marked item has not been marked yet
+    awarded: number | null;
+    // Auto-scored items only
+    correct: boolean | null;
+};
+
+export type AttemptScore = {
+    results: ItemResult[];
+    score: number;
+    maxScore: number;
+    // Self-marked items still waiting for a mark
+    pending: number;
+};
+
+export type Attempt = AttemptScore & {
+    id: string;
+    examId: string;
+    mode: PracticeMode;
+    startedAt: string;
+    submittedAt: string;
+    durationSeconds: number;
+    timeLimitMinutes: number | null;
+    // Item key -> choice label, number as typed, or free text
+    responses: Record<string, string>;
+    // Item key -> marks the student gave themselves
+    selfMarks: Record<string, number>;
+};
+
+const partKey = (label: string) => label.replace(/[().\s]/g, '');
+
+export function practiceItems(doc: ExamDocument): PracticeItem[] {
+    return doc.questions.flatMap((q): PracticeItem[] => {
+        if (q.type === 'mcq') {
+            const correct = q.choices.find((choice) => choice.correct);
+            return [{ key: q.id, questionId: q.id, part: null, marks: q.marks, kind: 'choice', expected: correct?.label ?? null }];
+        }
+        if (q.parts.length === 0) {
+            const kind = q.numericAnswer ? 'numeric' : 'self';
+            return [{ key: q.id, questionId: q.id, part: null, marks: q.marks, kind, expected: q.numericAnswer ?? null }];
+        }
+        return q.parts.map((part) => ({
+            key: `${q.id}:${partKey(part.label)}`,
+            questionId: q.id,
+            part: part.label,
+            marks: part.marks,
+            kind: part.numericAnswer ? 'numeric' : 'self',
+            expected: part.numericAnswer ?? null,
+        }));
+    });
+}
+
+// Accepts "2.5", "-3", "1e-3", "2,5" (decimal comma) and simple fractions like "3/4"
+export function parseNumber(input: string): number | null {
+    const text = input.trim().replace(/−/g, '-').replace(/\s+/g, '');
+    if (!text) return null;
+    const fraction = /^([-+]?\d+(?:\.\d+)?)\/(\d+(?:\.\d+)?)$/.exec(text);
+    if (fraction) {
+        const denominator = Number(fraction[2]);
+        return denominator === 0 ? null : Number(fraction[1]) / denominator;
+    }
+    const value = Number(/^[-+]?\d+,\d+$/.test(text) ? text.replace(',', '.') : text);
+    return isFinite(value) ? value : null;
+}
+
+function isCorrect(item: PracticeItem, response: string | undefined): boolean {
+    if (!response || item.expected === null) return false;
+    if (typeof item.expected === 'string') return response === item.expected;
+    const value = parseNumber(response);
+    // Slack for values printed with fewer digits than the float they were computed as
+    const slack = 1e-9 * Math.max(1, Math.abs(item.expected.value));
+    return value !== null && Math.abs(value - item.expected.value) <= item.expected.tolerance + slack;
+}
+
+export function scoreAttempt(
+    doc: ExamDocument,
+    responses: Record<string, string>,
+    selfMarks: Record<string, number>
+): AttemptScore {
+    const results = practiceItems(doc).map((item): ItemResult => {
+        if (item.kind === 'self') {
+            const mark = selfMarks[item.key];
+            const awarded = typeof mark === 'number' && isFinite(mark) ? Math.min(Math.max(mark, 0), item.marks) : null;
+            return { key: item.key, marks: item.marks, awarded, correct: null };
+        }
+        const correct = isCorrect(item, responses[item.key]);
+        return { key: item.key, marks: item.marks, awarded: correct ? item.marks : 0, correct };
+    });
+
+    return {
+        results,
+        score: results.reduce((sum, result) => sum + (result.awarded ?? 0), 0),
+        maxScore: results.reduce((sum, result) => sum + result.marks, 0),
+        pending: results.filter((result) => result.awarded === null).length,
+    };
+}
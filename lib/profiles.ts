@@ -0,0 +1,183 @@
+import fs from 'fs';
+import path from 'path';
+import { DIFFICULTIES, PROFILE_ID_PATTERN, type Difficulty } from './options';
+
+// Subject-specific prompt profiles, read from PROMPTS_DIR (default ./prompts). Each profile
+// is a directory: profile.json with its name, version, role, difficulty wording and subject
+// rules, plus the templates it changes. The default template of every prompt (exam.txt,
+// analysis.txt, question.txt, version.txt, repair.txt) is in _defaults/. Files are read on
+// every request, so edits apply without a restart.
+
+export type PromptTemplate = 'exam' | 'analysis' | 'question' | 'version' | 'repair';
+
+// Placeholders each template may use, as {{name}}; one <template>.txt per key
+export const TEMPLATE_VARIABLES: Record<PromptTemplate, string[]> = {
+    exam: ['role', 'sourceProtocol', 'analysis', 'options', 'regeneration', 'blueprint', 'locked', 'difficulty', 'rules', 'outputFormat'],
+    analysis: ['engine'],
+    question: ['role', 'instruction', 'difficulty', 'id', 'rules', 'preamble', 'analysis', 'otherQuestions', 'question'],
+    version: ['role', 'version', 'questionCount', 'difficulty', 'rules', 'exam'],
+    repair: ['engine', 'log', 'document', 'exam'],
+};
+
+const TEMPLATE_VARIABLE = /\{\{\s*(\w+)\s*\}\}/g;
+
+const templateVariables = (template: string) => [...new Set([...template.matchAll(TEMPLATE_VARIABLE)].map((match) => match[1]))];
+
+// Fills {{name}} placeholders. A line holding only a placeholder that comes out empty is
+// dropped along with the blank line after it, so optional blocks leave no gaps.
+export function renderTemplate(template: string, values: Record<string, string>): string {
+    const lines = template.split('\n');
+    const out: string[] = [];
+    for (let i = 0; i < lines.length; i++) {
+        const alone = /^\s*\{\{\s*(\w+)\s*\}\}\s*$/.exec(lines[i]);
+        if (alone && !values[alone[1]]?.trim()) {
+            if (lines[i + 1]?.trim() === '') i++;
+            continue;
+        }
+        out.push(lines[i].replace(TEMPLATE_VARIABLE, (_, name: string) => {
+            if (values[name] === undefined) throw new Error(`Unknown template variable {{${name}}}`);
+            return values[name];
+        }));
+    }
+    return out.join('\n').trim();
+}
+
+export type PromptProfile = {
+    id: string;
+    name: string;
+    // Bumped by whoever edits the profile; saved with every exam it produced
+    version: number;
+    description: string;
+    // "Elite Chemistry Professor"
+    role: string;
+    difficulty: Record<Difficulty, string>;
+    // Subject rules added to every generation prompt
+    rules: string[];
+    templates: Record<PromptTemplate, string>;
+};
+
+export type ProfileSummary = Pick<PromptProfile, 'id' | 'name' | 'version' | 'description'>;
+
+// What a saved exam records about the profile that produced it
+export type ProfileRef = Pick<PromptProfile, 'id' | 'name' | 'version'>;
+
+const DEFAULT_DIFFICULTY: Record<Difficulty, string> = {
+    easier: 'Slightly easier than the source: fewer steps per question, friendlier values, same concepts.',
+    same: 'Match the source difficulty and rigor.',
+    harder: 'Harder than the source: more steps, less scaffolding, combined concepts.',
+};
+
+export function getProfilesDir() {
+    return process.env.PROMPTS_DIR || path.join(process.cwd(), 'prompts');
+}
+
+export function getDefaultProfileId() {
+    return process.env.PROMPT_PROFILE || 'math';
+}
+
+// Not a valid profile id, so it can never be requested or listed as a profile
+const DEFAULTS_DIR = '_defaults';
+
+function profileDir(id: string) {
+    if (!PROFILE_ID_PATTERN.test(id)) throw new Error(`Invalid prompt profile "${id}"`);
+    return path.join(getProfilesDir(), id);
+}
+
+async function readOptional(file: string): Promise<string | null> {
+    try {
+        return await fs.promises.readFile(file, 'utf-8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+    }
+}
+
+// profile.json, checked field by field so a hand-edited file fails with a useful message
+function parseProfileJson(id: string, text: string): Omit<PromptProfile, 'templates'> {
+    let raw: Record<string, unknown>;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new Error(`Prompt profile "${id}": profile.json is not valid JSON`);
+    }
+    const fail = (message: string) => new Error(`Prompt profile "${id}": ${message}`);
+
+    if (typeof raw.name !== 'string' || !raw.name.trim()) throw fail('name must be a non-empty string');
+    if (typeof raw.version !== 'number' || !Number.isInteger(raw.version) || raw.version < 1) throw fail('version must be a whole number from 1');
+    if (typeof raw.role !== 'string' || !raw.role.trim()) throw fail('role must be a non-empty string');
+    if (raw.description !== undefined && typeof raw.description !== 'string') throw fail('description must be a string');
+
+    const difficulty = { ...DEFAULT_DIFFICULTY };
+    if (raw.difficulty !== undefined) {
+        const given = raw.difficulty as Record<string, unknown>;
+        if (typeof given !== 'object' || given === null || Array.isArray(given)) throw fail('difficulty must map easier/same/harder to text');
+        for (const level of DIFFICULTIES) {
+            if (given[level] === undefined) continue;
+            if (typeof given[level] !== 'string') throw fail(`difficulty.${level} must be a string`);
+            difficulty[level] = given[level] as string;
+        }
+    }
+
+    const rules = raw.rules ?? [];
+    if (!Array.isArray(rules) || rules.some((rule) => typeof rule !== 'string')) throw fail('rules must be a list of strings');
+
+    return {
+        id,
+        name: raw.name.trim(),
+        version: raw.version,
+        description: (raw.description as string | undefined)?.trim() ?? '',
+        role: raw.role.trim(),
+        difficulty,
+        rules: rules as string[],
+    };
+}
+
+// Every template of the profile, falling back to the default one, checked for placeholders
+// the prompt does not fill
+async function loadTemplates(id: string): Promise<Record<PromptTemplate, string>> {
+    const templates = {} as Record<PromptTemplate, string>;
+    for (const [name, variables] of Object.entries(TEMPLATE_VARIABLES) as [PromptTemplate, string[]][]) {
+        const template = await readOptional(path.join(profileDir(id), `${name}.txt`))
+            ?? await readOptional(path.join(getProfilesDir(), DEFAULTS_DIR, `${name}.txt`));
+        if (template === null) throw new Error(`Prompt profile "${id}" has no ${name}.txt and there is no ${DEFAULTS_DIR}/${name}.txt`);
+
+        const unknown = templateVariables(template).filter((variable) => !variables.includes(variable));
+        if (unknown.length > 0) {
+            throw new Error(`Prompt profile "${id}": unknown variables in ${name}.txt ${unknown.map((variable) => `{{${variable}}}`).join(', ')} (available: ${variables.join(', ') || 'none'})`);
+        }
+        templates[name] = template;
+    }
+    return templates;
+}
+
+// null picks PROMPT_PROFILE, then "math"
+export async function loadProfile(id: string | null): Promise<PromptProfile> {
+    const profileId = id ?? getDefaultProfileId();
+    const text = await readOptional(path.join(profileDir(profileId), 'profile.json'));
+    if (text === null) throw new Error(`Prompt profile "${profileId}" not found`);
+    return { ...parseProfileJson(profileId, text), templates: await loadTemplates(profileId) };
+}
+
+// Every valid profile, by name; broken ones are left out (loading them names the problem)
+export async function listProfiles(): Promise<ProfileSummary[]> {
+    let entries: fs.Dirent[];
+    try {
+        entries = await fs.promises.readdir(getProfilesDir(), { withFileTypes: true });
+    } catch {
+        return [];
+    }
+
+    const profiles: ProfileSummary[] = [];
+    for (const entry of entries) {
+        if (!entry.isDirectory() || !PROFILE_ID_PATTERN.test(entry.name)) continue;
+        try {
+            const { id, name, version, description } = await loadProfile(entry.name);
+            profiles.push({ id, name, version, description });
+        } catch {
+            // Not a profile, or a broken one
+        }
+    }
+    return profiles.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export const profileRef = (profile: PromptProfile): ProfileRef => ({ id: profile.id, name: profile.name, version: profile.version });
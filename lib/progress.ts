@@ -0,0 +1,145 @@
+import type { TexEngine } from './compiler';
+import type { ExamDocument } from './exam';
+import type { LintDiagnostic } from './lint';
+import type { Logger } from './logger';
+import type { ExamOptions } from './options';
+import type { NoveltyReport } from './novelty';
+import type { ProfileRef } from './profiles';
+import type { ModelSettings } from './providers/types';
+import type { UsageReport } from './usage';
+
+// Stage events, streamed by /api/process-pdf as Server-Sent Events and kept per job by
+// /api/jobs for polling. Shared by the routes and page.tsx, so keep it free of Node imports.
+
+// Final payload of /api/process-pdf
+export type ExamResult = {
+    // Library record this generation was saved as
+    examId: string;
+    parentId: string | null;
+    exam: ExamDocument;
+    tex: string;
+    pdfBase64: string | null;
+    questions: string[];
+    error: string | null;
+    log: string | null;
+    repairRounds: number;
+    // TeX engine the exam was compiled with, and its pass count
+    engine: TexEngine;
+    passes: number;
+    // Static LaTeX checks of the final TeX, fixed ones included
+    diagnostics: LintDiagnostic[];
+    settings: ModelSettings;
+    // Exam options the generation used, reused on regeneration
+    options: ExamOptions;
+    solutionsTex: string | null;
+    solutionsPdfBase64: string | null;
+    solutionsError: string | null;
+    solutionsLog: string | null;
+    solutionsRepairRounds: number;
+    solutionsPasses: number;
+    solutionsDiagnostics: LintDiagnostic[];
+    // Model calls of this request with token counts and estimated cost
+    usage: UsageReport;
+    // Finished stages in the order they finished
+    timings: StageTiming[];
+    // Set when the run produced parallel versions; the fields above describe version A
+    batch: BatchResult | null;
+    // Similarity of each question to the sources and earlier attempts
+    novelty: NoveltyReport;
+    // Prompt profile that generated the exam, null for exams from before profiles
+    profile: ProfileRef | null;
+};
+
+export type BatchResult = {
+    id: string;
+    // Library record of each version, in version order
+    versions: { version: string; examId: string }[];
+    // Balance problems and cross-version duplicates that could not be fixed
+    issues: string[];
+};
+
+export type StepStatus = 'running' | 'done' | 'failed';
+
+export type StageTiming = {
+    id: string;
+    label: string;
+    status: StepStatus;
+    durationMs: number;
+};
+
+export type ProgressEvent =
+    // A pipeline stage started or finished; the client upserts steps by id
+    | {
+        type: 'step';
+        id: string;
+        label: string;
+        status: StepStatus;
+        detail?: string;
+        // Milliseconds since the request was received
+        elapsedMs: number;
+        // Set once the stage has finished
+        durationMs?: number;
+    }
+    // Thought summary from the model
+    | { type: 'thought'; text: string }
+    // Chunk of raw model output (question JSON with LaTeX fields) as it is written
+    | { type: 'output'; delta: string }
+    // Final payload, same shape as the JSON response
+    | { type: 'result'; data: ExamResult }
+    | { type: 'error'; error: string };
+
+export type ProgressTracker = {
+    start: (id: string, label: string, detail?: string) => void;
+    finish: (id: string, detail?: string, status?: StepStatus) => void;
+    emit: (event: ProgressEvent) => void;
+    timings: () => StageTiming[];
+    // Request logger; stage starts and finishes are logged with their durations
+    log: Logger;
+    // Set for cancellable runs (jobs); model calls and compiles stop when it aborts
+    signal?: AbortSignal;
+};
+
+// Wraps an event sink with step timing
+export function createTracker(emit: (event: ProgressEvent) => void, log: Logger, signal?: AbortSignal): ProgressTracker {
+    const origin = Date.now();
+    const steps = new Map<string, { label: string; startedAt: number }>();
+    const timings: StageTiming[] = [];
+
+    return {
+        start(id, label, detail) {
+            // A cancelled run stops at the next stage
+            signal?.throwIfAborted();
+            steps.set(id, { label, startedAt: Date.now() });
+            log.debug(label, { stage: id, status: 'running', detail });
+            emit({ type: 'step', id, label, status: 'running', detail, elapsedMs: Date.now() - origin });
+        },
+        finish(id, detail, status = 'done') {
+            const step = steps.get(id);
+            const now = Date.now();
+            if (step) timings.push({ id, label: step.label, status, durationMs: now - step.startedAt });
+            (status === 'failed' ? log.warn : log.info)(step?.label ?? id, {
+                stage: id,
+                status,
+                detail,
+                durationMs: step ? now - step.startedAt : undefined,
+            });
+            emit({
+                type: 'step',
+                id,
+                label: step?.label ?? id,
+                status,
+                detail,
+                elapsedMs: now - origin,
+                durationMs: step ? now - step.startedAt : undefined,
+            });
+        },
+        emit,
+        timings: () => [...timings],
+        log,
+        signal,
+    };
+}
+
+export function encodeEvent(event: ProgressEvent): string {
+    return `data: ${JSON.stringify(event)}\n\n`;
+}
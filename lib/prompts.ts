@@ -0,0 +1,183 @@
+import type { SourceAnalysis } from './analysis';
+import type { TexEngine } from './compiler';
+import type { ExamDocument, Question } from './exam';
+import { formatTimeLimit, type ExamOptions } from './options';
+import { renderTemplate, type PromptProfile } from './profiles';
+import type { SourceText } from './sources';
+
+// Prompts for every model task. Outputs are JSON matching the schemas in lib/exam.ts.
+// The prompt texts are templates of a prompt profile (lib/profiles.ts); this module fills
+// them with the exam, the sources and the profile's role, difficulty wording and rules.
+
+export type ExamPromptInput = {
+    options: ExamOptions;
+    analysis: SourceAnalysis;
+    // Whether the source files are attached as well; otherwise the analysis is all the model sees
+    sourcesAttached: boolean;
+    regenerate: boolean;
+    // Body of the previous attempt, so a regeneration can steer away from it
+    previousContext: string | null;
+    // Source question types detected by an earlier run
+    blueprint: string[] | null;
+    // Questions the user locked; they are merged back after generation
+    locked: Question[];
+    profile: PromptProfile;
+};
+
+// The profile's subject rules as a prompt section, empty when it has none
+function describeRules(profile: PromptProfile): string {
+    if (profile.rules.length === 0) return '';
+    return `SUBJECT RULES (${profile.name.toUpperCase()}):
+${profile.rules.map((rule) => `- ${rule}`).join('\n')}`;
+}
+
+// Tied to EXAM_DOCUMENT_SCHEMA, so it stays in code rather than in the templates
+const EXAM_OUTPUT_FORMAT = `OUTPUT FORMAT (JSON):
+- preamble: LaTeX from \\documentclass up to, not including, \\begin{document}.
+- header: Title block and instructions printed before the first question.
+- questions: In exam order. id ("q1", "q2", ...), type ("mcq" | "short-answer" | "long-answer"), topic, stem, parts, choices, marks, answer.
+  - stem/parts/choices hold LaTeX fragments only: no \\item, no numbering, no marks (the renderer adds them).
+  - MCQs: choices labelled A, B, C, ... with exactly one correct. Other types: choices is [].
+  - Multi-part questions: parts labelled a, b, c, ... each with marks and answer; the question's marks is their sum.
+  - Short-answer questions without parts, and parts, whose result is a single number: numericAnswer { value, tolerance } with the exact value. Omit it otherwise.
+- sourceQuestionTypes: The analysis question types, unchanged.`;
+
+// The engine is the one exams will be compiled with, so the reconstructed preamble suits it
+export function buildAnalysisPrompt(engine: TexEngine, profile: PromptProfile): string {
+    return renderTemplate(profile.templates.analysis, { engine });
+}
+
+const SOURCE_TEXT_LIMIT = 60000;
+
+const SOURCE_TEXT_LABELS: Record<SourceText['kind'], string> = {
+    tex: 'LaTeX source; follow its style',
+    docx: 'Word document converted to plain text; equations are linearised',
+};
+
+// LaTeX and Word sources travel as text rather than as attached files
+export function withSourceTexts(prompt: string, texts: SourceText[]): string {
+    if (texts.length === 0) return prompt;
+    const blocks = texts.map((source) => `=== ${source.name} (${SOURCE_TEXT_LABELS[source.kind]}) ===
+\`\`\`${source.kind === 'tex' ? 'latex' : 'text'}
+${source.text.substring(0, SOURCE_TEXT_LIMIT)}
+\`\`\``);
+    return `${prompt}
+
+SOURCE FILES (TEXT):
+${blocks.join('\n\n')}`;
+}
+
+// Source description used instead of (or next to) the source files
+function describeAnalysis(analysis: SourceAnalysis): string {
+    return `SOURCE ANALYSIS:
+- Topics: ${analysis.topics.join(', ')}
+- Formatting: ${analysis.formatting}
+- Source questions:
+${analysis.inventory.map((q, i) => `  ${i + 1}. [${q.type}] ${q.topic}${q.marks ? ` (${q.marks} marks)` : ''}: ${q.summary}`).join('\n')}
+- Source preamble:
+\`\`\`latex
+${analysis.preamble}
+\`\`\`
+- Source header:
+\`\`\`latex
+${analysis.header}
+\`\`\``;
+}
+
+// Length, mix, weights and timing from the user's exam options
+function describeOptions(options: ExamOptions, lockedCount: number): string {
+    const lines: string[] = [];
+    if (options.questionCount) {
+        const remaining = options.questionCount - lockedCount;
+        lines.push(`- Length: Exactly ${options.questionCount} questions in total${lockedCount > 0 ? ` (generate ${Math.max(remaining, 1)}, the locked ones make up the rest)` : ''}.`);
+    } else {
+        lines.push('- Length: Select mix of ~15-20 questions (standard exam length).');
+    }
+    if (options.totalMarks) lines.push(`- Marks: The whole exam${lockedCount > 0 ? ', locked questions included,' : ''} is worth exactly ${options.totalMarks} marks.`);
+    if (options.mcqPercent !== null) {
+        lines.push(`- Mix: About ${options.mcqPercent}% of questions are MCQs; the remaining ${100 - options.mcqPercent}% are short- or long-answer questions.`);
+    }
+    const weights = Object.entries(options.topicWeights);
+    if (weights.some(([, weight]) => weight !== 1)) {
+        lines.push('- Topic weights (relative share of questions; 0 = leave the type out):');
+        for (const [topic, weight] of weights) lines.push(`  - ${topic}: ${weight}`);
+    }
+    if (options.timeLimitMinutes) {
+        lines.push(`- Timing: Students get ${formatTimeLimit(options.timeLimitMinutes)}; size the exam so it can be finished in that time. The renderer prints the time limit, do not add it to the header.`);
+    }
+    return lines.join('\n');
+}
+
+export function buildExamPrompt(input: ExamPromptInput): string {
+    const { options, profile } = input;
+
+    return renderTemplate(profile.templates.exam, {
+        role: profile.role,
+        sourceProtocol: input.sourcesAttached
+            ? 'Use ALL source files (attached, and as text at the end) together with the analysis below.'
+            : 'Work from the source analysis below (the source files are not attached).',
+        analysis: describeAnalysis(input.analysis),
+        options: describeOptions(options, input.locked.length),
+        regeneration: input.regenerate ? `REGEN PROTOCOL (ACTIVE):
+- History: User solved a previous attempt. DO NOT reuse values, wording, or structure.
+- Variance: Change order, mix concepts, vary part counts.
+- Previous Attempt:
+\`\`\`latex
+${(input.previousContext ?? '').substring(0, 15000)}
+\`\`\`` : '',
+        blueprint: input.blueprint ? `SOURCE BLUEPRINT (MANDATORY):
+- Target these specific types: [${input.blueprint.join(', ')}]
+- Strategy: Create fresh instances for each type. Change context/functions/values.` : '',
+        locked: input.locked.length > 0 ? `LOCKED QUESTIONS (KEPT BY THE USER):
+- These ${input.locked.length} question(s) stay in the exam unchanged and are inserted after generation.
+- Do NOT include them in your output and do not test the same concept again; generate only the remaining questions.
+- Locked: ${input.locked.map((q) => `${q.id} (${q.topic}, ${q.marks} marks)`).join('; ')}` : '',
+        difficulty: profile.difficulty[options.difficulty],
+        rules: describeRules(profile),
+        outputFormat: EXAM_OUTPUT_FORMAT,
+    });
+}
+
+export function buildRepairPrompt(doc: ExamDocument, texContent: string, log: string, engine: TexEngine, profile: PromptProfile): string {
+    return renderTemplate(profile.templates.repair, {
+        engine,
+        log,
+        document: texContent,
+        exam: JSON.stringify(doc),
+    });
+}
+
+// Rewrites a single question; the rest of the exam is context only
+export function buildQuestionPrompt(
+    doc: ExamDocument,
+    question: Question,
+    instruction: string | null,
+    options: ExamOptions,
+    analysis: SourceAnalysis | null,
+    profile: PromptProfile
+): string {
+    return renderTemplate(profile.templates.question, {
+        role: profile.role,
+        instruction: instruction ? `USER INSTRUCTION (MANDATORY):
+${instruction.substring(0, 1000)}` : '',
+        difficulty: profile.difficulty[options.difficulty],
+        id: question.id,
+        rules: describeRules(profile),
+        preamble: doc.preamble,
+        analysis: analysis ? describeAnalysis(analysis) : '',
+        otherQuestions: doc.questions.filter((q) => q.id !== question.id).map((q) => `- ${q.id} [${q.type}] ${q.topic}`).join('\n'),
+        question: JSON.stringify(question),
+    });
+}
+
+// Parallel version of a finished exam: same blueprint question by question, new instances
+export function buildVersionPrompt(base: ExamDocument, version: string, options: ExamOptions, profile: PromptProfile): string {
+    return renderTemplate(profile.templates.version, {
+        role: profile.role,
+        version,
+        questionCount: String(base.questions.length),
+        difficulty: profile.difficulty[options.difficulty],
+        rules: describeRules(profile),
+        exam: JSON.stringify(base),
+    });
+}
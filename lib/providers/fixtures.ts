@@ -0,0 +1,96 @@
+import type { SourceAnalysis } from '../analysis';
+import type { ExamDocument, Question } from '../exam';
+
+// Canned model output for the stub provider. Kept small, valid and pdflatex-only
+// so the whole pipeline (validation, rendering, compile, solutions) can run offline.
+
+export const EXAM_DOCUMENT_FIXTURE: ExamDocument = {
+    preamble: String.raw`\documentclass[11pt]{article}
+\usepackage[margin=1in]{geometry}
+\usepackage{amsmath,amssymb}`,
+    header: String.raw`\begin{center}
+{\Large\textbf{Practice Exam}}\\[4pt]
+Answer all questions. Show your work.
+\end{center}`,
+    questions: [
+        {
+            id: 'q1',
+            type: 'mcq',
+            topic: 'Product Rule',
+            stem: String.raw`Which of the following is the derivative of $f(x) = x^3 \sin x$?`,
+            parts: [],
+            choices: [
+                { label: 'A', text: String.raw`$3x^2 \cos x$`, correct: false },
+                { label: 'B', text: String.raw`$3x^2 \sin x + x^3 \cos x$`, correct: true },
+                { label: 'C', text: String.raw`$x^3 \cos x$`, correct: false },
+                { label: 'D', text: String.raw`$3x^2 \sin x - x^3 \cos x$`, correct: false },
+            ],
+            marks: 2,
+            answer: String.raw`By the product rule, $f'(x) = 3x^2 \sin x + x^3 \cos x$.`,
+        },
+        {
+            id: 'q2',
+            type: 'short-answer',
+            topic: 'Integration by Substitution',
+            stem: String.raw`Evaluate $\displaystyle \int_0^2 x e^{x^2} \, dx$.`,
+            parts: [],
+            choices: [],
+            marks: 4,
+            answer: String.raw`Substitute $u = x^2$, $du = 2x \, dx$:
+\[
+\int_0^2 x e^{x^2} \, dx = \frac{1}{2} \int_0^4 e^u \, du = \frac{e^4 - 1}{2}.
+\]`,
+            numericAnswer: { value: 26.7991, tolerance: 0.001 },
+        },
+        {
+            id: 'q3',
+            type: 'long-answer',
+            topic: 'Logarithmic Differentiation',
+            stem: String.raw`Let $g(x) = \ln(x^2 + 4)$.`,
+            parts: [
+                {
+                    label: 'a',
+                    text: String.raw`Find $g'(x)$.`,
+                    marks: 3,
+                    answer: String.raw`$g'(x) = \dfrac{2x}{x^2 + 4}$.`,
+                },
+                {
+                    label: 'b',
+                    text: String.raw`Determine the intervals on which $g$ is increasing.`,
+                    marks: 3,
+                    answer: String.raw`The denominator is always positive, so $g'(x) > 0$ exactly when $x > 0$; $g$ is increasing on $(0, \infty)$.`,
+                },
+            ],
+            choices: [],
+            marks: 6,
+            answer: '',
+        },
+    ],
+    sourceQuestionTypes: ['Product Rule MCQ', 'Integration by Substitution', 'Logarithmic Differentiation'],
+};
+
+// Replacement for a single regenerated question
+export const QUESTION_FIXTURE: Question = {
+    id: 'q1',
+    type: 'short-answer',
+    topic: 'Chain Rule',
+    stem: String.raw`Differentiate $h(x) = \cos(3x^2 + 1)$.`,
+    parts: [],
+    choices: [],
+    marks: 3,
+    answer: String.raw`By the chain rule, $h'(x) = -6x \sin(3x^2 + 1)$.`,
+};
+
+// Source analysis for whatever PDFs were uploaded
+export const ANALYSIS_FIXTURE: SourceAnalysis = {
+    questionTypes: ['Product Rule MCQ', 'Integration by Substitution', 'Logarithmic Differentiation'],
+    topics: ['Differentiation', 'Integration'],
+    inventory: [
+        { type: 'Product Rule MCQ', topic: 'Product Rule', summary: 'Pick the derivative of a polynomial times a trig function from four options.', marks: 2 },
+        { type: 'Integration by Substitution', topic: 'Definite Integrals', summary: 'Evaluate a definite integral of x times an exponential of x^2 with u = x^2.', marks: 4 },
+        { type: 'Logarithmic Differentiation', topic: 'Derivatives of Logarithms', summary: 'Differentiate ln of a quadratic, then find where the function increases.', marks: 6 },
+    ],
+    preamble: EXAM_DOCUMENT_FIXTURE.preamble,
+    header: EXAM_DOCUMENT_FIXTURE.header,
+    formatting: 'Numbered questions with lettered parts, marks right-aligned in bold brackets.',
+};
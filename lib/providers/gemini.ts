@@ -0,0 +1,62 @@
+import { GoogleGenAI, ThinkingLevel } from '@google/genai';
+import type { GenerateRequest, GenerateResult, ModelProvider } from './types';
+
+export function createGeminiProvider(apiKey: string): ModelProvider {
+    const client = new GoogleGenAI({ apiKey });
+
+    return {
+        name: 'gemini',
+        async generate(request: GenerateRequest): Promise<GenerateResult> {
+            const stream = await client.models.generateContentStream({
+                model: request.model,
+                config: {
+                    temperature: request.temperature,
+                    abortSignal: request.signal,
+                    ...(request.responseSchema
+                        ? { responseMimeType: 'application/json', responseJsonSchema: request.responseSchema }
+                        : {}),
+                    thinkingConfig: {
+                        includeThoughts: request.includeThoughts ?? false,
+                        thinkingLevel: request.thinkingLevel === 'high' ? ThinkingLevel.HIGH : ThinkingLevel.LOW,
+                    },
+                },
+                contents: [
+                    {
+                        role: 'user',
+                        parts: [
+                            ...(request.files ?? []).map((file) => ({
+                                inlineData: { mimeType: file.mimeType, data: file.data },
+                            })),
+                            { text: request.prompt },
+                        ],
+                    },
+                ],
+            });
+
+            let text = '';
+            let thoughts = '';
+            const usage = { promptTokens: 0, thinkingTokens: 0, outputTokens: 0 };
+
+            for await (const chunk of stream) {
+                for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+                    if (!part.text) continue;
+                    if (part.thought) {
+                        thoughts += part.text;
+                        request.onThought?.(part.text);
+                    } else {
+                        text += part.text;
+                        request.onText?.(part.text);
+                    }
+                }
+                // Usage is cumulative; the last chunk carries the totals
+                if (chunk.usageMetadata) {
+                    usage.promptTokens = chunk.usageMetadata.promptTokenCount ?? usage.promptTokens;
+                    usage.thinkingTokens = chunk.usageMetadata.thoughtsTokenCount ?? usage.thinkingTokens;
+                    usage.outputTokens = chunk.usageMetadata.candidatesTokenCount ?? usage.outputTokens;
+                }
+            }
+
+            return { text, thoughts, usage };
+        },
+    };
+}
@@ -0,0 +1,71 @@
+import { createGeminiProvider } from './gemini';
+import { createOpenAIProvider } from './openai';
+import { createStubProvider } from './stub';
+import type { ModelProvider, ModelSettings, ProviderName, ThinkingLevel } from './types';
+
+export type * from './types';
+
+const PROVIDERS: ProviderName[] = ['gemini', 'openai', 'stub'];
+const THINKING_LEVELS: ThinkingLevel[] = ['low', 'high'];
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+    gemini: 'gemini-3-flash-preview',
+    openai: 'gpt-4o-mini',
+    stub: 'stub',
+};
+
+const DEFAULT_TEMPERATURE = 0.4;
+
+// Per-request overrides (form fields) take precedence over MODEL_* environment config
+export function resolveModelSettings(overrides: {
+    provider?: string | null;
+    model?: string | null;
+    temperature?: string | null;
+    thinkingLevel?: string | null;
+}): ModelSettings {
+    const provider = (overrides.provider || process.env.MODEL_PROVIDER || 'gemini') as ProviderName;
+    if (!PROVIDERS.includes(provider)) {
+        throw new Error(`Unknown model provider "${provider}". Use one of: ${PROVIDERS.join(', ')}`);
+    }
+
+    const model = overrides.model || process.env.MODEL_NAME || DEFAULT_MODELS[provider];
+
+    const rawTemperature = overrides.temperature || process.env.MODEL_TEMPERATURE;
+    const temperature = rawTemperature ? parseFloat(rawTemperature) : DEFAULT_TEMPERATURE;
+    if (isNaN(temperature) || temperature < 0 || temperature > 2) {
+        throw new Error(`Invalid temperature "${rawTemperature}". Use a number between 0 and 2`);
+    }
+
+    const thinkingLevel = (overrides.thinkingLevel || process.env.MODEL_THINKING_LEVEL || 'low') as ThinkingLevel;
+    if (!THINKING_LEVELS.includes(thinkingLevel)) {
+        throw new Error(`Invalid thinking level "${thinkingLevel}". Use one of: ${THINKING_LEVELS.join(', ')}`);
+    }
+
+    return { provider, model, temperature, thinkingLevel };
+}
+
+// Every call through the returned provider is aborted with the signal
+export function withSignal(provider: ModelProvider, signal: AbortSignal): ModelProvider {
+    return {
+        name: provider.name,
+        generate: (request) => provider.generate({ ...request, signal }),
+    };
+}
+
+export function createProvider(name: ProviderName): ModelProvider {
+    switch (name) {
+        case 'gemini': {
+            const apiKey = process.env.GOOGLE_GENAI_API_KEY || process.env.GOOGLE_API_KEY;
+            if (!apiKey) throw new Error('Missing API Key');
+            return createGeminiProvider(apiKey);
+        }
+        case 'openai':
+            return createOpenAIProvider(
+                process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+                process.env.OPENAI_API_KEY,
+                process.env.OPENAI_REASONING ? process.env.OPENAI_REASONING === 'true' : undefined
+            );
+        case 'stub':
+            return createStubProvider();
+    }
+}
@@ -0,0 +1,112 @@
+import type { GenerateRequest, GenerateResult, ModelProvider } from './types';
+
+type ChatCompletionChunk = {
+    choices?: {
+        delta?: {
+            content?: string | null;
+            // Reasoning servers (vLLM, llama.cpp, DeepSeek) stream thoughts here
+            reasoning_content?: string | null;
+        };
+    }[];
+    usage?: {
+        prompt_tokens?: number;
+        completion_tokens?: number;
+        completion_tokens_details?: { reasoning_tokens?: number };
+    } | null;
+};
+
+// Models that take reasoning_effort; OpenAI answers 400 when it is sent to any other
+const REASONING_MODELS = /^(?:o\d|gpt-5)/;
+
+// Talks to any server implementing the OpenAI chat completions API. reasoning_effort is only
+// sent to reasoning models, unless `reasoning` says whether the server takes it.
+export function createOpenAIProvider(baseUrl: string, apiKey?: string, reasoning?: boolean): ModelProvider {
+    const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    return {
+        name: 'openai',
+        async generate(request: GenerateRequest): Promise<GenerateResult> {
+            const response = await fetch(endpoint, {
+                method: 'POST',
+                signal: request.signal,
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+                },
+                body: JSON.stringify({
+                    model: request.model,
+                    temperature: request.temperature,
+                    ...(reasoning ?? REASONING_MODELS.test(request.model) ? { reasoning_effort: request.thinkingLevel } : {}),
+                    stream: true,
+                    stream_options: { include_usage: true },
+                    ...(request.responseSchema
+                        ? { response_format: { type: 'json_schema', json_schema: { name: request.task, schema: request.responseSchema } } }
+                        : {}),
+                    messages: [
+                        {
+                            role: 'user',
+                            content: [
+                                // Scans go in as images, everything else (PDFs) as files
+                                ...(request.files ?? []).map((file, i) => (file.mimeType.startsWith('image/')
+                                    ? { type: 'image_url', image_url: { url: `data:${file.mimeType};base64,${file.data}` } }
+                                    : {
+                                        type: 'file',
+                                        file: {
+                                            filename: file.name ?? `source_${i + 1}.pdf`,
+                                            file_data: `data:${file.mimeType};base64,${file.data}`,
+                                        },
+                                    })),
+                                { type: 'text', text: request.prompt },
+                            ],
+                        },
+                    ],
+                }),
+            });
+
+            if (!response.ok || !response.body) {
+                throw new Error(`Model server returned ${response.status} ${response.statusText}`);
+            }
+
+            let text = '';
+            let thoughts = '';
+            const usage = { promptTokens: 0, thinkingTokens: 0, outputTokens: 0 };
+
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                buffer += decoder.decode(value, { stream: true });
+
+                const lines = buffer.split('\n');
+                buffer = lines.pop() ?? '';
+                for (const line of lines) {
+                    if (!line.startsWith('data: ')) continue;
+                    const data = line.substring(6).trim();
+                    if (data === '[DONE]') continue;
+
+                    const chunk = JSON.parse(data) as ChatCompletionChunk;
+                    const delta = chunk.choices?.[0]?.delta;
+                    if (delta?.reasoning_content) {
+                        thoughts += delta.reasoning_content;
+                        request.onThought?.(delta.reasoning_content);
+                    }
+                    if (delta?.content) {
+                        text += delta.content;
+                        request.onText?.(delta.content);
+                    }
+                    if (chunk.usage) {
+                        const reasoningTokens = chunk.usage.completion_tokens_details?.reasoning_tokens ?? 0;
+                        usage.promptTokens = chunk.usage.prompt_tokens ?? 0;
+                        usage.thinkingTokens = reasoningTokens;
+                        usage.outputTokens = (chunk.usage.completion_tokens ?? 0) - reasoningTokens;
+                    }
+                }
+            }
+
+            return { text, thoughts, usage };
+        },
+    };
+}
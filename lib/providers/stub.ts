@@ -0,0 +1,42 @@
+import { ANALYSIS_FIXTURE, EXAM_DOCUMENT_FIXTURE, QUESTION_FIXTURE } from './fixtures';
+import type { GenerateRequest, GenerateResult, ModelProvider } from './types';
+
+const CHUNK_SIZE = 200;
+
+const FIXTURES: Record<GenerateRequest['task'], unknown> = {
+    analysis: ANALYSIS_FIXTURE,
+    exam: EXAM_DOCUMENT_FIXTURE,
+    repair: EXAM_DOCUMENT_FIXTURE,
+    question: QUESTION_FIXTURE,
+    version: EXAM_DOCUMENT_FIXTURE,
+};
+
+// Rough token estimate so usage numbers are deterministic but plausible
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Deterministic offline provider: returns the fixture for the task, streamed in fixed-size chunks
+export function createStubProvider(): ModelProvider {
+    return {
+        name: 'stub',
+        async generate(request: GenerateRequest): Promise<GenerateResult> {
+            request.signal?.throwIfAborted();
+            const text = JSON.stringify(FIXTURES[request.task], null, 2);
+            const thoughts = request.includeThoughts ? `Stub provider: returning the ${request.task} fixture.` : '';
+
+            if (thoughts) request.onThought?.(thoughts);
+            for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+                request.onText?.(text.substring(i, i + CHUNK_SIZE));
+            }
+
+            return {
+                text,
+                thoughts,
+                usage: {
+                    promptTokens: estimateTokens(request.prompt),
+                    thinkingTokens: estimateTokens(thoughts),
+                    outputTokens: estimateTokens(text),
+                },
+            };
+        },
+    };
+}
@@ -0,0 +1,56 @@
+// Contract every model backend implements. The route only talks to ModelProvider.
+
+export type ThinkingLevel = 'low' | 'high';
+
+export type ProviderName = 'gemini' | 'openai' | 'stub';
+
+export type ModelSettings = {
+    provider: ProviderName;
+    model: string;
+    temperature: number;
+    thinkingLevel: ThinkingLevel;
+};
+
+// What the prompt is for; the stub provider picks its fixture from this
+export type GenerationTask = 'analysis' | 'exam' | 'repair' | 'question' | 'version';
+
+// Binary source attached to the prompt (base64 payload)
+export type FilePart = {
+    mimeType: string;
+    data: string;
+    name?: string;
+};
+
+export type GenerateRequest = {
+    task: GenerationTask;
+    prompt: string;
+    files?: FilePart[];
+    model: string;
+    temperature: number;
+    thinkingLevel: ThinkingLevel;
+    includeThoughts?: boolean;
+    // JSON Schema the response must follow; providers request JSON output when set
+    responseSchema?: object;
+    // Streaming callbacks, called as chunks arrive
+    onText?: (delta: string) => void;
+    onThought?: (delta: string) => void;
+    // Aborts the call, e.g. when the job it belongs to is cancelled
+    signal?: AbortSignal;
+};
+
+export type Usage = {
+    promptTokens: number;
+    thinkingTokens: number;
+    outputTokens: number;
+};
+
+export type GenerateResult = {
+    text: string;
+    thoughts: string;
+    usage: Usage;
+};
+
+export interface ModelProvider {
+    name: ProviderName;
+    generate(request: GenerateRequest): Promise<GenerateResult>;
+}
@@ -0,0 +1,143 @@
+import type { ExamDocument, Question } from './exam';
+import { formatTimeLimit } from './options';
+
+// Assembles LaTeX from an ExamDocument. Exam and solutions share one enumerate
+// structure, so the key's numbering always matches the paper.
+
+const DEFAULT_PREAMBLE = `\\documentclass[11pt]{article}
+\\usepackage[margin=1in]{geometry}
+\\usepackage{amsmath,amssymb}`;
+
+// Where each question landed in the rendered document (1-based, inclusive)
+export type QuestionSpan = {
+    id: string;
+    startLine: number;
+    endLine: number;
+};
+
+export type RenderedDocument = {
+    tex: string;
+    spans: QuestionSpan[];
+};
+
+// Keep the model's preamble, minus anything it leaked past \begin{document}
+function cleanPreamble(preamble: string) {
+    let cleaned = preamble.trim();
+    const docStart = cleaned.indexOf('\\begin{document}');
+    if (docStart !== -1) cleaned = cleaned.substring(0, docStart).trim();
+    return cleaned.startsWith('\\documentclass') ? cleaned : `${DEFAULT_PREAMBLE}\n${cleaned}`.trim();
+}
+
+const marksLabel = (marks: number) => `\\hfill\\textbf{[${marks} ${marks === 1 ? 'mark' : 'marks'}]}`;
+
+// "(a)", "a)", "A." -> "a" / "A"
+const bareLabel = (label: string) => label.replace(/[().\s]/g, '');
+
+// Line-counting builder so spans can be recorded while rendering
+function createBuilder() {
+    const chunks: string[] = [];
+    let lines = 0;
+    return {
+        push(text: string) {
+            chunks.push(text);
+            lines += text.split('\n').length;
+        },
+        get nextLine() {
+            return lines + 1;
+        },
+        toString() {
+            return chunks.join('\n');
+        },
+    };
+}
+
+function renderQuestion(q: Question): string {
+    const out: string[] = [`% ${q.id}: ${q.topic}`];
+    const stemMarks = q.parts.length === 0 ? ` ${marksLabel(q.marks)}` : '';
+
+    if (q.type === 'mcq') {
+        // Keep the stem and its options on one page
+        out.push(`\\item \\begin{minipage}[t]{\\linewidth}`);
+        out.push(`${q.stem}${stemMarks}`);
+        out.push('\\begin{enumerate}');
+        for (const choice of q.choices) {
+            out.push(`\\item[(${bareLabel(choice.label)})] ${choice.text}`);
+        }
+        out.push('\\end{enumerate}');
+        out.push('\\end{minipage}');
+    } else {
+        out.push(`\\item ${q.stem}${stemMarks}`);
+    }
+
+    if (q.parts.length > 0) {
+        out.push('\\begin{enumerate}');
+        for (const part of q.parts) {
+            out.push(`\\item[(${bareLabel(part.label)})] ${part.text} ${marksLabel(part.marks)}`);
+        }
+        out.push('\\end{enumerate}');
+    }
+
+    return out.join('\n');
+}
+
+function renderAnswer(q: Question): string {
+    const out: string[] = [`% ${q.id}: ${q.topic}`, '\\item'];
+
+    if (q.type === 'mcq') {
+        const correct = q.choices.find((c) => c.correct);
+        if (correct) out.push(`\\textbf{Answer: (${bareLabel(correct.label)})}\\par`);
+    }
+    if (q.answer.trim()) out.push(q.answer);
+
+    if (q.parts.length > 0) {
+        out.push('\\begin{enumerate}');
+        for (const part of q.parts) {
+            out.push(`\\item[(${bareLabel(part.label)})] ${part.answer}`);
+        }
+        out.push('\\end{enumerate}');
+    }
+
+    return out.join('\n');
+}
+
+// intro: extra LaTeX lines printed between the header and the first question
+function renderDocument(doc: ExamDocument, intro: string[], render: (q: Question) => string): RenderedDocument {
+    const builder = createBuilder();
+    const spans: QuestionSpan[] = [];
+
+    builder.push(cleanPreamble(doc.preamble));
+    builder.push('');
+    builder.push('\\begin{document}');
+    if (doc.header.trim()) builder.push(doc.header.trim());
+    for (const line of intro) builder.push(line);
+    builder.push('');
+    builder.push('\\begin{enumerate}');
+
+    for (const q of doc.questions) {
+        const startLine = builder.nextLine;
+        builder.push(render(q));
+        spans.push({ id: q.id, startLine, endLine: builder.nextLine - 1 });
+        builder.push('');
+    }
+
+    builder.push('\\end{enumerate}');
+    builder.push('');
+    builder.push('\\end{document}');
+
+    return { tex: builder.toString(), spans };
+}
+
+export function renderExam(doc: ExamDocument): RenderedDocument {
+    const intro: string[] = [];
+    // Version label first on the cover, so invigilators can check it at a glance
+    if (doc.version) intro.push(`\\begin{center}\\Large\\textbf{Version ${doc.version}}\\end{center}`);
+    if (doc.timeLimitMinutes) {
+        intro.push(`\\begin{center}\\textbf{Time allowed: ${formatTimeLimit(doc.timeLimitMinutes)}}\\end{center}`);
+    }
+    return renderDocument(doc, intro, renderQuestion);
+}
+
+export function renderSolutions(doc: ExamDocument): RenderedDocument {
+    const title = `Worked Solutions${doc.version ? ` (Version ${doc.version})` : ''}`;
+    return renderDocument(doc, [`\\begin{center}\\Large\\textbf{${title}}\\end{center}`], renderAnswer);
+}
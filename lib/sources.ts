@@ -0,0 +1,194 @@
+import zlib from 'zlib';
+import { readSource, type SourceRef } from './library';
+import type { FilePart } from './providers';
+import { sourceKind } from './upload';
+import { readZipEntry } from './zip';
+
+// Source files as the model sees them: PDFs and image scans as file parts, LaTeX sources and
+// Word documents as text in the prompt. The first LaTeX source also supplies the preamble.
+
+export type SourceFile = {
+    name: string;
+    mimeType: string;
+    buffer: Buffer;
+};
+
+export type SourceText = {
+    name: string;
+    kind: 'tex' | 'docx';
+    text: string;
+};
+
+export type SourceMaterial = {
+    files: FilePart[];
+    texts: SourceText[];
+};
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeXml = (text: string) => text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    if (entity[0] !== '#') return XML_ENTITIES[entity.toLowerCase()];
+    return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.substring(2), 16) : Number(entity.substring(1)));
+});
+
+// Text runs (w:t) and equation runs (m:t) in document order, with paragraph and table ends,
+// breaks and tabs. Only these are picked out, so field codes, deleted text and drawing
+// coordinates stay out.
+const DOCX_TOKEN = /<(w|m):t(?:\s[^>]*)?>([^<]*)<\/\1:t>|<w:tab\/>|<w:(?:br|cr)(?:\s[^>]*)?\/>|<\/w:p>|<\/w:tc>|<\/w:tr>/g;
+
+// Plain text of a .docx; equations come through as their linear text
+export function docxToText(buffer: Buffer): string {
+    const xml = readZipEntry(buffer, 'word/document.xml');
+    if (!xml) throw new Error('Word document has no body (word/document.xml)');
+
+    let text = '';
+    for (const match of xml.toString('utf8').matchAll(DOCX_TOKEN)) {
+        if (match[2] !== undefined) text += decodeXml(match[2]);
+        else if (match[0] === '<w:tab/>') text += '\t';
+        // Table cells end with a paragraph; keep a row on one line, cells separated by tabs
+        else if (match[0] === '</w:tc>') text = `${text.replace(/\n$/, '')}\t`;
+        else if (match[0] === '</w:tr>') text = `${text.replace(/\t$/, '')}\n`;
+        else text += '\n';
+    }
+    return text.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// Inflated content streams larger than this are skipped (embedded fonts, images); also the
+// cap for the object streams the upload check inflates
+export const PDF_STREAM_LIMIT = 4 * 1024 * 1024;
+
+// Literal strings, hex strings, array brackets, numbers and operators inside BT ... ET
+const PDF_TEXT_TOKEN = /\((?:\\[\s\S]|[^\\)])*\)|<[0-9A-Fa-f\s]*>|[[\]]|-?\d*\.?\d+|[A-Za-z'"*]+/g;
+
+// pdflatex's OT1 ligature slots, the only non-ASCII glyphs worth mapping back
+const PDF_LIGATURES: Record<string, string> = { '\x0b': 'ff', '\x0c': 'fi', '\x0d': 'fl', '\x0e': 'ffi', '\x0f': 'ffl' };
+
+function decodePdfString(token: string): string {
+    if (token.startsWith('<')) {
+        const hex = token.slice(1, -1).replace(/\s/g, '');
+        const bytes = Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex');
+        // Two-byte codes with an empty high byte are Unicode-ish CIDs; keep the low bytes
+        const wide = bytes.length % 2 === 0 && bytes.length > 0 && bytes.every((byte, i) => i % 2 === 1 || byte === 0);
+        return (wide ? bytes.filter((_, i) => i % 2 === 1) : bytes).toString('latin1');
+    }
+    return token.slice(1, -1)
+        .replace(/\\([nrtbf()\\]|[0-7]{1,3}|\r?\n)/g, (_, escape: string) => {
+            if (/^[0-7]/.test(escape)) return String.fromCharCode(parseInt(escape, 8));
+            return ({ n: '\n', r: '\n', t: '\t', b: '', f: '' } as Record<string, string>)[escape] ?? (escape.trim() ? escape : '');
+        })
+        .replace(/[\x0b-\x0f]/g, (glyph) => PDF_LIGATURES[glyph]);
+}
+
+// Text operators of one content stream: Tj, TJ, ' and " show strings; line moves start a new line
+function contentText(content: string): string {
+    let text = '';
+    for (const block of content.matchAll(/\bBT\b([\s\S]*?)\bET\b/g)) {
+        let operands: string[] = [];
+        for (const [token] of block[1].matchAll(PDF_TEXT_TOKEN)) {
+            if (token[0] === '(' || token[0] === '<' || token === '[' || token === ']' || /^-?[\d.]/.test(token)) {
+                operands.push(token);
+                continue;
+            }
+            if (token === 'Tj' || token === "'" || token === '"' || token === 'TJ') {
+                if (token !== 'Tj' && token !== 'TJ') text += '\n';
+                for (const operand of operands) {
+                    if (operand[0] === '(' || operand[0] === '<') text += decodePdfString(operand);
+                    // Large negative kerning inside TJ is how most generators space words
+                    else if (token === 'TJ' && Number(operand) < -150) text += ' ';
+                }
+            } else if (token === 'Td' || token === 'TD') {
+                text += Number(operands[operands.length - 1]) !== 0 ? '\n' : ' ';
+            } else if (token === 'T*' || token === 'Tm') {
+                text += '\n';
+            }
+            operands = [];
+        }
+        text += '\n';
+    }
+    return text;
+}
+
+// Text of a PDF's pages, for similarity checks. Best effort: uncompressed and Flate content
+// streams only, and fonts with custom encodings (common in subset fonts) come out garbled or
+// empty. Scanned pages have no text at all.
+export function pdfToText(buffer: Buffer): string {
+    const raw = buffer.toString('latin1');
+    let text = '';
+    for (const match of raw.matchAll(/(?<!end)stream\r?\n/g)) {
+        const start = match.index + match[0].length;
+        const end = raw.indexOf('endstream', start);
+        const dictionary = raw.substring(raw.lastIndexOf('<<', match.index), match.index);
+        if (end === -1 || /\/Subtype\s*\/Image|\/Type\s*\/(?:XRef|ObjStm)|\/Length1/.test(dictionary)) continue;
+
+        let content: Buffer;
+        try {
+            const data = buffer.subarray(start, end);
+            if (/\/FlateDecode/.test(dictionary)) content = zlib.inflateSync(data, { maxOutputLength: PDF_STREAM_LIMIT });
+            else if (!/\/Filter/.test(dictionary)) content = data;
+            else continue;
+        } catch {
+            // Damaged or oversized streams only cost us their text
+            continue;
+        }
+        text += contentText(content.toString('latin1'));
+    }
+    return text
+        .replace(/[^\S\n]+/g, ' ')
+        .replace(/ ?\n[\s]*/g, '\n')
+        .trim();
+}
+
+// Plain text of any source kind; null for image scans, whose text only the model can read
+export function sourceText(source: SourceFile): string | null {
+    const kind = sourceKind(source.mimeType);
+    if (kind === 'pdf') return pdfToText(source.buffer);
+    if (kind === 'tex') return source.buffer.toString('utf8');
+    if (kind === 'docx') return docxToText(source.buffer);
+    return null;
+}
+
+// Everything before \begin{document}, when the source is a full document
+export function texPreamble(tex: string): string | null {
+    const start = tex.indexOf('\\begin{document}');
+    const preamble = start === -1 ? '' : tex.substring(0, start).trim();
+    return /\\documentclass/.test(preamble) ? preamble : null;
+}
+
+// Preamble of the first LaTeX source, used verbatim instead of the model's reconstruction
+export function styleTemplate(texts: SourceText[]): string | null {
+    for (const source of texts) {
+        if (source.kind !== 'tex') continue;
+        const preamble = texPreamble(source.text);
+        if (preamble) return preamble;
+    }
+    return null;
+}
+
+export function sourceMaterial(sources: SourceFile[]): SourceMaterial {
+    const material: SourceMaterial = { files: [], texts: [] };
+    for (const source of sources) {
+        const kind = sourceKind(source.mimeType);
+        if (kind === 'tex') {
+            material.texts.push({ name: source.name, kind, text: source.buffer.toString('utf8') });
+        } else if (kind === 'docx') {
+            material.texts.push({ name: source.name, kind, text: docxToText(source.buffer) });
+        } else {
+            material.files.push({ mimeType: source.mimeType, data: source.buffer.toString('base64'), name: source.name });
+        }
+    }
+    return material;
+}
+
+// Stored sources under their upload names; missing files are skipped
+export async function loadSourceFiles(sources: SourceRef[]): Promise<SourceFile[]> {
+    const files = await Promise.all(sources.map(async (source) => {
+        const stored = await readSource(source.hash);
+        return stored ? { name: source.name, mimeType: stored.mimeType, buffer: stored.content } : null;
+    }));
+    return files.filter((file) => file !== null);
+}
+
+// Material for stored sources, for the calls that still need them
+export async function loadSourceMaterial(sources: SourceRef[]): Promise<SourceMaterial> {
+    return sourceMaterial(await loadSourceFiles(sources));
+}
@@ -0,0 +1,276 @@
+// Upload checks for source files (PDFs, image scans, LaTeX sources, Word documents). page.tsx
+// runs them before sending, /api/process-pdf again on what actually arrived (authoritative),
+// so keep it free of Node imports.
+
+export const SOURCE_KINDS = ['pdf', 'image', 'tex', 'docx'] as const;
+export type SourceKind = typeof SOURCE_KINDS[number];
+
+export const SOURCE_LABELS: Record<SourceKind, string> = {
+    pdf: 'PDF',
+    image: 'Image scan',
+    tex: 'LaTeX source',
+    docx: 'Word document',
+};
+
+export const TEX_MIME = 'text/x-tex';
+export const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// File input filter; the content decides in the end
+export const SOURCE_ACCEPT = '.pdf,.png,.jpg,.jpeg,.tex,.docx,application/pdf,image/png,image/jpeg';
+
+// Detected kind plus the MIME type the source is stored and sent as
+export type DetectedSource = {
+    kind: SourceKind;
+    mimeType: string;
+};
+
+export function sourceKind(mimeType: string): SourceKind {
+    if (mimeType.startsWith('image/')) return 'image';
+    if (mimeType === TEX_MIME) return 'tex';
+    if (mimeType === DOCX_MIME) return 'docx';
+    return 'pdf';
+}
+
+export const UPLOAD_LIMITS = {
+    maxFiles: 10,
+    maxFileBytes: 10 * 1024 * 1024,
+    maxTotalBytes: 30 * 1024 * 1024,
+    maxPages: 60,
+};
+
+export type UploadErrorCode =
+    | 'unsupported'
+    | 'empty'
+    | 'corrupt'
+    | 'encrypted'
+    | 'too-large'
+    | 'too-many-pages'
+    | 'duplicate'
+    | 'too-many-files'
+    | 'total-too-large';
+
+// One rejected file (or the upload as a whole, for the count and total size limits)
+export type FileProblem = {
+    name: string;
+    code: UploadErrorCode;
+    error: string;
+};
+
+// Body of the API's 4xx response when uploads are rejected
+export type UploadRejection = {
+    error: string;
+    files: FileProblem[];
+};
+
+export const formatBytes = (bytes: number) =>
+    bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+// Size checks need no content, so they run before anything is read
+export function checkSizes(files: { name: string; size: number }[], limits = UPLOAD_LIMITS): FileProblem[] {
+    const problems: FileProblem[] = [];
+    if (files.length > limits.maxFiles) {
+        problems.push({ name: '', code: 'too-many-files', error: `Too many files: ${files.length} uploaded, at most ${limits.maxFiles} allowed` });
+    }
+    for (const file of files) {
+        if (file.size === 0) {
+            problems.push({ name: file.name, code: 'empty', error: `${file.name} is empty` });
+        } else if (file.size > limits.maxFileBytes) {
+            problems.push({ name: file.name, code: 'too-large', error: `${file.name} is ${formatBytes(file.size)}, the limit is ${formatBytes(limits.maxFileBytes)} per file` });
+        }
+    }
+    const total = files.reduce((sum, file) => sum + file.size, 0);
+    if (total > limits.maxTotalBytes) {
+        problems.push({ name: '', code: 'total-too-large', error: `Uploads total ${formatBytes(total)}, the limit is ${formatBytes(limits.maxTotalBytes)}` });
+    }
+    return problems;
+}
+
+// One char per byte, so string offsets are byte offsets
+const latin1 = (bytes: Uint8Array) => new TextDecoder('latin1').decode(bytes);
+
+const hasSignature = (bytes: Uint8Array, signature: number[]) =>
+    signature.every((byte, i) => bytes[i] === byte);
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47];
+const JPEG_SIGNATURE = [0xff, 0xd8, 0xff];
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+
+// Common unsupported uploads, named in the error with what to do instead
+const UNSUPPORTED: [string, (bytes: Uint8Array) => boolean][] = [
+    ['a GIF image; convert it to PNG', (bytes) => hasSignature(bytes, [0x47, 0x49, 0x46, 0x38])],
+    ['a HEIC photo; export it as JPEG', (bytes) => /^ftyp(heic|heix|mif1|msf1)$/.test(latin1(bytes.subarray(4, 12)))],
+    ['a legacy Office document; save it as .docx or PDF', (bytes) => hasSignature(bytes, [0xd0, 0xcf, 0x11, 0xe0])],
+    ['a ZIP archive that is not a Word document', (bytes) => hasSignature(bytes, ZIP_SIGNATURE)],
+];
+
+// Readers accept junk before the header, up to 1 KB
+const HEADER_WINDOW = 1024;
+// And after the last %%EOF (trailing newlines, padding from some mail gateways)
+const TRAILER_WINDOW = 2048;
+
+const PAGE_PATTERN = /\/Type\s*\/Page(?![A-Za-z])/g;
+const OBJECT_STREAM_PATTERN = /\/Type\s*\/ObjStm\b/g;
+
+// Page objects, including those packed into compressed object streams when an inflater is
+// given (PDF 1.5+, pdflatex's default). Null when no page object could be found. A RangeError
+// from the inflater (its output cap) is passed on.
+function countPages(bytes: Uint8Array, text: string, inflate?: (data: Uint8Array) => Uint8Array): number | null {
+    let pages = text.match(PAGE_PATTERN)?.length ?? 0;
+    if (inflate) {
+        for (const match of text.matchAll(OBJECT_STREAM_PATTERN)) {
+            // The stream data starts after the dictionary holding the match
+            const keyword = /stream\r?\n/g;
+            keyword.lastIndex = match.index;
+            const data = keyword.exec(text);
+            const dictionary = text.substring(text.lastIndexOf('obj', match.index), data?.index ?? match.index);
+            if (!data || !dictionary.includes('/FlateDecode')) continue;
+            const start = data.index + data[0].length;
+            const end = text.indexOf('endstream', start);
+            if (end === -1) continue;
+            try {
+                pages += latin1(inflate(bytes.subarray(start, end))).match(PAGE_PATTERN)?.length ?? 0;
+            } catch (error) {
+                if (error instanceof RangeError) throw error;
+                // A damaged stream only costs us its pages
+            }
+        }
+    }
+    return pages > 0 ? pages : null;
+}
+
+// End-of-file marker, encryption and page count. Deliberately shallow: anything that passes
+// here can still fail later in the model, which reports its own error.
+function checkPdf(name: string, bytes: Uint8Array, inflate: ((data: Uint8Array) => Uint8Array) | undefined, limits: typeof UPLOAD_LIMITS): FileProblem | null {
+    const text = latin1(bytes);
+    if (!text.substring(text.length - TRAILER_WINDOW).includes('%%EOF')) {
+        return { name, code: 'corrupt', error: `${name} looks truncated or corrupt (no end-of-file marker)` };
+    }
+    if (/\/Encrypt\s*(?:\d+\s+\d+\s+R|<<)/.test(text)) {
+        return { name, code: 'encrypted', error: `${name} is encrypted or password-protected; save an unprotected copy and upload that` };
+    }
+
+    let pages: number | null;
+    try {
+        pages = countPages(bytes, text, inflate);
+    } catch (error) {
+        if (!(error instanceof RangeError)) throw error;
+        // No exam needs an object stream this large; it is a decompression bomb or broken
+        return { name, code: 'corrupt', error: `${name} has a compressed stream that expands past the size limit` };
+    }
+    if (pages !== null && pages > limits.maxPages) {
+        return { name, code: 'too-many-pages', error: `${name} has ${pages} pages, the limit is ${limits.maxPages}` };
+    }
+    return null;
+}
+
+// UTF-8 without NUL bytes, so it can go into the prompt as text
+function readText(bytes: Uint8Array): string | null {
+    try {
+        const text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+        return text.includes('\u0000') ? null : text;
+    } catch {
+        return null;
+    }
+}
+
+export type SourceCheck =
+    | { ok: true; source: DetectedSource }
+    | { ok: false; problem: FileProblem };
+
+// Kind from the magic bytes (the extension only separates LaTeX from other text), then the
+// checks for that kind
+export function checkSource(
+    name: string,
+    bytes: Uint8Array,
+    inflate?: (data: Uint8Array) => Uint8Array,
+    limits = UPLOAD_LIMITS
+): SourceCheck {
+    const fail = (code: UploadErrorCode, error: string): SourceCheck => ({ ok: false, problem: { name, code, error } });
+
+    if (latin1(bytes.subarray(0, HEADER_WINDOW)).includes('%PDF-')) {
+        const problem = checkPdf(name, bytes, inflate, limits);
+        return problem ? { ok: false, problem } : { ok: true, source: { kind: 'pdf', mimeType: 'application/pdf' } };
+    }
+    if (hasSignature(bytes, PNG_SIGNATURE)) return { ok: true, source: { kind: 'image', mimeType: 'image/png' } };
+    if (hasSignature(bytes, JPEG_SIGNATURE)) return { ok: true, source: { kind: 'image', mimeType: 'image/jpeg' } };
+    // File names in a ZIP's directory are stored uncompressed
+    if (hasSignature(bytes, ZIP_SIGNATURE) && latin1(bytes).includes('word/document.xml')) {
+        return { ok: true, source: { kind: 'docx', mimeType: DOCX_MIME } };
+    }
+
+    const unsupported = UNSUPPORTED.find(([, matches]) => matches(bytes));
+    if (unsupported) return fail('unsupported', `${name} is ${unsupported[0]}`);
+
+    const text = readText(bytes);
+    if (text !== null && (/\.tex$/i.test(name) || /\\documentclass|\\begin\{document\}/.test(text))) {
+        return { ok: true, source: { kind: 'tex', mimeType: TEX_MIME } };
+    }
+    if (/\.tex$/i.test(name)) return fail('corrupt', `${name} is not a UTF-8 text file`);
+    return fail('unsupported', `${name} is not a supported source; upload a PDF, PNG or JPEG scan, .tex or .docx file`);
+}
+
+export const duplicateProblem = (name: string, original: string): FileProblem => ({
+    name,
+    code: 'duplicate',
+    error: name === original ? `${name} was added twice` : `${name} has the same content as ${original}`,
+});
+
+// One line per problem, for places that show a single message
+export function describeProblems(problems: FileProblem[]) {
+    return problems.map((problem) => problem.error).join('\n');
+}
+
+async function hashFile(buffer: ArrayBuffer): Promise<string | null> {
+    // crypto.subtle only exists in secure contexts; the server repeats the check anyway
+    if (!globalThis.crypto?.subtle) return null;
+    const digest = await globalThis.crypto.subtle.digest('SHA-256', buffer);
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Client side: which of the newly picked files can join the current selection
+export async function screenFiles(current: File[], added: File[], limits = UPLOAD_LIMITS): Promise<{ accepted: File[]; problems: FileProblem[] }> {
+    const accepted: File[] = [];
+    const problems: FileProblem[] = [];
+    const hashes = new Map<string, string>();
+    for (const file of current) {
+        const hash = await hashFile(await file.arrayBuffer());
+        if (hash) hashes.set(hash, file.name);
+    }
+    let count = current.length;
+    let total = current.reduce((sum, file) => sum + file.size, 0);
+
+    for (const file of added) {
+        const sizeProblem = checkSizes([file], limits)[0];
+        if (sizeProblem) {
+            problems.push(sizeProblem);
+            continue;
+        }
+        if (count + 1 > limits.maxFiles) {
+            problems.push({ name: file.name, code: 'too-many-files', error: `${file.name} was not added: at most ${limits.maxFiles} files per exam` });
+            continue;
+        }
+        if (total + file.size > limits.maxTotalBytes) {
+            problems.push({ name: file.name, code: 'total-too-large', error: `${file.name} was not added: all files together may not exceed ${formatBytes(limits.maxTotalBytes)}` });
+            continue;
+        }
+
+        const buffer = await file.arrayBuffer();
+        const check = checkSource(file.name, new Uint8Array(buffer), undefined, limits);
+        if (!check.ok) {
+            problems.push(check.problem);
+            continue;
+        }
+        const hash = await hashFile(buffer);
+        const original = hash ? hashes.get(hash) : undefined;
+        if (original !== undefined) {
+            problems.push(duplicateProblem(file.name, original));
+            continue;
+        }
+        if (hash) hashes.set(hash, file.name);
+        // Typed with the detected MIME type, which the file list shows and the form sends
+        accepted.push(file.type === check.source.mimeType ? file : new File([file], file.name, { type: check.source.mimeType }));
+        count++;
+        total += file.size;
+    }
+    return { accepted, problems };
+}
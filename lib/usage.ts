@@ -0,0 +1,229 @@
+import type { GenerationTask, ModelProvider, ProviderName } from './providers/types';
+import { appendUsage } from './library';
+import type { Logger } from './logger';
+
+// Token usage and estimated cost of model calls. Routes wrap their provider with a meter,
+// return its report with the result and append the calls to the usage ledger.
+
+// USD per million tokens; thinking tokens are billed as output unless priced separately
+export type ModelPrice = {
+    input: number;
+    output: number;
+    thinking?: number;
+};
+
+// List prices at the time of writing; override or extend with MODEL_PRICES
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+    'gemini-3-pro-preview': { input: 2, output: 12 },
+    'gemini-3-flash-preview': { input: 0.5, output: 3 },
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4.1': { input: 2, output: 8 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+    'stub': { input: 0, output: 0 },
+};
+
+export type ModelCall = {
+    task: GenerationTask;
+    provider: ProviderName;
+    model: string;
+    promptTokens: number;
+    thinkingTokens: number;
+    outputTokens: number;
+    latencyMs: number;
+    // null when the model has no entry in the price table
+    costUsd: number | null;
+    // Set when the call failed or was aborted; its tokens are unknown and counted as zero
+    error?: string;
+};
+
+export type UsageTotals = {
+    calls: number;
+    promptTokens: number;
+    thinkingTokens: number;
+    outputTokens: number;
+    latencyMs: number;
+    // Priced calls only; unpricedCalls says how many are missing from it
+    costUsd: number;
+    unpricedCalls: number;
+    failedCalls: number;
+};
+
+export type UsageReport = {
+    calls: ModelCall[];
+    totals: UsageTotals;
+};
+
+// One line of the usage ledger: the model calls of one API request
+export type UsageRecord = {
+    at: string;
+    operation: 'generate' | 'regenerate-question' | 'delete-question';
+    // null when the request failed before the exam was saved
+    examId: string | null;
+    calls: ModelCall[];
+};
+
+export type UsageMeter = {
+    calls: ModelCall[];
+    wrap: (provider: ModelProvider) => ModelProvider;
+    report: () => UsageReport;
+};
+
+const isPrice = (value: unknown): value is ModelPrice => {
+    const price = value as ModelPrice;
+    return typeof price === 'object' && price !== null
+        && [price.input, price.output, price.thinking ?? 0].every((rate) => typeof rate === 'number' && rate >= 0);
+};
+
+// Defaults merged with MODEL_PRICES, a JSON object of model name -> { input, output, thinking? }
+export function priceTable(): Record<string, ModelPrice> {
+    const raw = process.env.MODEL_PRICES;
+    if (!raw) return DEFAULT_PRICES;
+
+    let overrides: unknown;
+    try {
+        overrides = JSON.parse(raw);
+    } catch {
+        throw new Error('MODEL_PRICES is not valid JSON');
+    }
+    if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) {
+        throw new Error('MODEL_PRICES must map model names to { input, output } prices');
+    }
+    for (const [model, price] of Object.entries(overrides)) {
+        if (!isPrice(price)) {
+            throw new Error(`MODEL_PRICES entry "${model}" needs non-negative input and output prices (USD per million tokens)`);
+        }
+    }
+    return { ...DEFAULT_PRICES, ...(overrides as Record<string, ModelPrice>) };
+}
+
+// Exact name first, then the longest listed prefix, so dated or suffixed versions
+// ("gpt-4o-mini-2024-07-18") share the price of their base model
+export function findPrice(model: string, prices = priceTable()): ModelPrice | null {
+    if (prices[model]) return prices[model];
+    const base = Object.keys(prices)
+        .filter((name) => model.startsWith(`${name}-`))
+        .sort((a, b) => b.length - a.length)[0];
+    return base ? prices[base] : null;
+}
+
+export function estimateCost(usage: Pick<ModelCall, 'promptTokens' | 'thinkingTokens' | 'outputTokens'>, price: ModelPrice | null): number | null {
+    if (!price) return null;
+    const cost = usage.promptTokens * price.input
+        + usage.thinkingTokens * (price.thinking ?? price.output)
+        + usage.outputTokens * price.output;
+    return cost / 1_000_000;
+}
+
+export function sumCalls(calls: ModelCall[]): UsageTotals {
+    return {
+        calls: calls.length,
+        promptTokens: calls.reduce((sum, call) => sum + call.promptTokens, 0),
+        thinkingTokens: calls.reduce((sum, call) => sum + call.thinkingTokens, 0),
+        outputTokens: calls.reduce((sum, call) => sum + call.outputTokens, 0),
+        latencyMs: calls.reduce((sum, call) => sum + call.latencyMs, 0),
+        costUsd: calls.reduce((sum, call) => sum + (call.costUsd ?? 0), 0),
+        unpricedCalls: calls.filter((call) => call.costUsd === null).length,
+        failedCalls: calls.filter((call) => call.error !== undefined).length,
+    };
+}
+
+export const formatCost = (usd: number) => `$${usd < 0.01 && usd > 0 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+// Collects the calls of one request. The price table is read up front, so a broken
+// MODEL_PRICES fails the request before any tokens are spent.
+export function createMeter(log: Logger): UsageMeter {
+    const prices = priceTable();
+    const calls: ModelCall[] = [];
+
+    // Same provider, with every generate call recorded. Failed and aborted calls keep their
+    // task, model and latency, so a flaky or slow model shows up in the ledger too.
+    const wrap = (provider: ModelProvider): ModelProvider => ({
+        name: provider.name,
+        async generate(request) {
+            const startedAt = Date.now();
+            const base = { task: request.task, provider: provider.name, model: request.model };
+            try {
+                const result = await provider.generate(request);
+                const call: ModelCall = {
+                    ...base,
+                    ...result.usage,
+                    latencyMs: Date.now() - startedAt,
+                    costUsd: estimateCost(result.usage, findPrice(request.model, prices)),
+                };
+                calls.push(call);
+                log.info('Model call finished', { ...call });
+                return result;
+            } catch (error) {
+                const usage = { promptTokens: 0, thinkingTokens: 0, outputTokens: 0 };
+                const call: ModelCall = {
+                    ...base,
+                    ...usage,
+                    latencyMs: Date.now() - startedAt,
+                    costUsd: estimateCost(usage, findPrice(request.model, prices)),
+                    error: error instanceof Error ? error.message : String(error),
+                };
+                calls.push(call);
+                log.warn('Model call failed', { ...call });
+                throw error;
+            }
+        },
+    });
+
+    return { calls, wrap, report: () => ({ calls: [...calls], totals: sumCalls(calls) }) };
+}
+
+// Ledger write that never fails the request it accounts for
+export async function recordUsage(operation: UsageRecord['operation'], examId: string | null, meter: UsageMeter, log: Logger) {
+    if (meter.calls.length === 0) return;
+    try {
+        await appendUsage({ at: new Date().toISOString(), operation, examId, calls: [...meter.calls] });
+    } catch (error) {
+        log.error('Could not write the usage ledger', { error });
+    }
+}
+
+export type UsageSummary = {
+    // Inclusive UTC days, null when unbounded
+    from: string | null;
+    to: string | null;
+    requests: number;
+    totals: UsageTotals;
+    // Oldest day first, days without calls left out
+    byDay: (UsageTotals & { day: string })[];
+    // Most expensive first
+    byModel: (UsageTotals & { provider: ProviderName; model: string })[];
+};
+
+// Ledger records between two UTC days (YYYY-MM-DD, both inclusive), grouped for budgeting
+export function summarizeUsage(records: UsageRecord[], from: string | null, to: string | null): UsageSummary {
+    const inRange = records.filter((record) => {
+        const day = record.at.substring(0, 10);
+        return (!from || day >= from) && (!to || day <= to);
+    });
+
+    const days = new Map<string, ModelCall[]>();
+    const models = new Map<string, ModelCall[]>();
+    for (const record of inRange) {
+        const day = record.at.substring(0, 10);
+        for (const call of record.calls) {
+            const model = `${call.provider}/${call.model}`;
+            days.set(day, [...(days.get(day) ?? []), call]);
+            models.set(model, [...(models.get(model) ?? []), call]);
+        }
+    }
+
+    return {
+        from,
+        to,
+        requests: inRange.length,
+        totals: sumCalls(inRange.flatMap((record) => record.calls)),
+        byDay: [...days].sort(([a], [b]) => a.localeCompare(b)).map(([day, calls]) => ({ day, ...sumCalls(calls) })),
+        byModel: [...models.values()]
+            .map((calls) => ({ provider: calls[0].provider, model: calls[0].model, ...sumCalls(calls) }))
+            .sort((a, b) => b.costUsd - a.costUsd),
+    };
+}
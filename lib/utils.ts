@@ -0,0 +1,13 @@
+import { clsx, type ClassValue } from 'clsx';
+import { twMerge } from 'tailwind-merge';
+
+export function cn(...inputs: ClassValue[]) {
+    return twMerge(clsx(inputs));
+}
+
+// Content between \begin{document} and \end{document}, or the whole input when there is none.
+// Used to strip preamble and boilerplate from the TeX sent back on regeneration, and by the converters.
+export function documentBody(tex: string) {
+    const bodyMatch = tex.match(/\\begin\{document\}([\s\S]*?)\\end\{document\}/i);
+    return bodyMatch ? bodyMatch[1].trim() : tex;
+}
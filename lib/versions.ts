@@ -0,0 +1,227 @@
+import type { SourceAnalysis } from './analysis';
+import { EXAM_DOCUMENT_SCHEMA, QUESTION_SCHEMA, parseExamDocument, parseQuestion, type ExamDocument, type Question } from './exam';
+import { versionLabel, type ExamOptions } from './options';
+import type { PromptProfile } from './profiles';
+import { buildQuestionPrompt, buildVersionPrompt } from './prompts';
+import type { ModelProvider, ModelSettings } from './providers';
+import type { ProgressTracker } from './progress';
+
+// Parallel versions (A, B, C, ...) of one exam for in-person sittings. Version A is the
+// generated exam; the others are written from it question by question, checked for balance
+// (same type and marks per question) and against each other for near-duplicates, then
+// shuffled so neighbours do not work through the same order.
+
+export type VersionSet = {
+    // Version A first
+    docs: ExamDocument[];
+    // Balance problems and duplicates that survived the rewrite round
+    issues: string[];
+};
+
+type VersionContext = {
+    provider: ModelProvider;
+    settings: ModelSettings;
+    options: ExamOptions;
+    analysis: SourceAnalysis | null;
+    profile: PromptProfile;
+    tracker: ProgressTracker;
+};
+
+// Word overlap above which two questions with the same numbers count as the same question
+const SIMILARITY_THRESHOLD = 0.8;
+
+// Reshuffles tried before accepting an order another version already has
+const SHUFFLE_ATTEMPTS = 10;
+
+// What versions must agree on per question: "long-answer, 6 marks (parts 3+3)"
+const shape = (q: Question) =>
+    `${q.type}, ${q.marks} ${q.marks === 1 ? 'mark' : 'marks'}${q.parts.length > 0 ? ` (parts ${q.parts.map((part) => part.marks).join('+')})` : ''}`;
+
+export function checkBalance(base: ExamDocument, doc: ExamDocument): string[] {
+    if (doc.questions.length !== base.questions.length) {
+        return [`${doc.questions.length} questions instead of ${base.questions.length}`];
+    }
+    const issues: string[] = [];
+    base.questions.forEach((q, i) => {
+        const actual = shape(doc.questions[i]);
+        if (actual !== shape(q)) issues.push(`question ${i + 1} is ${actual} instead of ${shape(q)}`);
+    });
+    return issues;
+}
+
+// Everything a student reads, lowercased, as words and numbers
+function questionText(q: Question) {
+    const text = [q.stem, ...q.parts.map((part) => part.text), ...q.choices.map((choice) => choice.text)].join(' ').toLowerCase();
+    return {
+        text: text.replace(/\s+/g, ' ').trim(),
+        words: new Set(text.match(/[a-z]{3,}/g) ?? []),
+        numbers: (text.match(/\d+(?:\.\d+)?/g) ?? []).sort().join(','),
+    };
+}
+
+function similar(a: ReturnType<typeof questionText>, b: ReturnType<typeof questionText>) {
+    if (a.text === b.text) return true;
+    if (!a.numbers || a.numbers !== b.numbers) return false;
+    const shared = [...a.words].filter((word) => b.words.has(word)).length;
+    const union = new Set([...a.words, ...b.words]).size;
+    return union > 0 && shared / union >= SIMILARITY_THRESHOLD;
+}
+
+// A question of a later version that repeats one of an earlier version
+export type VersionDuplicate = {
+    version: number;
+    questionId: string;
+    otherVersion: number;
+    otherQuestionId: string;
+};
+
+// Across versions only; locked questions are the same everywhere on purpose
+export function findDuplicates(docs: ExamDocument[]): VersionDuplicate[] {
+    const texts = docs.map((doc) => doc.questions.map(questionText));
+    const duplicates: VersionDuplicate[] = [];
+    docs.forEach((doc, version) => {
+        doc.questions.forEach((q, i) => {
+            if (q.locked) return;
+            for (let otherVersion = 0; otherVersion < version; otherVersion++) {
+                docs[otherVersion].questions.forEach((other, j) => {
+                    if (!other.locked && similar(texts[version][i], texts[otherVersion][j])) {
+                        duplicates.push({ version, questionId: q.id, otherVersion, otherQuestionId: other.id });
+                    }
+                });
+            }
+        });
+    });
+    return duplicates;
+}
+
+// New question order, avoiding orders already used where possible; ids follow the new order
+function shuffleQuestions(doc: ExamDocument, used: Set<string>): ExamDocument {
+    let order = doc.questions.map((_, i) => i);
+    for (let attempt = 0; attempt < SHUFFLE_ATTEMPTS; attempt++) {
+        const candidate = [...order];
+        for (let i = candidate.length - 1; i > 0; i--) {
+            const j = Math.floor(Math.random() * (i + 1));
+            [candidate[i], candidate[j]] = [candidate[j], candidate[i]];
+        }
+        order = candidate;
+        if (!used.has(order.join(','))) break;
+    }
+    used.add(order.join(','));
+    return { ...doc, questions: order.map((index, i) => ({ ...doc.questions[index], id: `q${i + 1}` })) };
+}
+
+async function writeVersion(base: ExamDocument, label: string, context: VersionContext): Promise<{ doc: ExamDocument; issues: string[] }> {
+    const { provider, settings, options, profile, tracker } = context;
+    // The model sees the exam as written, without server-side fields
+    const prompt = buildVersionPrompt({ ...base, version: undefined, timeLimitMinutes: undefined }, label, options, profile);
+
+    // One retry when the blueprint drifted; a second drift is reported rather than failing the run
+    let doc: ExamDocument | null = null;
+    let issues: string[] = [];
+    for (let attempt = 0; attempt < 2 && (!doc || issues.length > 0); attempt++) {
+        const result = await provider.generate({
+            task: 'version',
+            prompt,
+            model: settings.model,
+            temperature: settings.temperature,
+            thinkingLevel: settings.thinkingLevel,
+            responseSchema: EXAM_DOCUMENT_SCHEMA,
+        });
+        doc = parseExamDocument(result.text);
+        issues = checkBalance(base, doc);
+        if (issues.length > 0) tracker.log.warn('Version out of balance', { version: label, attempt: attempt + 1, issues });
+    }
+
+    // Cover, layout and timing stay those of version A; locked questions are copied verbatim
+    return {
+        doc: {
+            ...base,
+            version: label,
+            questions: doc!.questions.map((q, i) => (base.questions[i]?.locked ? base.questions[i] : { ...q, locked: false })),
+        },
+        issues,
+    };
+}
+
+// Rewrites each duplicated question once, keeping it only when its type and marks still match
+async function rewriteDuplicates(docs: ExamDocument[], duplicates: VersionDuplicate[], context: VersionContext) {
+    const { provider, settings, options, analysis, profile } = context;
+    const targets = new Map<string, VersionDuplicate[]>();
+    for (const duplicate of duplicates) {
+        const key = `${duplicate.version}:${duplicate.questionId}`;
+        targets.set(key, [...(targets.get(key) ?? []), duplicate]);
+    }
+
+    let rewritten = 0;
+    for (const clashes of targets.values()) {
+        const doc = docs[clashes[0].version];
+        const index = doc.questions.findIndex((q) => q.id === clashes[0].questionId);
+        const current = doc.questions[index];
+        const others = clashes.map((clash) => docs[clash.otherVersion].questions.find((q) => q.id === clash.otherQuestionId)!);
+        const instruction = `This question is almost the same as a question in another version of the exam, so students could copy answers between them. Write a clearly different instance with new values and context. Keep the type, marks and parts exactly. Too close to: ${others.map((q) => q.stem.substring(0, 300)).join(' | ')}`;
+
+        let question: Question;
+        try {
+            const result = await provider.generate({
+                task: 'question',
+                prompt: buildQuestionPrompt(doc, current, instruction, options, analysis, profile),
+                model: settings.model,
+                temperature: settings.temperature,
+                thinkingLevel: settings.thinkingLevel,
+                responseSchema: QUESTION_SCHEMA,
+            });
+            question = parseQuestion(result.text);
+        } catch (error) {
+            // A cancelled run stops here; otherwise the original question stays,
+            // and the check after the rewrites reports the clash
+            if (context.tracker.signal?.aborted) throw error;
+            context.tracker.log.warn('Version rewrite failed', { version: doc.version, questionId: current.id, error });
+            continue;
+        }
+        if (shape(question) !== shape(current)) {
+            context.tracker.log.warn('Rewritten question out of balance', { version: doc.version, questionId: current.id, shape: shape(question) });
+            continue;
+        }
+        docs[clashes[0].version] = {
+            ...doc,
+            questions: doc.questions.map((q, i) => (i === index ? { ...question, id: current.id, locked: false } : q)),
+        };
+        rewritten++;
+    }
+    return rewritten;
+}
+
+// Versions B, C, ... written from version A, reported through the tracker as one stage each
+export async function generateVersions(base: ExamDocument, count: number, context: VersionContext): Promise<VersionSet> {
+    const { tracker } = context;
+    const docs: ExamDocument[] = [{ ...base, version: versionLabel(0) }];
+    const issues: string[] = [];
+    const orders = new Set([base.questions.map((_, i) => i).join(',')]);
+
+    for (let i = 1; i < count; i++) {
+        const label = versionLabel(i);
+        const id = `version-${label}`;
+        tracker.start(id, `Writing version ${label}`, context.settings.model);
+        try {
+            const version = await writeVersion(base, label, context);
+            docs.push(shuffleQuestions(version.doc, orders));
+            issues.push(...version.issues.map((issue) => `Version ${label}: ${issue}`));
+            tracker.finish(id, version.issues.length > 0 ? `${version.issues.length} balance issues` : 'Balanced with version A');
+        } catch (error) {
+            tracker.finish(id, (error as Error).message, 'failed');
+            throw error;
+        }
+    }
+
+    tracker.start('versions-check', 'Checking versions for duplicates');
+    const duplicates = findDuplicates(docs);
+    const rewritten = duplicates.length > 0 ? await rewriteDuplicates(docs, duplicates, context) : 0;
+    const remaining = duplicates.length > 0 ? findDuplicates(docs) : [];
+    for (const duplicate of remaining) {
+        const version = versionLabel(duplicate.version);
+        const other = versionLabel(duplicate.otherVersion);
+        issues.push(`Version ${version} ${duplicate.questionId} is nearly the same as version ${other} ${duplicate.otherQuestionId}`);
+    }
+    tracker.finish('versions-check', duplicates.length === 0 ? 'No duplicates' : `${rewritten} rewritten, ${remaining.length} left`);
+    return { docs, issues };
+}
@@ -0,0 +1,127 @@
+import zlib from 'zlib';
+
+// Minimal ZIP writer (deflate, no zip64) for the packages the app hands out, and a reader
+// for single entries of uploaded archives (DOCX sources). Archives stay small, so
+// everything happens in memory.
+
+export type ZipEntry = {
+    // Forward slashes, no leading slash
+    name: string;
+    content: string | Buffer;
+};
+
+// DOS date/time fields of the local and central headers
+function dosDateTime(date: Date) {
+    const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+    const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+    return { time, day };
+}
+
+export function createZip(entries: ZipEntry[], date = new Date()): Buffer {
+    const { time, day } = dosDateTime(date);
+    const locals: Buffer[] = [];
+    const centrals: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.name, 'utf8');
+        const data = typeof entry.content === 'string' ? Buffer.from(entry.content, 'utf8') : entry.content;
+        const compressed = zlib.deflateRawSync(data);
+        const crc = zlib.crc32(data);
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(20, 4);
+        // Bit 11: file names are UTF-8
+        local.writeUInt16LE(0x0800, 6);
+        local.writeUInt16LE(8, 8);
+        local.writeUInt16LE(time, 10);
+        local.writeUInt16LE(day, 12);
+        local.writeUInt32LE(crc, 14);
+        local.writeUInt32LE(compressed.length, 18);
+        local.writeUInt32LE(data.length, 22);
+        local.writeUInt16LE(name.length, 26);
+        local.writeUInt16LE(0, 28);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(20, 4);
+        central.writeUInt16LE(20, 6);
+        central.writeUInt16LE(0x0800, 8);
+        central.writeUInt16LE(8, 10);
+        central.writeUInt16LE(time, 12);
+        central.writeUInt16LE(day, 14);
+        central.writeUInt32LE(crc, 16);
+        central.writeUInt32LE(compressed.length, 20);
+        central.writeUInt32LE(data.length, 24);
+        central.writeUInt16LE(name.length, 28);
+        central.writeUInt32LE(offset, 42);
+
+        locals.push(local, name, compressed);
+        centrals.push(central, name);
+        offset += local.length + name.length + compressed.length;
+    }
+
+    const directory = Buffer.concat(centrals);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...locals, directory, end]);
+}
+
+// Entries are refused above this size, declared or inflated, so a small upload cannot expand
+// into gigabytes (a DOCX's document.xml is a few MB at most)
+export const MAX_ENTRY_BYTES = 32 * 1024 * 1024;
+
+// Content of one entry (stored or deflated), null when the archive has no such entry.
+// Throws on archives it cannot read and on entries larger than maxBytes.
+export function readZipEntry(archive: Buffer, name: string, maxBytes = MAX_ENTRY_BYTES): Buffer | null {
+    // End of central directory: last 22 bytes plus a comment of up to 64 KB
+    const searchFrom = Math.max(0, archive.length - 22 - 0xffff);
+    let end = -1;
+    for (let i = archive.length - 22; i >= searchFrom; i--) {
+        if (archive.readUInt32LE(i) === 0x06054b50) {
+            end = i;
+            break;
+        }
+    }
+    if (end === -1) throw new Error('Not a ZIP archive (no central directory)');
+
+    const count = archive.readUInt16LE(end + 10);
+    let offset = archive.readUInt32LE(end + 16);
+    for (let i = 0; i < count; i++) {
+        if (archive.readUInt32LE(offset) !== 0x02014b50) throw new Error('Corrupt ZIP central directory');
+        const method = archive.readUInt16LE(offset + 10);
+        const compressedSize = archive.readUInt32LE(offset + 20);
+        const size = archive.readUInt32LE(offset + 24);
+        const nameLength = archive.readUInt16LE(offset + 28);
+        const extraLength = archive.readUInt16LE(offset + 30);
+        const commentLength = archive.readUInt16LE(offset + 32);
+        const localOffset = archive.readUInt32LE(offset + 42);
+        const entryName = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+        offset += 46 + nameLength + extraLength + commentLength;
+        if (entryName !== name) continue;
+
+        // The local header repeats sizes (zero when a data descriptor follows), name and extra field
+        if (archive.readUInt32LE(localOffset) !== 0x04034b50) throw new Error('Corrupt ZIP local header');
+        const tooLarge = () => new Error(`ZIP entry ${name} is larger than ${Math.round(maxBytes / 1024 / 1024)} MB`);
+        if (Math.max(size, archive.readUInt32LE(localOffset + 22)) > maxBytes) throw tooLarge();
+        const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+        const data = archive.subarray(dataStart, dataStart + compressedSize);
+        if (method === 0) return data;
+        if (method === 8) {
+            // The declared sizes may lie; the output cap does not
+            try {
+                return zlib.inflateRawSync(data, { maxOutputLength: maxBytes });
+            } catch (error) {
+                throw error instanceof RangeError ? tooLarge() : error;
+            }
+        }
+        throw new Error(`Unsupported ZIP compression method ${method}`);
+    }
+    return null;
+}
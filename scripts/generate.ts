@@ -0,0 +1,268 @@
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { prepareGeneration } from '../lib/generate';
+import { EXAM_FILES, getExam, readExamFile } from '../lib/library';
+import { createLogger } from '../lib/logger';
+import { createTracker, type ExamResult, type ProgressEvent } from '../lib/progress';
+import type { GenerationTask, ModelProvider } from '../lib/providers';
+import { SOURCE_ACCEPT, describeProblems } from '../lib/upload';
+import { documentBody } from '../lib/utils';
+
+// Headless batch generation: the /api/process-pdf pipeline (lib/generate.ts) run over a
+// folder or a list of sources. Each run writes its TeX, PDFs and a manifest.json to its own
+// directory and is saved to the library like a generation from the page; every run after
+// the first regenerates the one before it.
+
+const USAGE = `Usage: npm run generate -- <sources...> --out <dir> [options]
+
+Sources are files or directories; a directory adds the source files directly inside it.
+
+  -o, --out <dir>            Where the runs are written (run-1/, run-2/, ...)
+  -r, --regenerations <n>    Regenerations after the first exam (default 0)
+      --options <json>       Exam options, as the options form field:
+                             '{"questionCount": 10, "difficulty": "harder", "versions": 2}'
+      --solutions            Also build the answer key
+      --engine <name>        auto, pdflatex, xelatex or lualatex
+      --provider <name>      Model provider (default MODEL_PROVIDER)
+      --model <name>         Model name (default MODEL_NAME)
+      --dry-run              Print the exam prompt and stop, writing nothing; parts that
+                             come from a source analysis not cached yet are placeholders
+  -h, --help                 Show this help
+
+Exit codes: 0 done, 1 a generation failed, 2 invalid arguments or sources,
+3 done but a PDF did not compile (the TeX is written).`;
+
+const EXIT = { ok: 0, failed: 1, usage: 2, pdfFailed: 3 } as const;
+
+// The app finds prompts/ and the library from the working directory, which for the CLI may be
+// anywhere; resolve both from the project root instead, so runs land in the page's library
+const PROJECT_ROOT = path.join(__dirname, '..');
+process.env.PROMPTS_DIR ??= path.join(PROJECT_ROOT, 'prompts');
+process.env.LIBRARY_DIR ??= path.join(PROJECT_ROOT, '.data', 'library');
+
+class UsageError extends Error {}
+
+// File extensions a directory is scanned for; the type itself is detected from the content
+const SOURCE_EXTENSIONS = SOURCE_ACCEPT.split(',').filter((entry) => entry.startsWith('.'));
+
+type Source = { name: string; content: Buffer };
+
+async function collectSources(inputs: string[]): Promise<Source[]> {
+    if (inputs.length === 0) throw new UsageError('No sources given');
+    const files: string[] = [];
+    for (const input of inputs) {
+        const stat = await fs.promises.stat(input).catch(() => null);
+        if (!stat) throw new UsageError(`${input} does not exist`);
+        if (!stat.isDirectory()) {
+            files.push(input);
+            continue;
+        }
+        const entries = (await fs.promises.readdir(input, { withFileTypes: true }))
+            .filter((entry) => entry.isFile() && SOURCE_EXTENSIONS.includes(path.extname(entry.name).toLowerCase()))
+            .map((entry) => path.join(input, entry.name))
+            .sort();
+        if (entries.length === 0) throw new UsageError(`${input} has no source files (${SOURCE_EXTENSIONS.join(', ')})`);
+        files.push(...entries);
+    }
+    return Promise.all(files.map(async (file) => ({ name: path.basename(file), content: await fs.promises.readFile(file) })));
+}
+
+type Settings = {
+    options?: string;
+    solutions: boolean;
+    engine?: string;
+    provider?: string;
+    model?: string;
+};
+
+// The form the page would send; a regeneration carries the previous exam as its context
+function buildForm(sources: Source[], settings: Settings, previous: ExamResult | null): FormData {
+    const form = new FormData();
+    for (const source of sources) form.append('file', new File([new Uint8Array(source.content)], source.name));
+    if (settings.solutions) form.append('solutions', 'true');
+    if (settings.options) form.append('options', settings.options);
+    if (settings.engine) form.append('engine', settings.engine);
+    if (settings.provider) form.append('provider', settings.provider);
+    if (settings.model) form.append('model', settings.model);
+    if (previous) {
+        form.append('regenerate', 'true');
+        form.append('previousContext', documentBody(previous.tex));
+        form.append('questions', JSON.stringify(previous.questions));
+        form.append('parentId', previous.examId);
+    }
+    return form;
+}
+
+// Stands in for the model on --dry-run: keeps the first prompt (the exam call, as a dry run
+// skips the analysis) and aborts the run there
+function promptCatcher(controller: AbortController) {
+    const caught: { task: GenerationTask | null; prompt: string; files: string[] } = { task: null, prompt: '', files: [] };
+    const provider: ModelProvider = {
+        name: 'stub',
+        async generate(request) {
+            caught.task = request.task;
+            caught.prompt = request.prompt;
+            caught.files = (request.files ?? []).map((file) => `${file.name ?? 'source'} (${file.mimeType})`);
+            controller.abort();
+            throw controller.signal.reason;
+        },
+    };
+    return { provider, caught };
+}
+
+// "  done    Generating exam  3412 chars, 2051 tokens (4.2s)"
+function printStep(event: ProgressEvent) {
+    if (event.type !== 'step' || event.status === 'running') return;
+    const duration = event.durationMs !== undefined ? ` (${(event.durationMs / 1000).toFixed(1)}s)` : '';
+    process.stderr.write(`  ${event.status.padEnd(6)}  ${event.label}${event.detail ? `  ${event.detail}` : ''}${duration}\n`);
+}
+
+// Copies the saved files of the run's exam, or of every version into version-X/
+async function writeOutputs(dir: string, result: ExamResult): Promise<string[]> {
+    const exams = result.batch
+        ? result.batch.versions.map(({ version, examId }) => ({ examId, dir: `version-${version}` }))
+        : [{ examId: result.examId, dir: '' }];
+    const written: string[] = [];
+    for (const exam of exams) {
+        const record = await getExam(exam.examId);
+        await fs.promises.mkdir(path.join(dir, exam.dir), { recursive: true });
+        for (const file of EXAM_FILES.filter((name) => record?.files.includes(name))) {
+            const content = await readExamFile(exam.examId, file);
+            if (!content) continue;
+            await fs.promises.writeFile(path.join(dir, exam.dir, file), content);
+            written.push(path.join(exam.dir, file));
+        }
+    }
+    return written;
+}
+
+function manifest(run: number, sources: Source[], startedAt: Date, result: ExamResult | null, files: string[], error: string | null) {
+    return {
+        run,
+        status: result ? 'succeeded' : 'failed',
+        error,
+        startedAt: startedAt.toISOString(),
+        finishedAt: new Date().toISOString(),
+        sources: sources.map((source) => source.name),
+        examId: result?.examId ?? null,
+        parentId: result?.parentId ?? null,
+        profile: result?.profile ?? null,
+        settings: result?.settings ?? null,
+        options: result?.options ?? null,
+        files,
+        ...(result ? {
+            exam: { compiled: !!result.pdfBase64, error: result.error, engine: result.engine, passes: result.passes, repairRounds: result.repairRounds },
+            solutions: result.solutionsTex
+                ? { compiled: !!result.solutionsPdfBase64, error: result.solutionsError, passes: result.solutionsPasses, repairRounds: result.solutionsRepairRounds }
+                : null,
+            questions: result.exam.questions.length,
+            tooClose: result.novelty.questions.filter((q) => q.flagged).map((q) => q.questionId),
+            versions: result.batch,
+            usage: result.usage.totals,
+            timings: result.timings,
+        } : {}),
+    };
+}
+
+async function main(): Promise<number> {
+    let args;
+    try {
+        args = parseArgs({
+            allowPositionals: true,
+            options: {
+                out: { type: 'string', short: 'o' },
+                regenerations: { type: 'string', short: 'r', default: '0' },
+                options: { type: 'string' },
+                solutions: { type: 'boolean', default: false },
+                engine: { type: 'string' },
+                provider: { type: 'string' },
+                model: { type: 'string' },
+                'dry-run': { type: 'boolean', default: false },
+                help: { type: 'boolean', short: 'h', default: false },
+            },
+        });
+    } catch (error) {
+        console.error(`${(error as Error).message}\n\n${USAGE}`);
+        return EXIT.usage;
+    }
+    const { values, positionals } = args;
+    if (values.help) {
+        console.log(USAGE);
+        return EXIT.ok;
+    }
+
+    const dryRun = values['dry-run'];
+    const regenerations = Number(values.regenerations);
+    let sources: Source[];
+    try {
+        if (!Number.isInteger(regenerations) || regenerations < 0) throw new UsageError(`Invalid regeneration count "${values.regenerations}"`);
+        if (!values.out && !dryRun) throw new UsageError('--out is required');
+        sources = await collectSources(positionals);
+    } catch (error) {
+        if (!(error instanceof UsageError)) throw error;
+        console.error(`${error.message}\n\n${USAGE}`);
+        return EXIT.usage;
+    }
+
+    // Step lines are the progress output, failed stages included; logs only show errors unless LOG_LEVEL says otherwise
+    process.env.LOG_LEVEL ??= 'error';
+    const runs = regenerations + 1;
+    let exitCode: number = EXIT.ok;
+    let previous: ExamResult | null = null;
+
+    for (let run = 1; run <= runs; run++) {
+        const log = createLogger('cli');
+        const controller = new AbortController();
+        const catcher = dryRun ? promptCatcher(controller) : null;
+        const prepared = await prepareGeneration(buildForm(sources, values, previous), log, { model: catcher?.provider, dryRun });
+        if (!prepared.ok) {
+            console.error(prepared.body.files ? describeProblems(prepared.body.files) : prepared.body.error);
+            return prepared.status >= 500 ? EXIT.failed : EXIT.usage;
+        }
+
+        if (catcher) {
+            await prepared.run(createTracker(() => {}, log, controller.signal)).catch(() => {});
+            if (!catcher.caught.task) {
+                console.error('The run stopped before any model call');
+                return EXIT.failed;
+            }
+            console.error(`Prompt of the ${catcher.caught.task} call${catcher.caught.files.length > 0 ? `, with ${catcher.caught.files.join(', ')} attached` : ''}:\n`);
+            console.log(catcher.caught.prompt);
+            return EXIT.ok;
+        }
+
+        const dir = path.join(values.out!, `run-${String(run).padStart(String(runs).length, '0')}`);
+        const startedAt = new Date();
+        process.stderr.write(`Run ${run} of ${runs}${previous ? `, regenerating ${previous.examId}` : ''}\n`);
+        let result: ExamResult;
+        try {
+            result = await prepared.run(createTracker(printStep, log));
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            await fs.promises.mkdir(dir, { recursive: true });
+            await fs.promises.writeFile(path.join(dir, 'manifest.json'), JSON.stringify(manifest(run, sources, startedAt, null, [], message), null, 2));
+            console.error(`Run ${run} failed: ${message} (request ${log.requestId})`);
+            // Later runs regenerate this one, so the batch stops here
+            return EXIT.failed;
+        }
+
+        const files = await writeOutputs(dir, result);
+        await fs.promises.writeFile(path.join(dir, 'manifest.json'), JSON.stringify(manifest(run, sources, startedAt, result, files, null), null, 2));
+        const pdfFailed = !result.pdfBase64 || (!!result.solutionsTex && !result.solutionsPdfBase64);
+        if (pdfFailed) exitCode = EXIT.pdfFailed;
+        process.stderr.write(`  ${pdfFailed ? 'PDF compilation failed, TeX written' : 'Written'} to ${dir}\n`);
+        previous = result;
+    }
+    return exitCode;
+}
+
+main().then(
+    (code) => {
+        process.exitCode = code;
+    },
+    (error) => {
+        console.error(error);
+        process.exitCode = EXIT.failed;
+    }
+);
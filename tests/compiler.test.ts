@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { compileTex, detectEngine, parseLatexLog } from '../lib/compiler';
+
+const document = (body: string, preamble = '') => `\\documentclass{article}\n${preamble}\\begin{document}\n${body}\n\\end{document}\n`;
+
+describe('compileTex', () => {
+    it('refuses to read files outside the job directory', async (t) => {
+        const outcome = await compileTex(document('\\input{/etc/hostname}'), 'input-test', 'pdflatex');
+        if (outcome.failure === 'missing-engine') return t.skip('no TeX installation');
+        assert.equal(outcome.pdf, null);
+        assert.equal(outcome.failure, 'latex-error');
+    });
+
+    describe('with an engine that always fails', () => {
+        const bin = fs.mkdtempSync(path.join(os.tmpdir(), 'fake-tex-'));
+        const env = { PATH: process.env.PATH, LATEX_USE_LATEXMK: process.env.LATEX_USE_LATEXMK, LATEX_LOG_DIR: process.env.LATEX_LOG_DIR };
+        before(() => {
+            fs.writeFileSync(path.join(bin, 'pdflatex'), '#!/bin/sh\nprintf "! Undefined control sequence.\\nl.3 \\\\foo\\n" > main.log\nexit 1\n', { mode: 0o755 });
+            process.env.PATH = `${bin}${path.delimiter}${process.env.PATH}`;
+            process.env.LATEX_USE_LATEXMK = 'false';
+        });
+        after(() => {
+            for (const [key, value] of Object.entries(env)) {
+                if (value === undefined) delete process.env[key];
+                else process.env[key] = value;
+            }
+            fs.rmSync(bin, { recursive: true, force: true });
+        });
+
+        it('reports the errors of the log', async () => {
+            process.env.LATEX_LOG_DIR = path.join(bin, 'logs');
+            const outcome = await compileTex(document('\\foo'), 'fail-test', 'pdflatex');
+            assert.equal(outcome.failure, 'latex-error');
+            assert.deepEqual(outcome.errors, [{ message: 'Undefined control sequence.', line: 3 }]);
+            assert.ok(outcome.logPath && fs.existsSync(outcome.logPath));
+        });
+
+        it('does not throw when the log directory cannot be written', async () => {
+            // Below a file, so the directory cannot be created
+            process.env.LATEX_LOG_DIR = path.join(bin, 'pdflatex', 'logs');
+            const outcome = await compileTex(document('\\foo'), 'fail-test', 'pdflatex');
+            assert.equal(outcome.failure, 'latex-error');
+            assert.equal(outcome.logPath, null);
+        });
+    });
+});
+
+describe('parseLatexLog', () => {
+    it('pairs each error with its source line', () => {
+        const log = [
+            'This is pdfTeX',
+            '! Undefined control sequence.',
+            'l.12 \\foo',
+            '          {bar}',
+            '! Missing $ inserted.',
+            '<inserted text>',
+            '                $',
+            'l.20 x^2',
+        ].join('\n');
+        assert.deepEqual(parseLatexLog(log), [
+            { message: 'Undefined control sequence.', line: 12 },
+            { message: 'Missing $ inserted.', line: 20 },
+        ]);
+    });
+
+    it('drops repeats and the emergency stop after a real error', () => {
+        const log = '! Undefined control sequence.\nl.5 \\foo\n! Undefined control sequence.\nl.5 \\foo\n! Emergency stop.\nl.5 \\foo\n';
+        assert.deepEqual(parseLatexLog(log), [{ message: 'Undefined control sequence.', line: 5 }]);
+    });
+});
+
+describe('detectEngine', () => {
+    it('picks the engine the preamble needs', () => {
+        assert.equal(detectEngine(document('x', '\\usepackage{amsmath}\n')), 'pdflatex');
+        assert.equal(detectEngine(document('x', '\\usepackage{fontspec}\n\\setmainfont{Libertinus Serif}\n')), 'xelatex');
+        assert.equal(detectEngine(document('x', '\\usepackage{luacode}\n')), 'lualatex');
+    });
+
+    it('ignores comments and the document body', () => {
+        assert.equal(detectEngine(document('\\usepackage{fontspec}', '% \\usepackage{fontspec}\n')), 'pdflatex');
+    });
+});
@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { convertTex } from '../lib/convert';
+
+const document = (body: string, preamble = '') => `\\documentclass{article}\n${preamble}\\begin{document}\n${body}\n\\end{document}`;
+
+describe('convertTex', () => {
+    it('turns lists, styles, math and tables into Markdown', () => {
+        const tex = document([
+            '% left out',
+            '\\section*{Part A}',
+            '\\begin{enumerate}',
+            '\\item What is $x^2$ when \\textbf{x} = 3?',
+            '\\item Solve \\[ \\int_0^1 x\\,dx \\]',
+            '\\end{enumerate}',
+            '\\begin{tabular}{ll} a & b \\\\ c & d \\end{tabular}',
+        ].join('\n'));
+        const { content, warnings } = convertTex(tex, 'markdown', 'Midterm');
+        assert.equal(content, [
+            '## Part A',
+            '',
+            '1. What is $x^2$ when **x** = 3?',
+            '2. Solve',
+            '',
+            '   $$',
+            '   \\int_0^1 x\\,dx',
+            '   $$',
+            '',
+            '| a | b |',
+            '| --- | --- |',
+            '| c | d |',
+            '',
+        ].join('\n'));
+        assert.deepEqual(warnings, []);
+    });
+
+    it('prints the \\title at \\maketitle', () => {
+        const { content } = convertTex(document('\\maketitle\nText.', '\\title{Midterm}\n'), 'markdown', 'Fallback');
+        assert.ok(content.startsWith('# Midterm\n'));
+    });
+
+    it('renders math with KaTeX in HTML and titles the page', () => {
+        const { content, warnings } = convertTex(document('What is $x^2$?'), 'html', 'Midterm');
+        assert.ok(content.startsWith('<!DOCTYPE html>'));
+        assert.ok(content.includes('<title>Midterm</title>'));
+        assert.ok(content.includes('class="katex"'));
+        assert.deepEqual(warnings, []);
+    });
+
+    it('keeps unsupported commands verbatim and counts them once per kind', () => {
+        const { content, warnings } = convertTex(document('\\weirdmacro{1} \\weirdmacro{2}'), 'html', 'Midterm');
+        assert.ok(content.includes('<code class="latex-unsupported">\\weirdmacro{1}</code>'));
+        assert.deepEqual(warnings, ['Unsupported command \\weirdmacro kept as LaTeX (2×)']);
+    });
+
+    it('keeps math KaTeX cannot parse as TeX and warns', () => {
+        const { content, warnings } = convertTex(document('Some $\\frac{1}{0$ text.'), 'html', 'Midterm');
+        assert.ok(content.includes('\\frac{1}{0'));
+        assert.equal(warnings.length, 1);
+        assert.match(warnings[0], /^Math KaTeX cannot render, kept as TeX/);
+    });
+});
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { cancelJob, enqueueJob, getJob, getJobResult } from '../lib/jobs';
+import type { Logger } from '../lib/logger';
+import type { ExamResult, ProgressTracker } from '../lib/progress';
+
+const quiet: Logger = { requestId: 'test-request', debug() {}, info() {}, warn() {}, error() {}, child: () => quiet };
+
+const result = { examId: 'exam-1' } as ExamResult;
+
+// Resolves once the job left the given status
+async function settle(id: string, status: string) {
+    for (let i = 0; i < 100 && getJob(id)?.status === status; i++) await new Promise((resolve) => setTimeout(resolve, 5));
+    return getJob(id)!;
+}
+
+describe('jobs', () => {
+    it('runs a job, reports its steps and keeps the result out of the view', async () => {
+        const job = enqueueJob(async (tracker) => {
+            tracker.start('model', 'Calling the model');
+            tracker.finish('model', 'Done');
+            return result;
+        }, quiet)!;
+        assert.equal(job.requestId, 'test-request');
+
+        const done = await settle(job.id, 'running');
+        assert.equal(done.status, 'succeeded');
+        assert.deepEqual(done.steps.map((step) => [step.id, step.status]), [['model', 'done']]);
+        assert.ok(!('result' in done));
+        assert.equal(getJobResult(job.id), result);
+    });
+
+    it('records the error of a failed job and has no result', async () => {
+        const job = enqueueJob(async () => {
+            throw new Error('model unavailable');
+        }, quiet)!;
+        const done = await settle(job.id, 'running');
+        assert.deepEqual([done.status, done.error], ['failed', 'model unavailable']);
+        assert.equal(getJobResult(job.id), null);
+    });
+
+    it('aborts the signal of a cancelled job', async () => {
+        let tracker: ProgressTracker | undefined;
+        const job = enqueueJob((t) => {
+            tracker = t;
+            return new Promise<ExamResult>(() => {});
+        }, quiet)!;
+        await settle(job.id, 'queued');
+
+        const cancelled = cancelJob(job.id)!;
+        assert.deepEqual([cancelled.status, cancelled.error], ['cancelled', 'Cancelled']);
+        assert.equal(tracker?.signal?.aborted, true);
+        assert.equal(cancelJob(job.id)?.status, 'cancelled');
+    });
+
+    it('knows nothing of unknown jobs', () => {
+        assert.equal(getJob('missing'), null);
+        assert.equal(getJobResult('missing'), null);
+        assert.equal(cancelJob('missing'), null);
+    });
+});
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { lintTex } from '../lib/lint';
+
+const document = (body: string, preamble = '') => `\\documentclass{article}\n${preamble}\\begin{document}\n${body}\n\\end{document}`;
+
+describe('lintTex', () => {
+    it('leaves a clean document alone', () => {
+        const tex = document('Question 1: $x^2$', '\\usepackage{amsmath}\n');
+        assert.deepEqual(lintTex(tex, 'pdflatex'), { tex, diagnostics: [] });
+    });
+
+    it('strips markdown fences', () => {
+        const { tex, diagnostics } = lintTex(`\`\`\`latex\n${document('Q1')}\n\`\`\``, 'pdflatex');
+        assert.ok(!tex.includes('```'));
+        assert.deepEqual(diagnostics.map((d) => [d.code, d.fixed]), [['markdown-fence', true], ['markdown-fence', true]]);
+    });
+
+    it('replaces unicode pdflatex cannot typeset, only under pdflatex', () => {
+        const source = document('An angle of 30° at \u00a0 the vertex');
+        const fixed = lintTex(source, 'pdflatex');
+        assert.ok(fixed.tex.includes('30\\ensuremath{^\\circ}'));
+        assert.deepEqual(fixed.diagnostics.map((d) => [d.code, d.fixed]), [['unicode', true], ['unicode', true]]);
+        assert.deepEqual(lintTex(source, 'xelatex').diagnostics, []);
+    });
+
+    it('adds missing packages before \\begin{document} and shifts line numbers', () => {
+        const { tex, diagnostics } = lintTex(document('\\ce{H2O} and \\includegraphics{plot}'), 'pdflatex');
+        const lines = tex.split('\n');
+        assert.equal(diagnostics.length, 2);
+        assert.ok(lines.indexOf('\\usepackage[version=4]{mhchem}') < lines.indexOf('\\begin{document}'));
+        assert.ok(lines.includes('\\usepackage{graphicx}'));
+        for (const diagnostic of diagnostics) {
+            assert.equal(diagnostic.code, 'missing-package');
+            assert.equal(lines[diagnostic.line! - 1], '\\ce{H2O} and \\includegraphics{plot}');
+        }
+    });
+
+    it('does not mistake a macro defined in the preamble for a missing package', () => {
+        const { diagnostics } = lintTex(document('$\\mathbb{R}$', '\\newcommand{\\mathbb}[1]{#1}\n'), 'pdflatex');
+        assert.deepEqual(diagnostics, []);
+    });
+
+    it('appends a missing \\end{document}', () => {
+        const { tex, diagnostics } = lintTex('\\documentclass{article}\n\\begin{document}\nQ1', 'pdflatex');
+        assert.ok(tex.endsWith('\\end{document}'));
+        assert.deepEqual(diagnostics.map((d) => [d.code, d.fixed]), [['unbalanced-environment', true]]);
+    });
+
+    it('reports unbalanced environments it cannot fix', () => {
+        const { diagnostics } = lintTex(document('\\begin{enumerate}\n\\item Q1'), 'pdflatex');
+        assert.ok(diagnostics.some((d) => d.code === 'unbalanced-environment' && !d.fixed && d.severity === 'error'));
+    });
+
+    it('only reports when fixing is off', () => {
+        const source = document('30°');
+        const { tex, diagnostics } = lintTex(source, 'pdflatex', false);
+        assert.equal(tex, source);
+        assert.deepEqual(diagnostics.map((d) => [d.code, d.fixed]), [['unicode', false]]);
+    });
+});
@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { ExamDocument, Question } from '../lib/exam';
+import { buildMoodleXml, buildQtiPackage } from '../lib/lms';
+import { readZipEntry } from '../lib/zip';
+
+const question = (fields: Partial<Question>): Question => ({
+    id: 'Q1',
+    type: 'short-answer',
+    topic: 'Kinematics',
+    stem: 'A car accelerates from rest.',
+    parts: [],
+    choices: [],
+    marks: 4,
+    answer: '',
+    ...fields,
+});
+
+const exam = (...questions: Question[]): ExamDocument => ({ preamble: '', header: '', questions, sourceQuestionTypes: [] });
+
+const mcq = question({
+    type: 'mcq',
+    marks: 1,
+    choices: [
+        { label: 'A', text: '2', correct: false },
+        { label: 'B', text: '4', correct: true },
+    ],
+});
+
+const numeric = question({ numericAnswer: { value: 12.5, tolerance: 0.1 }, answer: '$12.5$' });
+
+const written = question({ type: 'long-answer', answer: 'By the chain rule.' });
+
+const mixed = question({
+    parts: [
+        { label: '(a)', text: 'Find the speed.', marks: 2, answer: '$4$', numericAnswer: { value: 4, tolerance: 0.01 } },
+        { label: '(b)', text: 'Explain.', marks: 3, answer: 'Because.' },
+    ],
+    marks: 5,
+});
+
+const qtiItem = (doc: ExamDocument) => readZipEntry(buildQtiPackage(doc, 'Physics', 'e1'), 'items/Q1.xml')!.toString();
+
+describe('buildMoodleXml', () => {
+    it('flags the correct MCQ option', () => {
+        const xml = buildMoodleXml(exam(mcq), 'Physics');
+        assert.match(xml, /<question type="multichoice">/);
+        assert.match(xml, /<answer fraction="0" format="html"><text><!\[CDATA\[<p>2<\/p>\]\]><\/text><\/answer>/);
+        assert.match(xml, /<answer fraction="100" format="html"><text><!\[CDATA\[<p>4<\/p>\]\]><\/text><\/answer>/);
+    });
+
+    it('exports a numeric answer with its tolerance', () => {
+        const xml = buildMoodleXml(exam(numeric), 'Physics');
+        assert.match(xml, /<question type="numerical">/);
+        assert.match(xml, /<answer fraction="100"><text>12.5<\/text><tolerance>0.1<\/tolerance><\/answer>/);
+    });
+
+    it('splits numeric parts into a cloze question and the rest into an essay', () => {
+        const xml = buildMoodleXml(exam(mixed), 'Physics');
+        assert.match(xml, /<question type="cloze">\n\s*<name><text>Q1 \(a\): Kinematics<\/text><\/name>/);
+        assert.match(xml, /\{2:NUMERICAL:=4:0.01\}/);
+        assert.match(xml, /<question type="essay">\n\s*<name><text>Q1 \(b\): Kinematics<\/text><\/name>/);
+        assert.deepEqual([...xml.matchAll(/<defaultgrade>(\d+)<\/defaultgrade>/g)].map((m) => m[1]), ['2', '3']);
+    });
+
+    it('keeps questions whose parts are all numeric in one cloze question', () => {
+        const xml = buildMoodleXml(exam({ ...mixed, parts: [mixed.parts[0]], marks: 2 }), 'Physics');
+        assert.equal(xml.match(/<question type="(?!category)/g)?.length, 1);
+        assert.match(xml, /<name><text>Q1: Kinematics<\/text><\/name>/);
+    });
+});
+
+describe('buildQtiPackage', () => {
+    it('lists every item in the manifest and the test', () => {
+        const archive = buildQtiPackage(exam(mcq, { ...numeric, id: 'Q2' }), 'Physics', 'e1');
+        const manifest = readZipEntry(archive, 'imsmanifest.xml')!.toString();
+        const test = readZipEntry(archive, 'assessment.xml')!.toString();
+        for (const href of ['items/Q1.xml', 'items/Q2.xml']) {
+            assert.ok(manifest.includes(`href="${href}"`));
+            assert.ok(test.includes(`href="${href}"`));
+        }
+    });
+
+    it('shows the worked answer of an essay once it is submitted', () => {
+        const xml = qtiItem(exam(written));
+        assert.match(xml, /<responseProcessing>\n\s*<setOutcomeValue identifier="FEEDBACK"><baseValue baseType="identifier">SOLUTION<\/baseValue>/);
+        assert.match(xml, /<modalFeedback outcomeIdentifier="FEEDBACK" identifier="SOLUTION" showHide="show">/);
+    });
+
+    it('gives every part a field and scores the numeric ones', () => {
+        const xml = qtiItem(exam(mixed));
+        assert.match(xml, /<textEntryInteraction responseIdentifier="RESPONSE_1"/);
+        assert.match(xml, /<extendedTextInteraction responseIdentifier="RESPONSE_2"/);
+        assert.match(xml, /<equal toleranceMode="absolute" tolerance="0.01 0.01">\n\s*<variable identifier="RESPONSE_1"\/>/);
+        assert.equal(xml.match(/<responseCondition>/g)?.length, 1);
+        assert.match(xml, /identifier="MAXSCORE"[^]*?<value>5<\/value>/);
+    });
+});
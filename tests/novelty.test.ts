@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import type { ExamDocument, Question } from '../lib/exam';
+import type { Logger } from '../lib/logger';
+import { assessNovelty, ensureNovelty, type NoveltyReference } from '../lib/novelty';
+import { DEFAULT_EXAM_OPTIONS } from '../lib/options';
+import { loadProfile, type PromptProfile } from '../lib/profiles';
+import { createTracker } from '../lib/progress';
+import type { ModelProvider } from '../lib/providers';
+
+const quiet: Logger = { requestId: 'test', debug() {}, info() {}, warn() {}, error() {}, child: () => quiet };
+
+const question = (id: string, stem: string, fields: Partial<Question> = {}): Question => ({
+    id,
+    type: 'short-answer',
+    topic: 'Kinematics',
+    stem,
+    parts: [],
+    choices: [],
+    marks: 4,
+    answer: 'Worked answer.',
+    ...fields,
+});
+
+const exam = (...questions: Question[]): ExamDocument => ({ preamble: '', header: '', questions, sourceQuestionTypes: [] });
+
+const copied = 'A train leaves the station at 80 km/h and brakes uniformly over 400 m. Find the deceleration $a = \\frac{v^2}{2s}$.';
+const fresh = 'A cyclist climbs a hill of gradient 7 percent. Estimate the power needed at steady speed.';
+
+const sources: NoveltyReference[] = [
+    { kind: 'source', label: 'exam2019.pdf, part 1', text: copied },
+    { kind: 'attempt', label: 'Attempt of 2026-03-12 09:14, Q2', text: 'Integrate the logarithm over an interval.' },
+];
+
+describe('assessNovelty', () => {
+    it('flags a copied question and names the reference it matches', () => {
+        const report = assessNovelty(exam(question('Q1', copied), question('Q2', fresh)), sources, 0.6);
+        const [first, second] = report.questions;
+        assert.equal(first.flagged, true);
+        assert.equal(first.match?.label, 'exam2019.pdf, part 1');
+        assert.deepEqual(first.match?.sharedNumbers, ['80', '400']);
+        assert.ok(first.match!.score >= 0.99);
+        assert.equal(second.flagged, false);
+        assert.deepEqual([report.sources, report.attempts], [1, 1]);
+    });
+
+    it('never flags locked questions', () => {
+        const report = assessNovelty(exam(question('Q1', copied, { locked: true })), sources, 0.6);
+        assert.equal(report.questions[0].flagged, false);
+    });
+
+    it('reports no match without references', () => {
+        const report = assessNovelty(exam(question('Q1', copied)), [], 0.6);
+        assert.deepEqual(report.questions[0], { questionId: 'Q1', match: null, flagged: false, rewrites: 0 });
+    });
+});
+
+describe('ensureNovelty', () => {
+    let profile: PromptProfile;
+    before(async () => {
+        profile = await loadProfile(null);
+    });
+
+    const provider = (generate: ModelProvider['generate']): ModelProvider => ({ name: 'stub', generate });
+    const context = (model: ModelProvider, signal?: AbortSignal) => ({
+        rounds: 1,
+        provider: model,
+        settings: { provider: 'stub' as const, model: 'stub', temperature: 0, thinkingLevel: 'low' as const },
+        options: DEFAULT_EXAM_OPTIONS,
+        analysis: null,
+        profile,
+        tracker: createTracker(() => {}, quiet, signal),
+    });
+
+    it('rewrites flagged questions until they pass', async () => {
+        const rewrite = provider(async () => ({
+            text: JSON.stringify(question('ignored', fresh)),
+            thoughts: '',
+            usage: { promptTokens: 0, thinkingTokens: 0, outputTokens: 0 },
+        }));
+        const { doc, report } = await ensureNovelty(exam(question('Q1', copied)), sources, context(rewrite));
+        assert.equal(doc.questions[0].id, 'Q1');
+        assert.equal(doc.questions[0].stem, fresh);
+        assert.equal(report.questions[0].flagged, false);
+        assert.equal(report.questions[0].rewrites, 1);
+    });
+
+    it('keeps the question when a rewrite fails', async () => {
+        const failing = provider(async () => {
+            throw new Error('model unavailable');
+        });
+        const { doc, report } = await ensureNovelty(exam(question('Q1', copied)), sources, context(failing));
+        assert.equal(doc.questions[0].stem, copied);
+        assert.equal(report.questions[0].flagged, true);
+        assert.equal(report.questions[0].rewrites, 0);
+    });
+
+    it('stops when the run is cancelled during a rewrite', async () => {
+        const controller = new AbortController();
+        const cancelled = provider(async () => {
+            controller.abort();
+            throw new Error('aborted');
+        });
+        await assert.rejects(ensureNovelty(exam(question('Q1', copied)), sources, context(cancelled, controller.signal)), /aborted/);
+    });
+});
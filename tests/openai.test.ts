@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { createOpenAIProvider } from '../lib/providers/openai';
+import type { GenerateRequest } from '../lib/providers/types';
+
+const realFetch = globalThis.fetch;
+
+// Answers every call with one streamed chunk and keeps the request bodies
+function captureBodies() {
+    const bodies: Record<string, unknown>[] = [];
+    globalThis.fetch = async (_url, init) => {
+        bodies.push(JSON.parse(init!.body as string));
+        return new Response('data: {"choices":[{"delta":{"content":"ok"}}]}\n\ndata: [DONE]\n\n');
+    };
+    return bodies;
+}
+
+const request = (model: string): GenerateRequest => ({ task: 'exam', prompt: 'Write an exam', model, temperature: 0.4, thinkingLevel: 'low' });
+
+describe('OpenAI provider', () => {
+    afterEach(() => {
+        globalThis.fetch = realFetch;
+    });
+
+    it('streams the response text', async () => {
+        captureBodies();
+        const result = await createOpenAIProvider('https://api.example.com/v1').generate(request('gpt-4o-mini'));
+        assert.equal(result.text, 'ok');
+    });
+
+    it('sends reasoning_effort only to reasoning models', async () => {
+        const bodies = captureBodies();
+        const provider = createOpenAIProvider('https://api.example.com/v1');
+        await provider.generate(request('gpt-4o-mini'));
+        await provider.generate(request('o4-mini'));
+        await provider.generate(request('gpt-5'));
+        assert.deepEqual(bodies.map((body) => body.reasoning_effort), [undefined, 'low', 'low']);
+    });
+
+    it('follows the configured setting over the model name', async () => {
+        const bodies = captureBodies();
+        await createOpenAIProvider('http://localhost:8000/v1', undefined, true).generate(request('qwen3-32b'));
+        await createOpenAIProvider('http://localhost:8000/v1', undefined, false).generate(request('o4-mini'));
+        assert.deepEqual(bodies.map((body) => body.reasoning_effort), ['low', undefined]);
+    });
+});
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_EXAM_OPTIONS, formatTimeLimit, parseExamOptions } from '../lib/options';
+
+describe('parseExamOptions', () => {
+    it('fills in defaults for a missing field', () => {
+        assert.deepEqual(parseExamOptions(undefined), DEFAULT_EXAM_OPTIONS);
+        assert.deepEqual(parseExamOptions(''), DEFAULT_EXAM_OPTIONS);
+    });
+
+    it('reads the JSON form field, numbers as strings included', () => {
+        const options = parseExamOptions(JSON.stringify({
+            questionCount: '8',
+            totalMarks: 60,
+            difficulty: 'harder',
+            mcqPercent: 25,
+            timeLimitMinutes: 90,
+            topicWeights: { Integration: 2, Limits: 0 },
+        }));
+        assert.deepEqual(options, {
+            ...DEFAULT_EXAM_OPTIONS,
+            questionCount: 8,
+            totalMarks: 60,
+            difficulty: 'harder',
+            mcqPercent: 25,
+            timeLimitMinutes: 90,
+            topicWeights: { Integration: 2, Limits: 0 },
+        });
+    });
+
+    it('names the field that is out of range', () => {
+        assert.throws(() => parseExamOptions({ questionCount: 0 }), /Invalid questionCount: expected a whole number between 1 and 50/);
+        assert.throws(() => parseExamOptions({ mcqPercent: 12.5 }), /Invalid mcqPercent/);
+        assert.throws(() => parseExamOptions({ difficulty: 'brutal' }), /Invalid difficulty "brutal"/);
+        assert.throws(() => parseExamOptions({ topicWeights: { Limits: 9 } }), /Invalid weight for "Limits"/);
+    });
+
+    it('refuses input that is not an options object', () => {
+        assert.throws(() => parseExamOptions('{'), /not valid JSON/);
+        assert.throws(() => parseExamOptions([1, 2]), /expected an object/);
+    });
+
+    it('needs at least one topic with a weight', () => {
+        assert.throws(() => parseExamOptions({ topicWeights: { Integration: 0, Limits: 0 } }), /at least one topic/);
+    });
+});
+
+describe('formatTimeLimit', () => {
+    it('writes hours and minutes out', () => {
+        assert.equal(formatTimeLimit(45), '45 minutes');
+        assert.equal(formatTimeLimit(60), '1 hour');
+        assert.equal(formatTimeLimit(150), '2 hours 30 minutes');
+        assert.equal(formatTimeLimit(61), '1 hour 1 minute');
+    });
+});
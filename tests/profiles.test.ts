@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { listProfiles, loadProfile, renderTemplate } from '../lib/profiles';
+
+describe('loadProfile', () => {
+    let dir: string;
+    const previous = process.env.PROMPTS_DIR;
+
+    const write = (file: string, content: string) => {
+        fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+        fs.writeFileSync(path.join(dir, file), content);
+    };
+
+    before(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'profiles-'));
+        process.env.PROMPTS_DIR = dir;
+        for (const name of ['exam', 'analysis', 'question', 'version', 'repair']) write(`_defaults/${name}.txt`, `Default ${name}`);
+        write('physics/profile.json', JSON.stringify({ name: 'Physics', version: 1, role: 'Physics Professor' }));
+        write('physics/analysis.txt', 'Physics analysis for {{engine}}');
+        write('broken/profile.json', JSON.stringify({ name: 'Broken', version: 1, role: 'Professor' }));
+        write('broken/exam.txt', 'Uses {{nothing}}');
+    });
+
+    after(() => {
+        if (previous === undefined) delete process.env.PROMPTS_DIR;
+        else process.env.PROMPTS_DIR = previous;
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('takes the templates a profile has and the defaults for the rest', async () => {
+        const { templates } = await loadProfile('physics');
+        assert.equal(templates.analysis, 'Physics analysis for {{engine}}');
+        assert.equal(templates.exam, 'Default exam');
+        assert.equal(templates.repair, 'Default repair');
+    });
+
+    it('refuses templates with unknown placeholders', async () => {
+        await assert.rejects(loadProfile('broken'), /unknown variables in exam.txt \{\{nothing\}\}/);
+    });
+
+    it('lists working profiles only, never the defaults', async () => {
+        assert.deepEqual((await listProfiles()).map((profile) => profile.id), ['physics']);
+    });
+
+    it('loads every shipped profile', async () => {
+        process.env.PROMPTS_DIR = path.join(process.cwd(), 'prompts');
+        try {
+            assert.deepEqual((await listProfiles()).map((profile) => profile.id), ['chemistry', 'computer-science', 'economics', 'math']);
+        } finally {
+            process.env.PROMPTS_DIR = dir;
+        }
+    });
+});
+
+describe('renderTemplate', () => {
+    it('drops lines whose only placeholder is empty, with the blank line after them', () => {
+        assert.equal(renderTemplate('ROLE: {{role}}\n\n{{rules}}\n\nEnd', { role: 'Professor', rules: '' }), 'ROLE: Professor\n\nEnd');
+    });
+
+    it('throws on placeholders without a value', () => {
+        assert.throws(() => renderTemplate('{{role}} and {{other}}', { role: 'x' }), /Unknown template variable \{\{other\}\}/);
+    });
+});
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import zlib from 'zlib';
+import { PDF_STREAM_LIMIT } from '../lib/sources';
+import { UPLOAD_LIMITS, checkSizes, checkSource } from '../lib/upload';
+import { createZip } from '../lib/zip';
+
+const inflate = (data: Uint8Array) => zlib.inflateSync(data, { maxOutputLength: PDF_STREAM_LIMIT });
+
+const pdf = (body: string) => Buffer.from(`%PDF-1.5\n${body}\ntrailer\n<< /Root 1 0 R >>\n%%EOF\n`, 'latin1');
+const pages = (count: number) => Array.from({ length: count }, (_, i) => `${i + 3} 0 obj\n<< /Type /Page /Parent 2 0 R >>\nendobj`).join('\n');
+
+// A PDF 1.5 object stream holding the given content, deflated
+function objectStream(content: Buffer) {
+    const data = zlib.deflateSync(content);
+    return Buffer.concat([
+        Buffer.from('%PDF-1.5\n5 0 obj\n<< /Type /ObjStm /N 1 /First 0 /Filter /FlateDecode >>\nstream\n', 'latin1'),
+        data,
+        Buffer.from('\nendstream\nendobj\ntrailer\n<< /Root 1 0 R >>\n%%EOF\n', 'latin1'),
+    ]);
+}
+
+const problemCode = (name: string, bytes: Uint8Array) => {
+    const check = checkSource(name, bytes, inflate);
+    return check.ok ? null : check.problem.code;
+};
+
+describe('checkSizes', () => {
+    it('rejects empty and oversized files and too many of them', () => {
+        const files = [
+            { name: 'empty.pdf', size: 0 },
+            { name: 'huge.pdf', size: UPLOAD_LIMITS.maxFileBytes + 1 },
+            ...Array.from({ length: UPLOAD_LIMITS.maxFiles }, (_, i) => ({ name: `${i}.pdf`, size: 1 })),
+        ];
+        assert.deepEqual(checkSizes(files).map((problem) => problem.code), ['too-many-files', 'empty', 'too-large']);
+    });
+
+    it('rejects uploads over the total limit', () => {
+        const files = Array.from({ length: 4 }, (_, i) => ({ name: `${i}.pdf`, size: UPLOAD_LIMITS.maxFileBytes }));
+        assert.deepEqual(checkSizes(files).map((problem) => problem.code), ['total-too-large']);
+    });
+});
+
+describe('checkSource', () => {
+    it('accepts a PDF, a scan, LaTeX and a Word document', () => {
+        assert.equal(problemCode('exam.pdf', pdf(pages(2))), null);
+        assert.equal(problemCode('scan.png', Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a])), null);
+        assert.equal(problemCode('exam.tex', Buffer.from('\\documentclass{article}\n\\begin{document}\nQ1\n\\end{document}\n')), null);
+        assert.equal(problemCode('exam.docx', createZip([{ name: 'word/document.xml', content: '<w:document/>' }])), null);
+    });
+
+    it('rejects truncated and encrypted PDFs', () => {
+        assert.equal(problemCode('cut.pdf', Buffer.from(`%PDF-1.5\n${pages(1)}\n`, 'latin1')), 'corrupt');
+        assert.equal(problemCode('locked.pdf', pdf(`${pages(1)}\n9 0 obj\n<< /Encrypt 10 0 R >>\nendobj`)), 'encrypted');
+    });
+
+    it('counts pages, including those in object streams', () => {
+        assert.equal(problemCode('long.pdf', pdf(pages(UPLOAD_LIMITS.maxPages + 1))), 'too-many-pages');
+        assert.equal(problemCode('packed.pdf', objectStream(Buffer.from(pages(UPLOAD_LIMITS.maxPages + 1), 'latin1'))), 'too-many-pages');
+    });
+
+    it('rejects object streams that inflate past the limit', () => {
+        assert.equal(problemCode('bomb.pdf', objectStream(Buffer.alloc(PDF_STREAM_LIMIT + 1))), 'corrupt');
+    });
+
+    it('names unsupported files', () => {
+        const gif = checkSource('photo.gif', Buffer.from('GIF89a....'));
+        assert.equal(gif.ok, false);
+        assert.match(!gif.ok ? gif.problem.error : '', /GIF image/);
+        assert.equal(problemCode('archive.zip', createZip([{ name: 'a.txt', content: 'a' }])), 'unsupported');
+        assert.equal(problemCode('notes.tex', Buffer.from([0xff, 0xfe, 0x00, 0x41])), 'corrupt');
+    });
+});
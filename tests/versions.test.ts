@@ -0,0 +1,116 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import type { ExamDocument, Question } from '../lib/exam';
+import type { Logger } from '../lib/logger';
+import { DEFAULT_EXAM_OPTIONS } from '../lib/options';
+import { loadProfile, type PromptProfile } from '../lib/profiles';
+import { createTracker } from '../lib/progress';
+import type { ModelProvider } from '../lib/providers';
+import { checkBalance, findDuplicates, generateVersions } from '../lib/versions';
+
+const quiet: Logger = { requestId: 'test', debug() {}, info() {}, warn() {}, error() {}, child: () => quiet };
+
+const question = (id: string, stem: string, fields: Partial<Question> = {}): Question => ({
+    id,
+    type: 'short-answer',
+    topic: 'Kinematics',
+    stem,
+    parts: [],
+    choices: [],
+    marks: 4,
+    answer: 'Worked answer.',
+    ...fields,
+});
+
+const exam = (...questions: Question[]): ExamDocument => ({ preamble: '', header: '', questions, sourceQuestionTypes: [] });
+
+const base = exam(
+    question('q1', 'A ball is thrown upwards at 12 m/s. Find its maximum height.'),
+    question('q2', 'Explain why the period of a pendulum does not depend on its mass.', {
+        type: 'long-answer',
+        marks: 6,
+        parts: [
+            { label: '(a)', text: 'State the formula.', marks: 2, answer: '' },
+            { label: '(b)', text: 'Explain.', marks: 4, answer: '' },
+        ],
+    })
+);
+
+describe('checkBalance', () => {
+    it('accepts a version with the same types and marks', () => {
+        const version = exam(question('q1', 'A stone is dropped from 45 m.'), { ...base.questions[1], stem: 'Why is a pendulum clock regular?' });
+        assert.deepEqual(checkBalance(base, version), []);
+    });
+
+    it('names questions whose type, marks or parts differ', () => {
+        const version = exam(question('q1', 'Other', { marks: 3 }), { ...base.questions[1], parts: [base.questions[1].parts[0], { ...base.questions[1].parts[1], marks: 3 }] });
+        assert.deepEqual(checkBalance(base, version), [
+            'question 1 is short-answer, 3 marks instead of short-answer, 4 marks',
+            'question 2 is long-answer, 6 marks (parts 2+3) instead of long-answer, 6 marks (parts 2+4)',
+        ]);
+    });
+
+    it('reports a different question count once', () => {
+        assert.deepEqual(checkBalance(base, exam(base.questions[0])), ['1 questions instead of 2']);
+    });
+});
+
+describe('findDuplicates', () => {
+    it('finds a reworded question with the same numbers in a later version', () => {
+        const version = exam(question('q1', 'Explain why the pendulum period is independent of mass.'), question('q2', 'A ball is thrown upwards at 12 m/s.  Find its maximum height.'));
+        assert.deepEqual(findDuplicates([base, version]), [{ version: 1, questionId: 'q2', otherVersion: 0, otherQuestionId: 'q1' }]);
+    });
+
+    it('lets the same words with new numbers pass', () => {
+        const version = exam(question('q1', 'A ball is thrown upwards at 15 m/s. Find its maximum height.'));
+        assert.deepEqual(findDuplicates([base, version]), []);
+    });
+
+    it('ignores locked questions', () => {
+        const locked = { ...base.questions[0], locked: true };
+        assert.deepEqual(findDuplicates([exam(locked), exam(locked)]), []);
+    });
+});
+
+describe('generateVersions', () => {
+    let profile: PromptProfile;
+    before(async () => {
+        profile = await loadProfile(null);
+    });
+
+    // Writes version B as a copy of A, so every question needs a rewrite
+    const provider = (rewrite: () => Promise<never>): ModelProvider => ({
+        name: 'stub',
+        async generate(request) {
+            if (request.task !== 'version') return rewrite();
+            return { text: JSON.stringify(base), thoughts: '', usage: { promptTokens: 0, thinkingTokens: 0, outputTokens: 0 } };
+        },
+    });
+    const context = (model: ModelProvider, signal?: AbortSignal) => ({
+        provider: model,
+        settings: { provider: 'stub' as const, model: 'stub', temperature: 0, thinkingLevel: 'low' as const },
+        options: DEFAULT_EXAM_OPTIONS,
+        analysis: null,
+        profile,
+        tracker: createTracker(() => {}, quiet, signal),
+    });
+
+    it('reports duplicates whose rewrite failed', async () => {
+        const failing = provider(async () => {
+            throw new Error('model unavailable');
+        });
+        const { docs, issues } = await generateVersions(base, 2, context(failing));
+        assert.equal(docs.length, 2);
+        assert.equal(issues.length, 2);
+        assert.ok(issues.every((issue) => /^Version B q\d is nearly the same as version A q\d$/.test(issue)));
+    });
+
+    it('stops when the run is cancelled during a rewrite', async () => {
+        const controller = new AbortController();
+        const cancelled = provider(async () => {
+            controller.abort();
+            throw new Error('aborted');
+        });
+        await assert.rejects(generateVersions(base, 2, context(cancelled, controller.signal)), /aborted/);
+    });
+});
@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import zlib from 'zlib';
+import { createZip, readZipEntry } from '../lib/zip';
+
+describe('zip', () => {
+    it('reads back what it wrote', () => {
+        const archive = createZip([
+            { name: 'word/document.xml', content: '<w:document>Question 1</w:document>' },
+            { name: 'media/image.bin', content: Buffer.from([0, 1, 2, 255]) },
+        ]);
+        assert.equal(readZipEntry(archive, 'word/document.xml')?.toString(), '<w:document>Question 1</w:document>');
+        assert.deepEqual(readZipEntry(archive, 'media/image.bin'), Buffer.from([0, 1, 2, 255]));
+        assert.equal(readZipEntry(archive, 'missing.xml'), null);
+    });
+
+    it('writes CRCs other readers accept', () => {
+        const archive = createZip([{ name: 'a.txt', content: 'hello' }]);
+        // Local header CRC at offset 14
+        assert.equal(archive.readUInt32LE(14), zlib.crc32('hello'));
+    });
+
+    it('refuses entries declared larger than the limit', () => {
+        const archive = createZip([{ name: 'word/document.xml', content: 'x'.repeat(4096) }]);
+        assert.throws(() => readZipEntry(archive, 'word/document.xml', 1024), /larger than/);
+    });
+
+    it('refuses entries that inflate past the limit whatever their headers say', () => {
+        const archive = createZip([{ name: 'word/document.xml', content: 'x'.repeat(4096) }]);
+        const central = archive.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+        archive.writeUInt32LE(10, 22);
+        archive.writeUInt32LE(10, central + 24);
+        assert.throws(() => readZipEntry(archive, 'word/document.xml', 1024), /larger than/);
+    });
+
+    it('throws on data that is not a ZIP archive', () => {
+        assert.throws(() => readZipEntry(Buffer.from('not a zip at all, just text'), 'word/document.xml'));
+    });
+});